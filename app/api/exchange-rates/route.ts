@@ -0,0 +1,3 @@
+import { createExchangeRateSourceFromEnv, createExchangeRatesHandler } from "@/lib/server/exchange-rates";
+
+export const GET = createExchangeRatesHandler({ source: createExchangeRateSourceFromEnv() });
@@ -0,0 +1,3 @@
+import { createICalHandler } from "@/lib/server/ical-handler";
+
+export const GET = createICalHandler();
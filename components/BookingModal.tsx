@@ -1,48 +1,74 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useCallback, useId, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
-
-declare global {
-  interface Window {
-    paypal?: any;
-  }
-}
+import { createPayPalProvider } from "@/components/payments/PayPalProvider";
+import type { PaymentProvider, PaymentResult } from "@/components/payments/types";
+import { newIdempotencyKey, submitBooking, useBookingOutbox } from "@/components/useBookingOutbox";
+import { useDialog } from "@/components/useDialog";
+import {
+  feedsOf,
+  feedsQuery,
+  freeNightsFrom,
+  fullNights,
+  latestCheckOut,
+  unitsLeftForStay,
+} from "@/lib/availability";
+import type { BookedUnits } from "@/lib/availability";
+import type { BookingDraft, BookingSuccess, StayBookingRequest } from "@/lib/booking-api";
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  chargeFor,
+  formatMoney,
+  rateOf,
+  settlementCurrency,
+} from "@/lib/currency";
+import type { CurrencyCode, ExchangeRates } from "@/lib/currency";
+import { compareMoney, convertMoney, moneyEquals, moneyOf, toDecimal, toDecimalString } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import { addMonths, dateForKey, monthLength, plainDate, todayIn, weekdayOf } from "@/lib/dates";
+import { createTranslator } from "@/lib/i18n";
+import type { Messages, Translator } from "@/lib/i18n";
+import {
+  arrivalRestriction,
+  countGuests,
+  DEFAULT_ADDON_MAX_QUANTITY,
+  departureRestriction,
+  MAX_CHILD_AGE,
+  MIN_CHILD_AGE,
+  quoteStay,
+  rateFor,
+  resolveBookingConfig,
+  resolveGuestRules,
+  rulesFor,
+} from "@/lib/quote";
+import type { QuoteLine } from "@/lib/quote";
+import type { BookingConfig, BookingItem, StayAddon, StayAddonSelection } from "@/lib/types";
+
+export type { BookingConfig, BookingItem } from "@/lib/types";
+export type { BookingResponse, StayBookingRequest } from "@/lib/booking-api";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface BookingItem {
-  id: string;
-  name: string;
-  priceEUR: string;
-  iCalURL?: string;
-}
-
-export interface BookingConfig {
-  maxGuestsPerUnit?: number;
-  baseGuestsPerUnit?: number;
-  maxNights?: number;
-  maxUnits?: number;
-  unitLabel?: string;
-  hasCityTax?: boolean;
-  cityTaxPerNight?: number;
-  extraPersonFee?: number;
-  selectCheckout?: boolean;
-  propertyName?: string;
-  paypalContainerId?: string;
-  isPerPersonPricing?: boolean; // For journeys: price × guests instead of price × nights
-}
-
 export interface BookingModalProps {
   isOpen: boolean;
   onClose: () => void;
   item: BookingItem;
   config: BookingConfig;
-  formatPrice: (amount: number) => string;
-  paypalClientId: string;
-  onBookingComplete?: (data: any) => void;
+  formatPrice?: (amount: number, currency: CurrencyCode) => string; // Amounts arrive converted to `currency`
+  currency?: CurrencyCode; // Currency shown first; defaults to EUR
+  currencies?: CurrencyCode[]; // Offered in the currency picker, where rates exist
+  exchangeRates?: ExchangeRates; // Fetched from /api/exchange-rates when omitted
+  paypalClientId?: string; // Used for the default PayPal provider
+  paymentProvider?: PaymentProvider;
+  showDayPrices?: boolean; // Price under each calendar day; defaults to on when the item has rate plans
+  locale?: string; // "en" (default), "fr", "es" or "ar"
+  messages?: Partial<Messages>; // Overrides individual strings of the locale
+  weekStartsOn?: number; // 0 = Sunday; defaults to the locale's
+  onBookingComplete?: (booking: StayBookingRequest, result: BookingSuccess) => void; // After the booking is saved
 }
 
 // ============================================================================
@@ -55,41 +81,70 @@ function Calendar({
   onSelectDate,
   bookedDates,
   selectCheckout,
+  maxCheckOut,
+  restrictionOf,
+  priceOf,
+  formatPrice,
+  timeZone,
+  i18n,
+  weekStartsOn,
 }: {
   selectedCheckIn: string;
   selectedCheckOut: string;
   onSelectDate: (date: string) => void;
   bookedDates: string[];
   selectCheckout: boolean;
+  maxCheckOut?: string | null; // Last selectable check-out while choosing one
+  restrictionOf?: (dateStr: string) => string | null; // Why a stay rule rules a date out
+  priceOf?: (dateStr: string) => Money; // Shows a nightly price under each day
+  formatPrice: (amount: Money) => string;
+  timeZone: string; // Property time zone; "today" is read there
+  i18n: Translator;
+  weekStartsOn: number; // 0 = Sunday
 }) {
-  const [currentMonth, setCurrentMonth] = useState(() => {
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth(), 1);
-  });
+  const { t } = i18n;
+  const labelId = useId();
+  const helpId = useId();
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Months and days are plain YYYY-MM-DD dates, never the browser's local time
+  const today = todayIn(timeZone);
+  const thisMonth = addMonths(today, 0);
+  const [currentMonth, setCurrentMonth] = useState(thisMonth);
+
+  // Roving focus: only one day is in the tab order, and the arrow keys move it
+  const [focusedDate, setFocusedDate] = useState(selectedCheckIn || today);
+  const moveFocus = useRef(false);
+  const inMonth = (dateStr: string) => addMonths(dateStr, 0) === currentMonth;
+  const tabbableDate = inMonth(focusedDate) ? focusedDate : inMonth(today) ? today : currentMonth;
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startingDay = firstDay.getDay();
-    return { daysInMonth, startingDay };
+  useEffect(() => {
+    if (!moveFocus.current) return;
+    moveFocus.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${tabbableDate}"]`)?.focus();
+  }, [tabbableDate]);
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const next = dateForKey(tabbableDate, e.key, { weekStartsOn, rtl: i18n.dir === "rtl", shiftKey: e.shiftKey });
+    if (!next) return;
+    e.preventDefault();
+    const target = next < thisMonth ? thisMonth : next;
+    moveFocus.current = true;
+    setFocusedDate(target);
+    setCurrentMonth(addMonths(target, 0));
   };
 
-  const formatDateStr = (year: number, month: number, day: number) => {
-    return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const getDaysInMonth = (monthStart: string) => {
+    const [year, month] = monthStart.split("-").map(Number);
+    // Blank cells before the 1st, counted from the first day of the week
+    return { daysInMonth: monthLength(year, month), startingDay: (weekdayOf(monthStart) - weekStartsOn + 7) % 7 };
   };
 
+  const formatDateStr = (year: number, month: number, day: number) => plainDate(year, month + 1, day);
+
   const isBooked = (dateStr: string) => bookedDates.includes(dateStr);
 
-  const isPast = (year: number, month: number, day: number) => {
-    const date = new Date(year, month, day);
-    return date < today;
-  };
+  const isPast = (year: number, month: number, day: number) => formatDateStr(year, month, day) < today;
 
   const isInRange = (dateStr: string) => {
     if (!selectedCheckIn || !selectedCheckOut) return false;
@@ -97,259 +152,223 @@ function Calendar({
   };
 
   const { daysInMonth, startingDay } = getDaysInMonth(currentMonth);
-  const year = currentMonth.getFullYear();
-  const month = currentMonth.getMonth();
-
-  const monthNames = ["January", "February", "March", "April", "May", "June", 
-                      "July", "August", "September", "October", "November", "December"];
+  const year = Number(currentMonth.slice(0, 4));
+  const month = Number(currentMonth.slice(5, 7)) - 1;
 
   const prevMonth = () => {
-    const prev = new Date(year, month - 1, 1);
-    if (prev >= new Date(today.getFullYear(), today.getMonth(), 1)) {
+    const prev = addMonths(currentMonth, -1);
+    if (prev >= thisMonth) {
       setCurrentMonth(prev);
     }
   };
 
   const nextMonth = () => {
-    setCurrentMonth(new Date(year, month + 1, 1));
+    setCurrentMonth(addMonths(currentMonth, 1));
   };
 
-  const canGoPrev = new Date(year, month - 1, 1) >= new Date(today.getFullYear(), today.getMonth(), 1);
+  const canGoPrev = addMonths(currentMonth, -1) >= thisMonth;
+
+  let hasRestrictedDates = false;
+
+  // Lowest price among the month's open days, highlighted only when prices vary
+  const monthPrices = priceOf
+    ? Array.from({ length: daysInMonth }, (_, i) => i + 1)
+        .filter((day) => !isPast(year, month, day) && !isBooked(formatDateStr(year, month, day)))
+        .map((day) => priceOf(formatDateStr(year, month, day)))
+    : [];
+  const sortedPrices = [...monthPrices].sort(compareMoney);
+  const lowestPrice =
+    sortedPrices.length > 0 && compareMoney(sortedPrices[0], sortedPrices[sortedPrices.length - 1]) < 0
+      ? sortedPrices[0]
+      : null;
+
+  // Blank cells before the 1st and after the last day fill whole weeks
+  const cells = [
+    ...Array.from({ length: startingDay }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => formatDateStr(year, month, i + 1)),
+  ];
+  const weeks = Array.from({ length: Math.ceil(cells.length / 7) }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => cells[w * 7 + d] ?? null)
+  );
+  const weekdayNames = i18n.weekdayLabels(weekStartsOn, "long");
+
+  // Read out whenever the selection changes
+  const announcement = selectedCheckIn
+    ? [
+        `${t("checkIn")}: ${i18n.formatLongDate(selectedCheckIn)}`,
+        selectedCheckOut
+          ? `${t("checkOut")}: ${i18n.formatLongDate(selectedCheckOut)}`
+          : selectCheckout
+            ? i18n.issue({ code: "checkOutRequired" })
+            : "",
+      ]
+        .filter(Boolean)
+        .join(". ")
+    : "";
 
   return (
     <div>
       {/* Month navigation */}
       <div className="flex items-center justify-between mb-6">
         <button
+          type="button"
           onClick={prevMonth}
           disabled={!canGoPrev}
+          aria-label={t("previousMonth")}
           className="w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
         >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100" aria-hidden="true">
             <polyline points="10,2 5,8 10,14" />
           </svg>
         </button>
-        <span className="text-sm tracking-wide text-foreground/70">
-          {monthNames[month]} {year}
+        <span id={labelId} aria-live="polite" className="text-sm tracking-wide text-foreground/70">
+          {i18n.monthLabel(currentMonth)}
         </span>
         <button
+          type="button"
           onClick={nextMonth}
+          aria-label={t("nextMonth")}
           className="w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground transition-colors"
         >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100" aria-hidden="true">
             <polyline points="6,2 11,8 6,14" />
           </svg>
         </button>
       </div>
 
-      {/* Day headers */}
-      <div className="grid grid-cols-7 mb-2">
-        {["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"].map((day) => (
-          <div key={day} className="text-center text-[10px] tracking-wider text-foreground/30 uppercase">
-            {day}
-          </div>
-        ))}
-      </div>
+      <p id={helpId} className="sr-only">{t("calendarHelp")}</p>
+      <p className="sr-only" aria-live="polite">{announcement}</p>
 
       {/* Calendar grid */}
-      <div className="grid grid-cols-7 gap-1">
-        {/* Empty cells for days before month starts */}
-        {Array.from({ length: startingDay }).map((_, i) => (
-          <div key={`empty-${i}`} className="aspect-square" />
-        ))}
-
-        {/* Days of the month */}
-        {Array.from({ length: daysInMonth }).map((_, i) => {
-          const day = i + 1;
-          const dateStr = formatDateStr(year, month, day);
-          const isBookedDate = isBooked(dateStr);
-          const isPastDate = isPast(year, month, day);
-          const isCheckIn = dateStr === selectedCheckIn;
-          const isCheckOut = dateStr === selectedCheckOut;
-          const isRange = isInRange(dateStr);
-          const isDisabled = isPastDate || isBookedDate;
-
-          return (
-            <button
+      <div ref={gridRef} role="grid" aria-labelledby={labelId} aria-describedby={helpId} onKeyDown={handleGridKeyDown}>
+        {/* Day headers */}
+        <div role="row" className="grid grid-cols-7 mb-2">
+          {i18n.weekdayLabels(weekStartsOn).map((day, i) => (
+            <div
               key={day}
-              onClick={() => !isDisabled && onSelectDate(dateStr)}
-              disabled={isDisabled}
-              className={`
-                aspect-square flex items-center justify-center text-sm relative transition-all
-                ${isDisabled ? "cursor-not-allowed" : "cursor-pointer hover:bg-foreground/5"}
-                ${isCheckIn || isCheckOut ? "bg-foreground text-[#f8f5f0]" : ""}
-                ${isRange ? "bg-foreground/10" : ""}
-                ${isPastDate ? "text-foreground/20" : ""}
-                ${isBookedDate && !isPastDate ? "text-foreground/30" : ""}
-                ${!isDisabled && !isCheckIn && !isCheckOut && !isRange ? "text-foreground/70" : ""}
-              `}
+              role="columnheader"
+              aria-label={weekdayNames[i]}
+              className="text-center text-[10px] tracking-wider text-foreground/30 uppercase"
             >
-              <span className="relative z-10">{day}</span>
-              {/* Unavailable indicator */}
-              {isBookedDate && !isPastDate && (
-                <div className="absolute inset-0 bg-foreground/10" />
-              )}
-            </button>
-          );
-        })}
+              {day}
+            </div>
+          ))}
+        </div>
+
+        <div role="rowgroup" className="space-y-1">
+          {weeks.map((week, w) => (
+            <div key={w} role="row" className="grid grid-cols-7 gap-1">
+              {week.map((dateStr, d) => {
+                if (!dateStr) return <div key={`empty-${d}`} role="gridcell" className="aspect-square" />;
+
+                const day = Number(dateStr.slice(8, 10));
+                const isBookedDate = isBooked(dateStr);
+                const isPastDate = isPast(year, month, day);
+                const isCheckIn = dateStr === selectedCheckIn;
+                const isCheckOut = dateStr === selectedCheckOut;
+                const isRange = isInRange(dateStr);
+                // The first booked night after check-in can still be the check-out day
+                const isCheckOutLimit = dateStr === maxCheckOut;
+                const isBeyondLimit = !!maxCheckOut && dateStr > maxCheckOut;
+                const restriction = isPastDate || isBookedDate || isBeyondLimit ? null : restrictionOf?.(dateStr) ?? null;
+                if (restriction) hasRestrictedDates = true;
+                const isDisabled = isPastDate || (isBookedDate && !isCheckOutLimit) || isBeyondLimit || !!restriction;
+                const price = priceOf && !isPastDate && !isBookedDate ? priceOf(dateStr) : null;
+                const isLowest = price !== null && lowestPrice !== null && moneyEquals(price, lowestPrice);
+                const beyondLimitNote = isBeyondLimit && !isBookedDate ? t("bookedNightsInStay") : null;
+
+                // Everything the day's look conveys, for screen readers
+                const dayLabel = [
+                  i18n.formatLongDate(dateStr),
+                  isCheckIn && t("checkIn"),
+                  isCheckOut && t("checkOut"),
+                  isRange && t("inStay"),
+                  price !== null && formatPrice(price),
+                  isLowest && t("lowest"),
+                  isDisabled && !restriction && !beyondLimitNote && t("unavailable"),
+                  restriction,
+                  beyondLimitNote,
+                ]
+                  .filter(Boolean)
+                  .join(", ");
+
+                return (
+                  <div key={dateStr} role="gridcell" aria-selected={isCheckIn || isCheckOut || isRange}>
+                    <button
+                      type="button"
+                      data-date={dateStr}
+                      tabIndex={dateStr === tabbableDate ? 0 : -1}
+                      onClick={() => {
+                        setFocusedDate(dateStr);
+                        if (!isDisabled) onSelectDate(dateStr);
+                      }}
+                      aria-disabled={isDisabled || undefined}
+                      aria-current={dateStr === today ? "date" : undefined}
+                      aria-label={dayLabel}
+                      title={restriction ?? beyondLimitNote ?? undefined}
+                      className={`
+                        w-full aspect-square flex flex-col items-center justify-center text-sm relative transition-all
+                        focus:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-foreground
+                        ${isDisabled ? "cursor-not-allowed" : "cursor-pointer hover:bg-foreground/5"}
+                        ${isCheckIn || isCheckOut ? "bg-foreground text-[#f8f5f0]" : ""}
+                        ${isRange ? "bg-foreground/10" : ""}
+                        ${isPastDate ? "text-foreground/20" : ""}
+                        ${isBookedDate && !isPastDate ? "text-foreground/30" : ""}
+                        ${isBeyondLimit && !isBookedDate && !isPastDate ? "text-foreground/20" : ""}
+                        ${restriction ? "text-foreground/30 line-through" : ""}
+                        ${!isDisabled && !isCheckIn && !isCheckOut && !isRange ? "text-foreground/70" : ""}
+                      `}
+                    >
+                      <span className="relative z-10">{day}</span>
+                      {price !== null && (
+                        <span
+                          className={`relative z-10 text-[8px] leading-none mt-0.5 ${
+                            isCheckIn || isCheckOut ? "opacity-70" : isLowest ? "font-medium text-foreground" : "text-foreground/40"
+                          }`}
+                        >
+                          {formatPrice(price)}
+                        </span>
+                      )}
+                      {/* Unavailable indicator */}
+                      {isBookedDate && !isPastDate && (
+                        <div className="absolute inset-0 bg-foreground/10" />
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Legend */}
-      <div className="flex items-center gap-6 mt-6 pt-4 border-t border-foreground/10">
+      <div className="flex items-center gap-6 mt-6 pt-4 border-t border-foreground/10" aria-hidden="true">
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 bg-foreground" />
-          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">Selected</span>
+          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{t("selected")}</span>
         </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 border border-foreground/20 bg-foreground/5" />
-          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">Unavailable</span>
+          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{t("unavailable")}</span>
         </div>
+        {lowestPrice !== null && (
+          <div className="flex items-center gap-2">
+            <span className="text-[8px] font-medium text-foreground">{formatPrice(lowestPrice)}</span>
+            <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{t("lowest")}</span>
+          </div>
+        )}
+        {hasRestrictedDates && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-foreground/30 line-through">15</span>
+            <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{t("restricted")}</span>
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
-// ============================================================================
-// PAYPAL COMPONENT
-// ============================================================================
-
-function PayPalButton({
-  amount,
-  description,
-  clientId,
-  onSuccess,
-  onError,
-}: {
-  amount: string;
-  description: string;
-  clientId: string;
-  onSuccess: (transactionId: string) => void;
-  onError: (err: any) => void;
-}) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-  const buttonsInstance = useRef<any>(null);
-  const isMounted = useRef(true);
-
-  useEffect(() => {
-    isMounted.current = true;
-    let timeoutId: NodeJS.Timeout;
-
-    const renderButton = async () => {
-      if (!containerRef.current || !window.paypal || !isMounted.current) return;
-
-      try {
-        if (containerRef.current) {
-          containerRef.current.innerHTML = "";
-        }
-
-        buttonsInstance.current = window.paypal.Buttons({
-          style: { layout: "vertical", color: "black", shape: "rect", label: "pay", height: 50 },
-          createOrder: (_: any, actions: any) => {
-            return actions.order.create({
-              purchase_units: [{ description, amount: { value: amount, currency_code: "EUR" } }],
-            });
-          },
-          onApprove: async (_: any, actions: any) => {
-            if (!isMounted.current) return;
-            const order = await actions.order.capture();
-            onSuccess(order.id);
-          },
-          onError: (err: any) => {
-            if (!isMounted.current) return;
-            onError(err);
-          },
-        });
-
-        if (containerRef.current && isMounted.current) {
-          await buttonsInstance.current.render(containerRef.current);
-          if (isMounted.current) {
-            setLoading(false);
-          }
-        }
-      } catch (err) {
-        console.error("PayPal render error:", err);
-        if (isMounted.current) {
-          setError(true);
-          setLoading(false);
-        }
-      }
-    };
-
-    const initPayPal = () => {
-      if (window.paypal) {
-        renderButton();
-      } else {
-        const existingScript = document.querySelector('script[src*="paypal.com/sdk"]');
-        if (!existingScript) {
-          const script = document.createElement("script");
-          script.src = `https://www.paypal.com/sdk/js?client-id=${clientId}&currency=EUR`;
-          script.async = true;
-          script.onload = () => {
-            if (isMounted.current) renderButton();
-          };
-          script.onerror = () => {
-            if (isMounted.current) {
-              setError(true);
-              setLoading(false);
-            }
-          };
-          document.head.appendChild(script);
-        } else {
-          const checkInterval = setInterval(() => {
-            if (window.paypal) {
-              clearInterval(checkInterval);
-              if (isMounted.current) renderButton();
-            }
-          }, 100);
-          
-          timeoutId = setTimeout(() => {
-            clearInterval(checkInterval);
-            if (isMounted.current && !window.paypal) {
-              setError(true);
-              setLoading(false);
-            }
-          }, 10000);
-        }
-      }
-    };
-
-    requestAnimationFrame(initPayPal);
-
-    return () => {
-      isMounted.current = false;
-      if (timeoutId) clearTimeout(timeoutId);
-      
-      if (buttonsInstance.current && typeof buttonsInstance.current.close === "function") {
-        try {
-          buttonsInstance.current.close();
-        } catch (e) {}
-      }
-      buttonsInstance.current = null;
-    };
-  }, [amount, description, clientId, onSuccess, onError]);
-
-  if (error) {
-    return (
-      <div className="py-6 text-center">
-        <p className="text-sm text-foreground/50">Unable to load payment. Please refresh and try again.</p>
-      </div>
-    );
-  }
-
-  return (
-    <div>
-      {loading && (
-        <div className="flex justify-center py-6">
-          <div className="w-5 h-5 border border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
-        </div>
-      )}
-      <div ref={containerRef} />
-    </div>
-  );
-}
-
 // ============================================================================
 // QUANTITY SELECTOR
 // ============================================================================
@@ -360,33 +379,41 @@ function QuantitySelector({
   min = 1,
   max = 10,
   onChange,
+  i18n,
 }: {
   label: string;
   value: number;
   min?: number;
   max?: number;
   onChange: (val: number) => void;
+  i18n: Translator;
 }) {
+  const labelId = useId();
+
   return (
-    <div className="flex items-center justify-between py-4 border-b border-foreground/10">
-      <span className="text-sm text-foreground/70">{label}</span>
+    <div role="group" aria-labelledby={labelId} className="flex items-center justify-between py-4 border-b border-foreground/10">
+      <span id={labelId} className="text-sm text-foreground/70">{label}</span>
       <div className="flex items-center gap-4">
         <button
+          type="button"
           onClick={() => onChange(Math.max(min, value - 1))}
           disabled={value <= min}
+          aria-label={i18n.t("decrease", { label })}
           className="w-8 h-8 flex items-center justify-center border border-foreground/20 text-foreground/50 hover:border-foreground/40 hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
         >
-          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden="true">
             <line x1="2" y1="6" x2="10" y2="6" />
           </svg>
         </button>
-        <span className="w-8 text-center text-foreground">{value}</span>
+        <span aria-live="polite" className="w-8 text-center text-foreground">{value}</span>
         <button
+          type="button"
           onClick={() => onChange(Math.min(max, value + 1))}
           disabled={value >= max}
+          aria-label={i18n.t("increase", { label })}
           className="w-8 h-8 flex items-center justify-center border border-foreground/20 text-foreground/50 hover:border-foreground/40 hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
         >
-          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden="true">
             <line x1="6" y1="2" x2="6" y2="10" />
             <line x1="2" y1="6" x2="10" y2="6" />
           </svg>
@@ -406,7 +433,15 @@ export default function BookingModal({
   item,
   config,
   formatPrice,
+  currency,
+  currencies,
+  exchangeRates,
   paypalClientId,
+  paymentProvider,
+  showDayPrices,
+  locale,
+  messages,
+  weekStartsOn,
   onBookingComplete,
 }: BookingModalProps) {
   const [mounted, setMounted] = useState(false);
@@ -424,7 +459,15 @@ export default function BookingModal({
       item={item}
       config={config}
       formatPrice={formatPrice}
+      currency={currency}
+      currencies={currencies}
+      exchangeRates={exchangeRates}
       paypalClientId={paypalClientId}
+      paymentProvider={paymentProvider}
+      showDayPrices={showDayPrices}
+      locale={locale}
+      messages={messages}
+      weekStartsOn={weekStartsOn}
       onBookingComplete={onBookingComplete}
     />,
     document.body
@@ -436,61 +479,117 @@ function BookingModalContent({
   item,
   config,
   formatPrice,
+  currency: initialCurrency = BASE_CURRENCY,
+  currencies = CURRENCIES,
+  exchangeRates,
   paypalClientId,
+  paymentProvider,
+  showDayPrices = (item.rates?.length ?? 0) > 0,
+  locale,
+  messages,
+  weekStartsOn,
   onBookingComplete,
 }: Omit<BookingModalProps, "isOpen">) {
   const {
-    maxGuestsPerUnit = 2,
-    baseGuestsPerUnit = 2,
-    maxNights = 30,
-    maxUnits = 1,
-    unitLabel = "room",
-    hasCityTax = false,
-    cityTaxPerNight = 2.5,
-    extraPersonFee = 0,
-    selectCheckout = true,
-    isPerPersonPricing = false,
-  } = config;
+    maxGuestsPerUnit,
+    baseGuestsPerUnit,
+    maxNights,
+    maxUnits,
+    unitLabel,
+    hasCityTax,
+    extraPersonFee,
+    selectCheckout,
+    isPerPersonPricing,
+    timeZone,
+    addons,
+  } = resolveBookingConfig(config);
 
   const [step, setStep] = useState(1);
   const [checkIn, setCheckIn] = useState("");
   const [checkOut, setCheckOut] = useState("");
   const [nights, setNights] = useState(1);
-  const [guests, setGuests] = useState(baseGuestsPerUnit);
+  // Everyone counts as an adult unless the item has guestRules
+  const [adults, setAdults] = useState(baseGuestsPerUnit);
+  const [childAges, setChildAges] = useState<number[]>([]); // NaN until an age is picked
+  const [infants, setInfants] = useState(0);
   const [units, setUnits] = useState(1);
+  const [selectedAddons, setSelectedAddons] = useState<StayAddonSelection[]>([]);
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [message, setMessage] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [bookedDates, setBookedDates] = useState<string[]>([]);
+  const [idempotencyKey, setIdempotencyKey] = useState(newIdempotencyKey);
+  // Set to the payment reference when the booking is paid but not saved yet
+  const [queuedReference, setQueuedReference] = useState("");
+  // Set to the payment reference when the booking is paid but the server
+  // refused it, so the guest contacts us instead of paying again
+  const [refusedReference, setRefusedReference] = useState("");
+  // Whether the provider took the money, for the queued and refused screens
+  const [paymentCharged, setPaymentCharged] = useState(false);
+  const [bookedUnits, setBookedUnits] = useState<BookedUnits>({});
+  const [currency, setCurrency] = useState<CurrencyCode>(initialCurrency);
+  const [fetchedRates, setFetchedRates] = useState<ExchangeRates | null>(null);
+
+  const i18n = useMemo(() => createTranslator(locale, messages), [locale, messages]);
+  const { t } = i18n;
+
+  const provider = useMemo(
+    () => paymentProvider ?? createPayPalProvider({ clientId: paypalClientId ?? "" }),
+    [paymentProvider, paypalClientId]
+  );
+
+  // Exchange rates for the currency picker. Without them only EUR is offered.
+  const needsRates = !exchangeRates && currencies.some((code) => code !== BASE_CURRENCY);
+
+  useEffect(() => {
+    if (!needsRates) return;
+    fetch("/api/exchange-rates")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success && data.rates) setFetchedRates(data);
+      })
+      .catch((err) => console.error("Failed to fetch exchange rates:", err));
+  }, [needsRates]);
+
+  const currencyRates = exchangeRates ?? fetchedRates;
+  const offeredCurrencies = currencies.filter((code) => rateOf(currencyRates, code) !== null);
+  const displayCurrency = offeredCurrencies.includes(currency) ? currency : BASE_CURRENCY;
+  const displayRate = rateOf(currencyRates, displayCurrency) ?? 1;
+
+  // Every amount shown goes through here: quoted in EUR, shown converted
+  const money = (amount: Money) =>
+    formatPrice ? formatPrice(toDecimal(amount), amount.currency) : formatMoney(amount, i18n.intlLocale);
+  const price = (amountEUR: Money) => money(convertMoney(amountEUR, displayRate, displayCurrency));
 
   // Calculate max guests based on units selected
   const maxGuests = maxGuestsPerUnit * units;
-  const baseGuests = baseGuestsPerUnit * units;
 
-  // Fetch booked dates from iCal
+  // Adults, children and infants, when the item says who counts for what
+  const hasGuestTypes = !!config.guestRules;
+  const guestRules = resolveGuestRules(config.guestRules);
+  const party = hasGuestTypes ? { adults, childAges, infants } : undefined;
+
+  // Fetch units booked per night from every iCal feed of the item (merged by
+  // the route, with check-out days left free for same-day turnovers). Each
+  // booking takes one unit; a night is only unavailable once all are taken.
+  const feedQuery = feedsQuery(feedsOf(item), maxUnits, timeZone);
+
   useEffect(() => {
-    if (item.iCalURL) {
-      fetch(`/api/ical?url=${encodeURIComponent(item.iCalURL)}`)
+    if (feedQuery) {
+      fetch(`/api/ical?${feedQuery}`)
         .then((res) => res.json())
         .then((data) => {
-          if (data.bookedDates && Array.isArray(data.bookedDates)) {
-            const dates: string[] = [];
-            data.bookedDates.forEach((booking: { start: string; end: string }) => {
-              const start = new Date(booking.start);
-              const end = new Date(booking.end);
-              for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-                dates.push(d.toISOString().split("T")[0]);
-              }
-            });
-            setBookedDates(dates);
+          if (data.bookedUnits && typeof data.bookedUnits === "object") {
+            setBookedUnits(data.bookedUnits);
           }
         })
         .catch((err) => console.error("Failed to fetch availability:", err));
     }
-  }, [item.iCalURL]);
+  }, [feedQuery]);
+
+  const bookedDates = useMemo(() => fullNights(bookedUnits, maxUnits), [bookedUnits, maxUnits]);
 
   // Handle date selection
   const handleDateSelect = (dateStr: string) => {
@@ -511,70 +610,181 @@ function BookingModalContent({
     }
   };
 
-  // Calculate nights
-  const calculatedNights = selectCheckout && checkIn && checkOut
-    ? Math.max(1, Math.ceil((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / (1000 * 60 * 60 * 24)))
-    : nights;
-
-  // Pricing calculations
-  const pricePerNight = parseFloat(item.priceEUR) || 0;
-  
-  // Per-person pricing mode (for journeys): price × guests
-  // Standard mode (for rooms): price × nights × units + extras
-  const subtotal = isPerPersonPricing 
-    ? pricePerNight * guests 
-    : pricePerNight * calculatedNights * units;
-  const extraGuests = isPerPersonPricing ? 0 : Math.max(0, guests - baseGuests);
-  const extraGuestsCost = extraGuests * extraPersonFee * calculatedNights;
-  const cityTax = (hasCityTax && !isPerPersonPricing) ? cityTaxPerNight * guests * calculatedNights : 0;
-  const total = subtotal + extraGuestsCost + cityTax;
-
-  const canProceedStep1 = isPerPersonPricing
-    ? checkIn && guests >= 1
-    : (selectCheckout ? checkIn && checkOut && calculatedNights >= 1 : checkIn && nights >= 1);
-
-  const handlePaymentSuccess = useCallback(async (transactionId: string) => {
+  // Pricing comes from the shared quote engine, which the booking API
+  // route re-runs to reject tampered or stale totals
+  const quote = quoteStay(item, config, {
+    checkIn,
+    checkOut: selectCheckout ? checkOut : "",
+    nights,
+    guests: adults,
+    party,
+    units,
+    addons: selectedAddons,
+  });
+  const {
+    nights: calculatedNights,
+    guests,
+    guestCounts,
+    pricePerNight,
+    extraGuests,
+    extraGuestsCost,
+    cityTax,
+    total,
+  } = quote;
+  // One line per rate the stay's nights are priced at
+  const stayLines = quote.lines.filter((line) => line.kind === "stay");
+  const addonLines = quote.lines.filter((line) => line.kind === "addon");
+  const showRateNames = stayLines.length > 1 || (item.rates?.length ?? 0) > 0;
+
+  // A stay can't run past the next booked night: while choosing a check-out
+  // later dates are disabled, and the nights selector stops there
+  const choosingCheckOut = selectCheckout && !!checkIn && !checkOut;
+  const maxCheckOut = choosingCheckOut ? latestCheckOut(checkIn, bookedDates) : null;
+
+  // Stay rules (min/max nights, closed to arrival/departure) from the
+  // arrival date. A date before check-in would start a new stay.
+  const arrivalRules = checkIn ? rulesFor(checkIn, config) : null;
+  const restrictionOf = (dateStr: string) => {
+    const restriction =
+      choosingCheckOut && dateStr > checkIn
+        ? departureRestriction(checkIn, dateStr, config)
+        : arrivalRestriction(dateStr, config);
+    return restriction ? i18n.issue(restriction) : null;
+  };
+
+  // Units are capped by the fewest left on any night of the stay
+  const unitsLeft = checkIn ? Math.max(1, unitsLeftForStay(checkIn, calculatedNights, bookedUnits, maxUnits)) : maxUnits;
+
+  const minSelectableNights = Math.max(1, arrivalRules?.minNights ?? 1);
+  const maxSelectableNights = arrivalRules
+    ? Math.max(1, freeNightsFrom(checkIn, bookedDates, arrivalRules.maxNights))
+    : maxNights;
+
+  const canProceedStep1 = quote.issues.length === 0;
+
+  // Room left for each guest type, from the types that take up capacity
+  const roomLeft = Math.max(0, maxGuests - countGuests(guestCounts, guestRules.capacity));
+  const maxOfType = (count: number, counted: boolean) => (counted ? count + roomLeft : maxGuests);
+  const maxAdults = Math.max(1, maxOfType(adults, guestRules.capacity.includes("adults")));
+  const maxChildren = maxOfType(childAges.length, guestRules.capacity.includes("children"));
+  const maxInfants = Math.min(
+    guestRules.maxInfantsPerUnit * units,
+    maxOfType(infants, guestRules.capacity.includes("infants"))
+  );
+
+  const setChildCount = (count: number) => {
+    setChildAges((prev) => (count > prev.length ? [...prev, NaN] : prev.slice(0, count)));
+  };
+
+  const setChildAge = (index: number, age: number) => {
+    setChildAges((prev) => prev.map((a, i) => (i === index ? age : a)));
+  };
+
+  // Per-person lines: "3 guests", or adults and children when priced apart
+  const payersLabel = (line: QuoteLine) =>
+    line.guestType === "children"
+      ? t("childCount", { count: line.quantity })
+      : line.guestType === "adults"
+        ? t("adultCount", { count: line.quantity })
+        : t("guestCount", { count: line.quantity });
+
+  // Add-ons get their own step, only when the item offers some
+  const hasAddons = addons.length > 0;
+  const totalSteps = hasAddons ? 4 : 3;
+
+  const toggleAddon = (addonId: string) => {
+    setSelectedAddons((prev) =>
+      prev.some((a) => a.id === addonId) ? prev.filter((a) => a.id !== addonId) : [...prev, { id: addonId, quantity: 1 }]
+    );
+  };
+
+  const setAddonQuantity = (addonId: string, quantity: number) => {
+    setSelectedAddons((prev) => prev.map((a) => (a.id === addonId ? { ...a, quantity } : a)));
+  };
+
+  const addonPricingLabel = (addon: StayAddon) => {
+    switch (addon.pricing ?? "perStay") {
+      case "perNight":
+        return t("eachNight");
+      case "perGuest":
+        return t("perPerson");
+      case "perGuestPerNight":
+        return t("perGuestPerNight");
+      case "perItem":
+        return t("perItem");
+      default:
+        return t("perStay");
+    }
+  };
+
+  // "Dinner (2 × €40)"; add-ons charged once just show their name
+  const addonLineLabel = (line: QuoteLine) =>
+    line.quantity > 1 ? `${line.label} (${line.quantity} × ${price(line.unitPrice)})` : line.label;
+
+  // The provider may not settle the shown currency; it then charges EUR
+  const chargeCurrency = settlementCurrency(displayCurrency, provider.currencies);
+  const charge = chargeFor(total, chargeCurrency, rateOf(currencyRates, chargeCurrency) ?? 1);
+
+  // Sent with the payment order too, so the server can save the booking from
+  // the payment webhook if this page never reports back
+  const bookingDraft = {
+    itemId: item.id,
+    itemName: item.name,
+    checkIn,
+    checkOut: selectCheckout ? checkOut : "",
+    nights: calculatedNights,
+    guests,
+    ...party,
+    units,
+    addons: selectedAddons,
+    totalEUR: toDecimalString(total),
+    currency: charge.amount.currency,
+    exchangeRate: charge.exchangeRate,
+    firstName,
+    lastName,
+    email,
+    phone,
+    message,
+    idempotencyKey,
+  } satisfies BookingDraft;
+
+  const handlePaymentSuccess = useCallback(async (payment: PaymentResult) => {
     setIsSubmitting(true);
-    const bookingData = {
-      itemId: item.id,
-      itemName: item.name,
-      checkIn,
-      checkOut: selectCheckout ? checkOut : "",
-      nights: calculatedNights,
-      guests,
-      units,
-      totalEUR: total.toFixed(2),
-      firstName,
-      lastName,
-      email,
-      phone,
-      message,
-      paypalTransactionId: transactionId,
+    setPaymentCharged(payment.charged);
+    const bookingData: StayBookingRequest = {
+      ...bookingDraft,
+      paymentProvider: payment.provider,
+      transactionId: payment.transactionId,
     };
 
     try {
-      const response = await fetch("/api/bookings", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(bookingData),
-      });
-      const result = await response.json();
-      if (result.success) {
-        setStep(4);
-        onBookingComplete?.(bookingData);
+      const submission = await submitBooking("/api/bookings", { ...bookingData, idempotencyKey });
+      if (submission.status === "saved") {
+        setStep(5);
+        onBookingComplete?.(bookingData, submission.result);
+      } else if (submission.status === "queued") {
+        setQueuedReference(payment.transactionId);
+        setStep(5);
+      } else {
+        console.error("Booking refused:", submission.result.error);
+        setRefusedReference(payment.transactionId);
+        setStep(5);
       }
     } catch (error) {
       console.error("Booking error:", error);
-      alert("Failed to save booking. Please contact us.");
+      setRefusedReference(payment.transactionId);
+      setStep(5);
     } finally {
+      // The payment is spent; another one is a new booking
+      setIdempotencyKey(newIdempotencyKey());
       setIsSubmitting(false);
     }
-  }, [item, checkIn, checkOut, selectCheckout, calculatedNights, guests, units, total, firstName, lastName, email, phone, message, onBookingComplete]);
+  }, [bookingDraft, idempotencyKey, onBookingComplete]);
 
-  const handlePaymentError = useCallback((err: any) => {
-    console.error("PayPal error:", err);
-    alert("Payment failed. Please try again.");
-  }, []);
+  const handlePaymentError = useCallback((err: unknown) => {
+    console.error("Payment error:", err);
+    alert(t("paymentFailed"));
+  }, [t]);
 
   // Prevent body scroll
   useEffect(() => {
@@ -590,31 +800,70 @@ function BookingModalContent({
     setCheckIn("");
     setCheckOut("");
     setNights(1);
-    setGuests(baseGuestsPerUnit);
+    setAdults(baseGuestsPerUnit);
+    setChildAges([]);
+    setInfants(0);
     setUnits(1);
+    setSelectedAddons([]);
     setFirstName("");
     setLastName("");
     setEmail("");
     setPhone("");
     setMessage("");
+    setQueuedReference("");
+    setRefusedReference("");
+    setPaymentCharged(false);
   }, [item.id, baseGuestsPerUnit]);
 
-  // Cap guests when units decrease
+  // Cap adults and infants when units decrease
   useEffect(() => {
-    if (guests > maxGuests) {
-      setGuests(maxGuests);
+    if (adults > maxAdults) {
+      setAdults(maxAdults);
     }
-  }, [units, maxGuests, guests]);
+    if (infants > maxInfants) {
+      setInfants(Math.max(0, maxInfants));
+    }
+  }, [units, adults, maxAdults, infants, maxInfants]);
 
-  // Format date for display
-  const formatDate = (dateStr: string) => {
-    if (!dateStr) return "";
-    const date = new Date(dateStr);
-    return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
-  };
+  // Cap units at what is left for the chosen nights
+  useEffect(() => {
+    if (units > unitsLeft) {
+      setUnits(unitsLeft);
+    }
+  }, [units, unitsLeft]);
+
+  // Keep nights within the arrival's stay rules and before the next booked night
+  useEffect(() => {
+    if (nights > maxSelectableNights) {
+      setNights(maxSelectableNights);
+    } else if (nights < minSelectableNights && minSelectableNights <= maxSelectableNights) {
+      setNights(minSelectableNights);
+    }
+  }, [nights, minSelectableNights, maxSelectableNights]);
+
+  // Format date for display (a plain date, so no time-zone shift)
+  const formatDate = (dateStr: string) => i18n.formatDate(dateStr);
+
+  // Focus stays inside the dialog; Escape closes it
+  const dialogRef = useDialog<HTMLDivElement>(true, onClose);
+  useBookingOutbox(true);
+  const titleId = useId();
+  const fieldId = useId();
+
+  // Each new step is announced by moving focus to its heading
+  const stepShown = useRef(step);
+  useEffect(() => {
+    if (stepShown.current === step) return;
+    stepShown.current = step;
+    dialogRef.current?.querySelector<HTMLElement>("[data-step-heading]")?.focus();
+  }, [step, dialogRef]);
+
+  // Rate names come from the item, except the catalogue's "Standard rate"
+  const rateLabel = (line: { id: string; label: string }) => (line.id === item.id ? t("standardRate") : line.label);
+  const unitsLabel = t("unitsLabel", { unit: unitLabel });
 
   return (
-    <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center" dir={i18n.dir} lang={i18n.intlLocale}>
       {/* Animation styles */}
       <style>{`
         @keyframes fadeIn {
@@ -629,14 +878,24 @@ function BookingModalContent({
       <div 
         className="absolute inset-0 bg-black/60 backdrop-blur-sm"
         onClick={onClose}
+        aria-hidden="true"
       />
 
       {/* Modal */}
-      <div className="relative bg-[#f8f5f0] w-full max-w-md mx-4 shadow-2xl overflow-hidden">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="relative bg-[#f8f5f0] w-full max-w-md mx-4 shadow-2xl overflow-hidden focus:outline-none"
+      >
         {/* Close button */}
         <button
+          type="button"
           onClick={onClose}
-          className="absolute top-6 right-6 w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground/80 transition-colors z-10"
+          aria-label={t("close")}
+          className="absolute top-6 end-6 w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground/80 transition-colors z-10"
         >
           <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
             <line x1="2" y1="2" x2="14" y2="14" />
@@ -647,19 +906,33 @@ function BookingModalContent({
         <div className="p-10">
           {/* Header */}
           <div className="mb-8">
-            <h2 className="font-serif text-2xl text-foreground/90 mb-1">{item.name}</h2>
+            <h2 id={titleId} className="font-serif text-2xl text-foreground/90 mb-1">{item.name}</h2>
             {maxNights > 1 || hasCityTax || maxGuestsPerUnit > baseGuestsPerUnit ? (
-              <p className="text-sm text-foreground/50">{formatPrice(pricePerNight)} per night</p>
+              <p className="text-sm text-foreground/50">{t("perNight", { price: price(pricePerNight) })}</p>
             ) : (
-              <p className="text-sm text-foreground/50">{formatPrice(pricePerNight)}</p>
+              <p className="text-sm text-foreground/50">{price(pricePerNight)}</p>
+            )}
+            {offeredCurrencies.length > 1 && (
+              <select
+                value={displayCurrency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                aria-label={t("currency")}
+                className="mt-2 py-1 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-xs tracking-wider text-foreground/60"
+              >
+                {offeredCurrencies.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
             )}
           </div>
 
           {/* Step 1: Dates */}
           {step === 1 && (
             <div className="animate-fadeIn">
-              <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6">
-                Step 1 of 3 — {selectCheckout ? "Select dates" : "Select arrival"}
+              <p data-step-heading tabIndex={-1} className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6 focus:outline-none">
+                {t("stepOf", { step: 1, total: totalSteps })} — {selectCheckout ? t("selectDates") : t("selectArrival")}
               </p>
 
               {/* Calendar */}
@@ -669,19 +942,43 @@ function BookingModalContent({
                 onSelectDate={handleDateSelect}
                 bookedDates={bookedDates}
                 selectCheckout={selectCheckout}
+                maxCheckOut={maxCheckOut}
+                restrictionOf={restrictionOf}
+                priceOf={showDayPrices ? (dateStr) => rateFor(item, dateStr).price : undefined}
+                formatPrice={price}
+                timeZone={timeZone}
+                i18n={i18n}
+                weekStartsOn={weekStartsOn ?? i18n.weekStartsOn}
               />
 
+              {choosingCheckOut && arrivalRules && arrivalRules.minNights > 1 && (
+                <p className="mt-4 text-xs text-foreground/50">
+                  {i18n.issue({ code: "minStay", values: { count: arrivalRules.minNights } })}
+                </p>
+              )}
+
+              {maxCheckOut && (
+                <p className="mt-4 text-xs text-foreground/50">
+                  {t("checkOutLimit", { date: formatDate(maxCheckOut) })}
+                </p>
+              )}
+
+              {/* Why the current selection can't be booked */}
+              {checkIn && (!selectCheckout || checkOut) && quote.issues.length > 0 && (
+                <p className="mt-4 text-xs text-foreground/50">{i18n.issue(quote.issues[0])}</p>
+              )}
+
               {/* Selected dates display */}
               {checkIn && (
                 <div className="mt-6 pt-6 border-t border-foreground/10">
                   <div className="flex items-center justify-between text-sm">
                     <div>
-                      <span className="text-foreground/40">Check-in: </span>
+                      <span className="text-foreground/40">{t("checkIn")}: </span>
                       <span className="text-foreground/80">{formatDate(checkIn)}</span>
                     </div>
                     {selectCheckout && checkOut && (
                       <div>
-                        <span className="text-foreground/40">Check-out: </span>
+                        <span className="text-foreground/40">{t("checkOut")}: </span>
                         <span className="text-foreground/80">{formatDate(checkOut)}</span>
                       </div>
                     )}
@@ -693,74 +990,161 @@ function BookingModalContent({
               {!selectCheckout && !isPerPersonPricing && maxNights > 1 && checkIn && (
                 <div className="mt-4">
                   <QuantitySelector
-                    label="Nights"
+                    label={t("nights")}
                     value={nights}
-                    min={1}
-                    max={maxNights}
+                    min={Math.min(minSelectableNights, maxSelectableNights)}
+                    max={maxSelectableNights}
                     onChange={setNights}
+                    i18n={i18n}
                   />
                 </div>
               )}
 
               {/* Units selector */}
               {maxUnits > 1 && checkIn && (
-                <QuantitySelector
-                  label={`${unitLabel.charAt(0).toUpperCase() + unitLabel.slice(1)}s`}
-                  value={units}
-                  min={1}
-                  max={maxUnits}
-                  onChange={setUnits}
-                />
+                <>
+                  <QuantitySelector
+                    label={unitsLabel.charAt(0).toUpperCase() + unitsLabel.slice(1)}
+                    value={units}
+                    min={1}
+                    max={unitsLeft}
+                    onChange={setUnits}
+                    i18n={i18n}
+                  />
+                  {unitsLeft < maxUnits && (
+                    <p className="text-[10px] text-foreground/40 mt-2">
+                      {t("unitsLeft", { count: unitsLeft, unit: unitLabel })}
+                    </p>
+                  )}
+                </>
               )}
 
-              {/* Guests selector */}
-              {maxGuests > 1 && checkIn && (
-                <QuantitySelector
-                  label="Guests"
-                  value={guests}
-                  min={1}
-                  max={maxGuests}
-                  onChange={setGuests}
-                />
+              {/* Guests selector: one count, or adults, children (with ages) and infants */}
+              {hasGuestTypes && checkIn ? (
+                <>
+                  <QuantitySelector
+                    label={t("adults")}
+                    value={adults}
+                    min={1}
+                    max={maxAdults}
+                    onChange={setAdults}
+                    i18n={i18n}
+                  />
+                  <QuantitySelector
+                    label={t("children")}
+                    value={childAges.length}
+                    min={0}
+                    max={maxChildren}
+                    onChange={setChildCount}
+                    i18n={i18n}
+                  />
+                  <p className="text-[10px] text-foreground/40 mt-2">
+                    {t("childrenHint", { min: MIN_CHILD_AGE, max: MAX_CHILD_AGE })}
+                  </p>
+                  {childAges.length > 0 && (
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                      {childAges.map((age, i) => (
+                        <div key={i}>
+                          <label
+                            htmlFor={`${fieldId}-child-${i}`}
+                            className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2"
+                          >
+                            {t("childAge", { number: i + 1 })}
+                          </label>
+                          <select
+                            id={`${fieldId}-child-${i}`}
+                            value={Number.isNaN(age) ? "" : age}
+                            onChange={(e) => setChildAge(i, e.target.value === "" ? NaN : Number(e.target.value))}
+                            required
+                            className="w-full py-2 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-sm text-foreground"
+                          >
+                            <option value="">—</option>
+                            {Array.from({ length: MAX_CHILD_AGE - MIN_CHILD_AGE + 1 }, (_, n) => MIN_CHILD_AGE + n).map((n) => (
+                              <option key={n} value={n}>
+                                {n}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {maxInfants > 0 && (
+                    <>
+                      <QuantitySelector
+                        label={t("infants")}
+                        value={infants}
+                        min={0}
+                        max={maxInfants}
+                        onChange={setInfants}
+                        i18n={i18n}
+                      />
+                      <p className="text-[10px] text-foreground/40 mt-2">{t("infantsHint", { age: MIN_CHILD_AGE })}</p>
+                    </>
+                  )}
+                </>
+              ) : (
+                maxGuests > 1 &&
+                checkIn && (
+                  <QuantitySelector
+                    label={t("guests")}
+                    value={adults}
+                    min={1}
+                    max={maxGuests}
+                    onChange={setAdults}
+                    i18n={i18n}
+                  />
+                )
               )}
 
               {/* Price summary */}
               {canProceedStep1 && (
                 <div className="mt-6 pt-6 border-t border-foreground/10">
                   {/* Simple display for fixed-price items (1 night, 1 unit, base guests) */}
-                  {calculatedNights === 1 && units === 1 && extraGuests === 0 && !hasCityTax ? (
+                  {calculatedNights === 1 && units === 1 && extraGuests === 0 && !hasCityTax && addonLines.length === 0 ? (
                     <div className="flex justify-between text-base">
-                      <span className="text-foreground/70">Total</span>
-                      <span className="font-medium text-foreground">{formatPrice(total)}</span>
+                      <span className="text-foreground/70">{t("total")}</span>
+                      <span className="font-medium text-foreground">{price(total)}</span>
                     </div>
                   ) : (
                     <>
-                      <div className="flex justify-between text-sm mb-2">
-                        <span className="text-foreground/50">
-                          {isPerPersonPricing 
-                            ? `${formatPrice(pricePerNight)} × ${guests} guest${guests > 1 ? "s" : ""}`
-                            : `${formatPrice(pricePerNight)} × ${calculatedNights} night${calculatedNights > 1 ? "s" : ""}${units > 1 ? ` × ${units} ${unitLabel}s` : ""}`
-                          }
-                        </span>
-                        <span className="text-foreground/70">{formatPrice(subtotal)}</span>
-                      </div>
+                      {stayLines.map((line) => {
+                        const lineNights = line.nights ?? calculatedNights;
+                        return (
+                          <div key={`${line.id}-${line.unitPrice.minor}`} className="flex justify-between text-sm mb-2">
+                            <span className="text-foreground/50">
+                              {isPerPersonPricing 
+                                ? `${price(line.unitPrice)} × ${payersLabel(line)}`
+                                : `${price(line.unitPrice)} × ${t("nightCount", { count: lineNights })}${units > 1 ? ` × ${t("unitCount", { count: units, unit: unitLabel })}` : ""}`
+                              }
+                            </span>
+                            <span className="text-foreground/70">{price(line.amount)}</span>
+                          </div>
+                        );
+                      })}
                       {extraGuests > 0 && extraPersonFee > 0 && (
                         <div className="flex justify-between text-sm mb-2">
                           <span className="text-foreground/50">
-                            Extra guest{extraGuests > 1 ? "s" : ""} ({extraGuests} × €{extraPersonFee})
+                            {t("extraGuests", { count: extraGuests })} ({extraGuests} × {price(moneyOf(extraPersonFee, "EUR"))})
                           </span>
-                          <span className="text-foreground/70">€{extraGuestsCost.toFixed(2)}</span>
+                          <span className="text-foreground/70">{price(extraGuestsCost)}</span>
                         </div>
                       )}
                       {hasCityTax && !isPerPersonPricing && (
                         <div className="flex justify-between text-sm mb-2">
-                          <span className="text-foreground/50">City tax</span>
-                          <span className="text-foreground/70">€{cityTax.toFixed(2)}</span>
+                          <span className="text-foreground/50">{t("cityTax")}</span>
+                          <span className="text-foreground/70">{price(cityTax)}</span>
                         </div>
                       )}
+                      {addonLines.map((line) => (
+                        <div key={line.id} className="flex justify-between text-sm mb-2">
+                          <span className="text-foreground/50">{addonLineLabel(line)}</span>
+                          <span className="text-foreground/70">{price(line.amount)}</span>
+                        </div>
+                      ))}
                       <div className="flex justify-between text-base pt-3 border-t border-foreground/10">
-                        <span className="text-foreground/70">Total</span>
-                        <span className="font-medium text-foreground">{formatPrice(total)}</span>
+                        <span className="text-foreground/70">{t("total")}</span>
+                        <span className="font-medium text-foreground">{price(total)}</span>
                       </div>
                     </>
                   )}
@@ -769,35 +1153,125 @@ function BookingModalContent({
 
               {/* Continue button */}
               <button
-                onClick={() => setStep(2)}
+                onClick={() => setStep(hasAddons ? 2 : 3)}
                 disabled={!canProceedStep1}
                 className="w-full mt-8 py-4 bg-foreground text-[#f8f5f0] text-sm tracking-wider uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:bg-foreground/90 transition-colors"
               >
-                Continue
+                {t("continue")}
               </button>
             </div>
           )}
 
-          {/* Step 2: Guest Details */}
+          {/* Step 2: Add-ons (skipped when the item has none) */}
           {step === 2 && (
             <div className="animate-fadeIn">
-              <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6">Step 2 of 3 — Your details</p>
+              <p data-step-heading tabIndex={-1} className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6 focus:outline-none">{t("stepOf", { step: 2, total: totalSteps })} — {t("extras")}</p>
+              <h3 className="font-serif text-xl text-foreground/90 mb-6">{t("enhanceYourStay")}</h3>
+
+              <div className="space-y-3">
+                {addons.map((addon) => {
+                  const selection = selectedAddons.find((a) => a.id === addon.id);
+                  return (
+                    <div key={addon.id}>
+                      <button
+                        type="button"
+                        onClick={() => toggleAddon(addon.id)}
+                        aria-pressed={!!selection}
+                        className={`w-full p-5 border text-start transition-colors ${
+                          selection ? "border-foreground" : "border-foreground/20 hover:border-foreground/40"
+                        }`}
+                      >
+                        <div className="flex justify-between items-start gap-4">
+                          <div>
+                            <p className="text-sm text-foreground/90 mb-1">{addon.name}</p>
+                            {addon.description && <p className="text-xs text-foreground/50">{addon.description}</p>}
+                          </div>
+                          <div className="text-end shrink-0">
+                            <p className="text-sm text-foreground/80">+{price(moneyOf(addon.priceEUR, "EUR"))}</p>
+                            <p className="text-[10px] text-foreground/40">{addonPricingLabel(addon)}</p>
+                          </div>
+                        </div>
+                      </button>
+                      {selection && addon.pricing === "perItem" && (
+                        <QuantitySelector
+                          label={addon.name}
+                          value={selection.quantity ?? 1}
+                          min={1}
+                          max={addon.maxQuantity ?? DEFAULT_ADDON_MAX_QUANTITY}
+                          onChange={(quantity) => setAddonQuantity(addon.id, quantity)}
+                          i18n={i18n}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Price summary */}
+              <div className="mt-6 pt-6 border-t border-foreground/10">
+                {addonLines.map((line) => (
+                  <div key={line.id} className="flex justify-between text-sm mb-2">
+                    <span className="text-foreground/50">{addonLineLabel(line)}</span>
+                    <span className="text-foreground/70">{price(line.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-base">
+                  <span className="text-foreground/70">{t("total")}</span>
+                  <span className="font-medium text-foreground">{price(total)}</span>
+                </div>
+              </div>
+
+              {/* Navigation */}
+              <div className="flex gap-4 mt-8">
+                <button
+                  onClick={() => setStep(1)}
+                  className="flex-1 py-4 border border-foreground/20 text-foreground/70 text-sm tracking-wider uppercase hover:border-foreground/40 hover:text-foreground transition-colors flex items-center justify-center gap-2"
+                >
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
+                    <polyline points="9,2 4,7 9,12" />
+                  </svg>
+                  {t("back")}
+                </button>
+                <button
+                  onClick={() => setStep(3)}
+                  disabled={quote.issues.length > 0}
+                  className="flex-1 py-4 bg-foreground text-[#f8f5f0] text-sm tracking-wider uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:bg-foreground/90 transition-colors flex items-center justify-center gap-2"
+                >
+                  {t("continue")}
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
+                    <polyline points="5,2 10,7 5,12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: Guest Details */}
+          {step === 3 && (
+            <div className="animate-fadeIn">
+              <p data-step-heading tabIndex={-1} className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6 focus:outline-none">{t("stepOf", { step: hasAddons ? 3 : 2, total: totalSteps })} — {t("yourDetails")}</p>
 
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">First name</label>
+                    <label htmlFor={`${fieldId}-firstName`} className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">{t("firstName")}</label>
                     <input
+                      id={`${fieldId}-firstName`}
                       type="text"
+                      required
+                      autoComplete="given-name"
                       value={firstName}
                       onChange={(e) => setFirstName(e.target.value)}
                       className="w-full py-3 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-foreground transition-colors"
                     />
                   </div>
                   <div>
-                    <label className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">Last name</label>
+                    <label htmlFor={`${fieldId}-lastName`} className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">{t("lastName")}</label>
                     <input
+                      id={`${fieldId}-lastName`}
                       type="text"
+                      required
+                      autoComplete="family-name"
                       value={lastName}
                       onChange={(e) => setLastName(e.target.value)}
                       className="w-full py-3 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-foreground transition-colors"
@@ -806,9 +1280,12 @@ function BookingModalContent({
                 </div>
 
                 <div>
-                  <label className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">Email</label>
+                  <label htmlFor={`${fieldId}-email`} className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">{t("email")}</label>
                   <input
+                    id={`${fieldId}-email`}
                     type="email"
+                    required
+                    autoComplete="email"
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
                     className="w-full py-3 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-foreground transition-colors"
@@ -816,11 +1293,13 @@ function BookingModalContent({
                 </div>
 
                 <div>
-                  <label className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">
-                    Phone <span className="normal-case text-foreground/30">(optional)</span>
+                  <label htmlFor={`${fieldId}-phone`} className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">
+                    {t("phone")} <span className="normal-case text-foreground/30">{t("optional")}</span>
                   </label>
                   <input
+                    id={`${fieldId}-phone`}
                     type="tel"
+                    autoComplete="tel"
                     value={phone}
                     onChange={(e) => setPhone(e.target.value)}
                     className="w-full py-3 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-foreground transition-colors"
@@ -828,10 +1307,11 @@ function BookingModalContent({
                 </div>
 
                 <div>
-                  <label className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">
-                    Special requests <span className="normal-case text-foreground/30">(optional)</span>
+                  <label htmlFor={`${fieldId}-message`} className="block text-[10px] tracking-wider uppercase text-foreground/40 mb-2">
+                    {t("specialRequests")} <span className="normal-case text-foreground/30">{t("optional")}</span>
                   </label>
                   <textarea
+                    id={`${fieldId}-message`}
                     value={message}
                     onChange={(e) => setMessage(e.target.value)}
                     rows={3}
@@ -843,21 +1323,21 @@ function BookingModalContent({
               {/* Navigation */}
               <div className="flex gap-4 mt-8">
                 <button
-                  onClick={() => setStep(1)}
+                  onClick={() => setStep(hasAddons ? 2 : 1)}
                   className="flex-1 py-4 border border-foreground/20 text-foreground/70 text-sm tracking-wider uppercase hover:border-foreground/40 hover:text-foreground transition-colors flex items-center justify-center gap-2"
                 >
-                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                     <polyline points="9,2 4,7 9,12" />
                   </svg>
-                  Back
+                  {t("back")}
                 </button>
                 <button
-                  onClick={() => setStep(3)}
+                  onClick={() => setStep(4)}
                   disabled={!firstName || !lastName || !email}
                   className="flex-1 py-4 bg-foreground text-[#f8f5f0] text-sm tracking-wider uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:bg-foreground/90 transition-colors flex items-center justify-center gap-2"
                 >
-                  Continue
-                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  {t("continue")}
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                     <polyline points="5,2 10,7 5,12" />
                   </svg>
                 </button>
@@ -865,105 +1345,155 @@ function BookingModalContent({
             </div>
           )}
 
-          {/* Step 3: Payment */}
-          {step === 3 && (
+          {/* Step 4: Payment */}
+          {step === 4 && (
             <div className="animate-fadeIn">
-              <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6">Step 3 of 3 — Payment</p>
+              <p data-step-heading tabIndex={-1} className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-6 focus:outline-none">{t("stepOf", { step: totalSteps, total: totalSteps })} — {t("payment")}</p>
 
               {/* Booking summary with details */}
               <div className="bg-foreground/[0.03] p-6 mb-6">
                 <p className="font-serif text-lg text-foreground/90 mb-3">{item.name}</p>
                 <p className="text-sm text-foreground/50 mb-4">
-                  {formatDate(checkIn)} {selectCheckout && checkOut ? `→ ${formatDate(checkOut)}` : ""}
+                  {selectCheckout && checkOut
+                    ? t("dateRange", { from: formatDate(checkIn), to: formatDate(checkOut) })
+                    : formatDate(checkIn)}
                 </p>
                 
                 {/* Detailed breakdown - simplified for fixed-price items */}
                 <div className="space-y-2 pt-4 border-t border-foreground/10">
-                  {calculatedNights === 1 && units === 1 && extraGuests === 0 && !hasCityTax ? (
+                  {calculatedNights === 1 && units === 1 && extraGuests === 0 && !hasCityTax && addonLines.length === 0 ? (
                     <div className="flex justify-between text-base">
-                      <span className="font-medium text-foreground/80">Total</span>
-                      <span className="font-medium text-foreground">{formatPrice(total)}</span>
+                      <span className="font-medium text-foreground/80">{t("total")}</span>
+                      <span className="font-medium text-foreground">{price(total)}</span>
                     </div>
                   ) : (
                     <>
-                      <div className="flex justify-between text-sm">
-                        <span className="text-foreground/50">
-                          {isPerPersonPricing 
-                            ? `${guests} guest${guests > 1 ? "s" : ""}`
-                            : `${units > 1 ? `${units} ${unitLabel}s × ` : ""}${calculatedNights} night${calculatedNights > 1 ? "s" : ""}`
-                          }
-                        </span>
-                        <span className="text-foreground/70">{formatPrice(subtotal)}</span>
-                      </div>
+                      {/* Nights grouped by rate */}
+                      {stayLines.map((line) => {
+                        const lineNights = line.nights ?? calculatedNights;
+                        return (
+                          <div key={`${line.id}-${line.unitPrice.minor}`} className="flex justify-between text-sm">
+                            <span className="text-foreground/50">
+                              {showRateNames ? `${rateLabel(line)} · ` : ""}
+                              {isPerPersonPricing 
+                                ? payersLabel(line)
+                                : `${units > 1 ? `${t("unitCount", { count: units, unit: unitLabel })} × ` : ""}${t("nightCount", { count: lineNights })}`
+                              }
+                              {showRateNames ? ` × ${price(line.unitPrice)}` : ""}
+                            </span>
+                            <span className="text-foreground/70">{price(line.amount)}</span>
+                          </div>
+                        );
+                      })}
                       {extraGuests > 0 && extraPersonFee > 0 && (
                         <div className="flex justify-between text-sm">
                           <span className="text-foreground/50">
-                            {extraGuests} extra guest{extraGuests > 1 ? "s" : ""} × {calculatedNights} night{calculatedNights > 1 ? "s" : ""}
+                            {t("extraGuestCount", { count: extraGuests })} × {t("nightCount", { count: calculatedNights })}
                           </span>
-                          <span className="text-foreground/70">€{extraGuestsCost.toFixed(2)}</span>
+                          <span className="text-foreground/70">{price(extraGuestsCost)}</span>
                         </div>
                       )}
-                      {hasCityTax && cityTax > 0 && !isPerPersonPricing && (
+                      {hasCityTax && cityTax.minor > 0 && !isPerPersonPricing && (
                         <div className="flex justify-between text-sm">
-                          <span className="text-foreground/50">City tax</span>
-                          <span className="text-foreground/70">€{cityTax.toFixed(2)}</span>
+                          <span className="text-foreground/50">{t("cityTax")}</span>
+                          <span className="text-foreground/70">{price(cityTax)}</span>
                         </div>
                       )}
+                      {addonLines.map((line) => (
+                        <div key={line.id} className="flex justify-between text-sm">
+                          <span className="text-foreground/50">{addonLineLabel(line)}</span>
+                          <span className="text-foreground/70">{price(line.amount)}</span>
+                        </div>
+                      ))}
                       <div className="flex justify-between text-base pt-3 border-t border-foreground/10 mt-3">
-                        <span className="font-medium text-foreground/80">Total</span>
-                        <span className="font-medium text-foreground">{formatPrice(total)}</span>
+                        <span className="font-medium text-foreground/80">{t("total")}</span>
+                        <span className="font-medium text-foreground">{price(total)}</span>
                       </div>
                     </>
                   )}
                 </div>
               </div>
 
-              <PayPalButton
-                amount={total.toFixed(2)}
-                description={`${item.name} - ${formatDate(checkIn)}`}
-                clientId={paypalClientId}
-                onSuccess={handlePaymentSuccess}
-                onError={handlePaymentError}
-              />
+              {charge.amount.currency !== displayCurrency && (
+                <p className="text-xs text-foreground/50 mb-6">
+                  {t("chargedIn", { amount: money(charge.amount) })}
+                </p>
+              )}
+
+              {provider.render({
+                order: {
+                  kind: "stay",
+                  itemId: item.id,
+                  checkIn,
+                  checkOut: selectCheckout ? checkOut : "",
+                  nights: calculatedNights,
+                  guests,
+                  ...party,
+                  units,
+                  addons: selectedAddons,
+                  idempotencyKey,
+                  booking: bookingDraft,
+                },
+                amount: charge.amount,
+                exchangeRate: charge.exchangeRate,
+                t,
+                intlLocale: i18n.intlLocale,
+                onSuccess: handlePaymentSuccess,
+                onError: handlePaymentError,
+              })}
 
               {isSubmitting && (
-                <p className="text-center text-sm text-foreground/50 mt-4">Processing payment...</p>
+                <p className="text-center text-sm text-foreground/50 mt-4">{t("processingPayment")}</p>
               )}
 
               <button
-                onClick={() => setStep(2)}
+                onClick={() => setStep(3)}
                 className="w-full mt-6 py-4 border border-foreground/20 text-foreground/70 text-sm tracking-wider uppercase hover:border-foreground/40 hover:text-foreground transition-colors flex items-center justify-center gap-2"
               >
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="9,2 4,7 9,12" />
                 </svg>
-                Back
+                {t("back")}
               </button>
 
               {/* Contact link */}
               <p className="text-center mt-6 text-[11px] text-foreground/30">
-                <a href="/contact" target="_blank" rel="noopener noreferrer" className="hover:text-foreground/50 transition-colors">Send us a note</a>
+                <a href="/contact" target="_blank" rel="noopener noreferrer" className="hover:text-foreground/50 transition-colors">{t("sendNote")}</a>
               </p>
             </div>
           )}
 
-          {/* Step 4: Success */}
-          {step === 4 && (
+          {/* Step 5: Success */}
+          {step === 5 && (
             <div className="text-center py-8 animate-fadeIn">
               <div className="w-16 h-16 border border-foreground/20 rounded-full flex items-center justify-center mx-auto mb-6">
                 <svg width="28" height="28" viewBox="0 0 28 28" fill="none" stroke="currentColor" strokeWidth="1.5">
-                  <polyline points="6,14 12,20 22,8" />
+                  {refusedReference ? (
+                    <path d="M14 7v9M14 20v1" strokeLinecap="round" />
+                  ) : (
+                    <polyline points="6,14 12,20 22,8" />
+                  )}
                 </svg>
               </div>
-              <h3 className="font-serif text-2xl text-foreground/90 mb-2">Booking Confirmed</h3>
+              <h3 data-step-heading tabIndex={-1} className="font-serif text-2xl text-foreground/90 mb-2 focus:outline-none">
+                {refusedReference
+                  ? t("bookingNotConfirmed")
+                  : queuedReference
+                    ? t(paymentCharged ? "paymentReceived" : "savingBooking")
+                    : t("bookingConfirmed")}
+              </h3>
               <p className="text-sm text-foreground/50 mb-8">
-                Thank you! A confirmation has been sent to {email}
+                {refusedReference
+                  ? t("saveFailedReference", { reference: refusedReference })
+                  : queuedReference
+                    ? t("bookingQueued", { reference: queuedReference })
+                    : t("confirmationSent", { email })}
               </p>
               <button
                 onClick={onClose}
                 className="text-[10px] tracking-[0.2em] uppercase text-foreground/50 hover:text-foreground transition-colors"
               >
-                Close
+                {t("close")}
               </button>
             </div>
           )}
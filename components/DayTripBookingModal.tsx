@@ -1,16 +1,40 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useCallback, useId, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
-import { X, Check } from "lucide-react";
-
-interface Addon {
-  id: string;
-  name: string;
-  description: string;
-  priceMAD: number;
-  priceEUR: number;
-}
+import { X, Check, AlertCircle } from "lucide-react";
+import { createPayPalProvider } from "@/components/payments/PayPalProvider";
+import type { PaymentProvider, PaymentResult } from "@/components/payments/types";
+import { newIdempotencyKey, submitBooking, useBookingOutbox } from "@/components/useBookingOutbox";
+import { useDialog } from "@/components/useDialog";
+import { departuresLeft } from "@/lib/availability";
+import type { BookedDepartures } from "@/lib/availability";
+import type { BookingDraft, DayTripBookingRequest } from "@/lib/booking-api";
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  chargeFor,
+  formatMoney,
+  rateOf,
+  settlementCurrency,
+} from "@/lib/currency";
+import type { CurrencyCode, ExchangeRates } from "@/lib/currency";
+import { compareMoney, convertMoney, moneyEquals, moneyOf, multiplyMoney, toDecimal, toDecimalString } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import { addMonths, dateForKey, DEFAULT_TIME_ZONE, earliestDateWithNotice, monthLength, plainDate, todayIn, weekdayOf } from "@/lib/dates";
+import { createTranslator } from "@/lib/i18n";
+import type { Messages, Translator } from "@/lib/i18n";
+import {
+  maxTripGuests,
+  pickupSurchargeOf,
+  pickupZoneFor,
+  quoteDayTrip,
+  searchPickupPoints,
+  slotsOf,
+  tripDateRestriction,
+  tripRateFor,
+} from "@/lib/quote";
+import type { Addon, DayTrip, PickupPoint, PickupZone, RatePlan, VehicleTier } from "@/lib/types";
 
 interface DayTripBookingModalProps {
   isOpen: boolean;
@@ -20,12 +44,23 @@ interface DayTripBookingModalProps {
   basePriceMAD: number;
   basePriceEUR: number;
   addons: Addon[];
-}
-
-declare global {
-  interface Window {
-    paypal?: any;
-  }
+  maxGuests?: number; // Without vehicles; defaults to 2
+  vehicles?: VehicleTier[]; // Per-vehicle prices by party size, e.g. car 1-2, minivan 3-6, bus 7-16
+  rates?: RatePlan[]; // Base prices for some dates; vehicles scale with them
+  pickupZones?: PickupZone[]; // Areas picked up in, with their surcharges
+  pickupPoints?: PickupPoint[]; // Riads and hotels guests can search; an address can still be typed
+  showDayPrices?: boolean; // Price under each calendar day; defaults to on when there are rates
+  timeZone?: string; // Property time zone; defaults to Africa/Casablanca
+  minNoticeHours?: number; // Defaults to 48
+  locale?: string; // "en" (default), "fr", "es" or "ar"
+  messages?: Partial<Messages>; // Overrides individual strings of the locale
+  weekStartsOn?: number; // 0 = Sunday; defaults to the locale's
+  currency?: CurrencyCode; // Currency shown first; defaults to EUR
+  currencies?: CurrencyCode[]; // Offered in the currency picker, where rates exist
+  exchangeRates?: ExchangeRates; // Fetched from /api/exchange-rates when omitted
+  formatPrice?: (amount: number, currency: CurrencyCode) => string; // Amounts arrive converted to `currency`
+  paypalClientId?: string; // Defaults to NEXT_PUBLIC_PAYPAL_CLIENT_ID
+  paymentProvider?: PaymentProvider;
 }
 
 // ============================================================================
@@ -35,242 +70,261 @@ declare global {
 function Calendar({
   selectedDate,
   onSelectDate,
-  minDaysFromNow = 2,
+  minNoticeHours = 48,
+  timeZone,
+  restrictionOf,
+  priceOf,
+  formatPrice,
+  i18n,
+  weekStartsOn,
 }: {
   selectedDate: string;
   onSelectDate: (date: string) => void;
-  minDaysFromNow?: number;
+  minNoticeHours?: number;
+  timeZone: string; // Notice is counted on the property's clock
+  restrictionOf?: (dateStr: string) => string | null; // Why the trip cannot go on a date
+  priceOf?: (dateStr: string) => Money; // Shows the price under each day
+  formatPrice: (amount: Money) => string;
+  i18n: Translator;
+  weekStartsOn: number; // 0 = Sunday
 }) {
-  const [currentMonth, setCurrentMonth] = useState(() => {
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth(), 1);
-  });
+  const labelId = useId();
+  const helpId = useId();
+  const gridRef = useRef<HTMLDivElement>(null);
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // Months and days are plain YYYY-MM-DD dates, never the browser's local time
+  const today = todayIn(timeZone);
+  const thisMonth = addMonths(today, 0);
+  const [currentMonth, setCurrentMonth] = useState(thisMonth);
 
-  const minDate = new Date(today);
-  minDate.setDate(minDate.getDate() + minDaysFromNow);
+  const minDate = earliestDateWithNotice(minNoticeHours, timeZone);
 
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startingDay = firstDay.getDay();
-    return { daysInMonth, startingDay };
-  };
+  // Roving focus: only one day is in the tab order, and the arrow keys move it
+  const [focusedDate, setFocusedDate] = useState(selectedDate || minDate);
+  const moveFocus = useRef(false);
+  const inMonth = (dateStr: string) => addMonths(dateStr, 0) === currentMonth;
+  const tabbableDate = inMonth(focusedDate) ? focusedDate : inMonth(minDate) ? minDate : currentMonth;
 
-  const formatDateStr = (year: number, month: number, day: number) => {
-    return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  useEffect(() => {
+    if (!moveFocus.current) return;
+    moveFocus.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${tabbableDate}"]`)?.focus();
+  }, [tabbableDate]);
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const next = dateForKey(tabbableDate, e.key, { weekStartsOn, rtl: i18n.dir === "rtl", shiftKey: e.shiftKey });
+    if (!next) return;
+    e.preventDefault();
+    const target = next < thisMonth ? thisMonth : next;
+    moveFocus.current = true;
+    setFocusedDate(target);
+    setCurrentMonth(addMonths(target, 0));
   };
 
-  const isBeforeMinDate = (year: number, month: number, day: number) => {
-    const date = new Date(year, month, day);
-    return date < minDate;
+  const getDaysInMonth = (monthStart: string) => {
+    const [year, month] = monthStart.split("-").map(Number);
+    // Blank cells before the 1st, counted from the first day of the week
+    return { daysInMonth: monthLength(year, month), startingDay: (weekdayOf(monthStart) - weekStartsOn + 7) % 7 };
   };
 
-  const { daysInMonth, startingDay } = getDaysInMonth(currentMonth);
-  const year = currentMonth.getFullYear();
-  const month = currentMonth.getMonth();
+  const formatDateStr = (year: number, month: number, day: number) => plainDate(year, month + 1, day);
 
-  const monthNames = ["January", "February", "March", "April", "May", "June", 
-                      "July", "August", "September", "October", "November", "December"];
+  const isBeforeMinDate = (year: number, month: number, day: number) => formatDateStr(year, month, day) < minDate;
+
+  // Not running, blacked out or sold out
+  const isClosed = (dateStr: string) => dateStr >= minDate && !!restrictionOf?.(dateStr);
+
+  const { daysInMonth, startingDay } = getDaysInMonth(currentMonth);
+  const year = Number(currentMonth.slice(0, 4));
+  const month = Number(currentMonth.slice(5, 7)) - 1;
 
   const prevMonth = () => {
-    const prev = new Date(year, month - 1, 1);
-    if (prev >= new Date(today.getFullYear(), today.getMonth(), 1)) {
+    const prev = addMonths(currentMonth, -1);
+    if (prev >= thisMonth) {
       setCurrentMonth(prev);
     }
   };
 
   const nextMonth = () => {
-    setCurrentMonth(new Date(year, month + 1, 1));
+    setCurrentMonth(addMonths(currentMonth, 1));
   };
 
-  const canGoPrev = new Date(year, month - 1, 1) >= new Date(today.getFullYear(), today.getMonth(), 1);
+  const canGoPrev = addMonths(currentMonth, -1) >= thisMonth;
+
+  // Lowest price among the month's open days, highlighted only when prices vary
+  const monthPrices = priceOf
+    ? Array.from({ length: daysInMonth }, (_, i) => i + 1)
+        .filter((day) => !isBeforeMinDate(year, month, day) && !isClosed(formatDateStr(year, month, day)))
+        .map((day) => priceOf(formatDateStr(year, month, day)))
+    : [];
+  const sortedPrices = [...monthPrices].sort(compareMoney);
+  const lowestPrice =
+    sortedPrices.length > 0 && compareMoney(sortedPrices[0], sortedPrices[sortedPrices.length - 1]) < 0
+      ? sortedPrices[0]
+      : null;
+
+  // Blank cells before the 1st and after the last day fill whole weeks
+  const cells = [
+    ...Array.from({ length: startingDay }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => formatDateStr(year, month, i + 1)),
+  ];
+  const weeks = Array.from({ length: Math.ceil(cells.length / 7) }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => cells[w * 7 + d] ?? null)
+  );
+  const weekdayNames = i18n.weekdayLabels(weekStartsOn, "long");
+  let hasRestrictedDates = false;
 
   return (
     <div>
       {/* Month navigation */}
       <div className="flex items-center justify-between mb-6">
         <button
+          type="button"
           onClick={prevMonth}
           disabled={!canGoPrev}
+          aria-label={i18n.t("previousMonth")}
           className="w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground disabled:opacity-20 disabled:cursor-not-allowed transition-colors"
         >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100" aria-hidden="true">
             <polyline points="10,2 5,8 10,14" />
           </svg>
         </button>
-        <span className="text-sm tracking-wide text-foreground/70">
-          {monthNames[month]} {year}
+        <span id={labelId} aria-live="polite" className="text-sm tracking-wide text-foreground/70">
+          {i18n.monthLabel(currentMonth)}
         </span>
         <button
+          type="button"
           onClick={nextMonth}
+          aria-label={i18n.t("nextMonth")}
           className="w-8 h-8 flex items-center justify-center text-foreground/40 hover:text-foreground transition-colors"
         >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100" aria-hidden="true">
             <polyline points="6,2 11,8 6,14" />
           </svg>
         </button>
       </div>
 
-      {/* Day headers */}
-      <div className="grid grid-cols-7 mb-2">
-        {["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"].map((day) => (
-          <div key={day} className="text-center text-[10px] tracking-wider text-foreground/30 uppercase">
-            {day}
-          </div>
-        ))}
-      </div>
+      <p id={helpId} className="sr-only">{i18n.t("calendarHelp")}</p>
+      <p className="sr-only" aria-live="polite">
+        {selectedDate ? `${i18n.t("selected")}: ${i18n.formatLongDate(selectedDate)}` : ""}
+      </p>
 
       {/* Calendar grid */}
-      <div className="grid grid-cols-7 gap-1">
-        {/* Empty cells for days before month starts */}
-        {Array.from({ length: startingDay }).map((_, i) => (
-          <div key={`empty-${i}`} className="aspect-square" />
-        ))}
-
-        {/* Days of the month */}
-        {Array.from({ length: daysInMonth }).map((_, i) => {
-          const day = i + 1;
-          const dateStr = formatDateStr(year, month, day);
-          const isDisabled = isBeforeMinDate(year, month, day);
-          const isSelected = dateStr === selectedDate;
-
-          return (
-            <button
+      <div ref={gridRef} role="grid" aria-labelledby={labelId} aria-describedby={helpId} onKeyDown={handleGridKeyDown}>
+        {/* Day headers */}
+        <div role="row" className="grid grid-cols-7 mb-2">
+          {i18n.weekdayLabels(weekStartsOn).map((day, i) => (
+            <div
               key={day}
-              onClick={() => !isDisabled && onSelectDate(dateStr)}
-              disabled={isDisabled}
-              className={`
-                aspect-square flex items-center justify-center text-sm relative transition-all
-                ${isDisabled ? "cursor-not-allowed text-foreground/20" : "cursor-pointer hover:bg-foreground/5"}
-                ${isSelected ? "bg-foreground text-white" : ""}
-                ${!isDisabled && !isSelected ? "text-foreground/70" : ""}
-              `}
+              role="columnheader"
+              aria-label={weekdayNames[i]}
+              className="text-center text-[10px] tracking-wider text-foreground/30 uppercase"
             >
-              <span className="relative z-10">{day}</span>
-            </button>
-          );
-        })}
+              {day}
+            </div>
+          ))}
+        </div>
+
+        <div role="rowgroup" className="space-y-1">
+          {weeks.map((week, w) => (
+            <div key={w} role="row" className="grid grid-cols-7 gap-1">
+              {week.map((dateStr, d) => {
+                if (!dateStr) return <div key={`empty-${d}`} role="gridcell" className="aspect-square" />;
+
+                const day = Number(dateStr.slice(8, 10));
+                const isPastDate = isBeforeMinDate(year, month, day);
+                const restriction = isPastDate ? null : restrictionOf?.(dateStr) ?? null;
+                if (restriction) hasRestrictedDates = true;
+                const isDisabled = isPastDate || !!restriction;
+                const isSelected = dateStr === selectedDate;
+                const price = priceOf && !isDisabled ? priceOf(dateStr) : null;
+                const isLowest = price !== null && lowestPrice !== null && moneyEquals(price, lowestPrice);
+
+                // Everything the day's look conveys, for screen readers
+                const dayLabel = [
+                  i18n.formatLongDate(dateStr),
+                  isSelected && i18n.t("selected"),
+                  price !== null && formatPrice(price),
+                  isLowest && i18n.t("lowest"),
+                  isDisabled && !restriction && i18n.t("unavailable"),
+                  restriction,
+                ]
+                  .filter(Boolean)
+                  .join(", ");
+
+                return (
+                  <div key={dateStr} role="gridcell" aria-selected={isSelected}>
+                    <button
+                      type="button"
+                      data-date={dateStr}
+                      tabIndex={dateStr === tabbableDate ? 0 : -1}
+                      onClick={() => {
+                        setFocusedDate(dateStr);
+                        if (!isDisabled) onSelectDate(dateStr);
+                      }}
+                      aria-disabled={isDisabled || undefined}
+                      aria-current={dateStr === today ? "date" : undefined}
+                      aria-label={dayLabel}
+                      title={restriction ?? undefined}
+                      className={`
+                        w-full aspect-square flex flex-col items-center justify-center text-sm relative transition-all
+                        focus:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-foreground
+                        ${isDisabled ? "cursor-not-allowed text-foreground/20" : "cursor-pointer hover:bg-foreground/5"}
+                        ${restriction && !isSelected ? "text-foreground/30 line-through" : ""}
+                        ${isSelected ? "bg-foreground text-white" : ""}
+                        ${!isDisabled && !isSelected ? "text-foreground/70" : ""}
+                      `}
+                    >
+                      <span className="relative z-10">{day}</span>
+                      {price !== null && (
+                        <span
+                          className={`relative z-10 text-[8px] leading-none mt-0.5 ${
+                            isSelected ? "opacity-70" : isLowest ? "font-medium text-foreground" : "text-foreground/40"
+                          }`}
+                        >
+                          {formatPrice(price)}
+                        </span>
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Legend */}
-      <div className="flex items-center gap-6 mt-6 pt-4 border-t border-foreground/10">
+      <div className="flex items-center gap-6 mt-6 pt-4 border-t border-foreground/10" aria-hidden="true">
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 bg-foreground" />
-          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">Selected</span>
+          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{i18n.t("selected")}</span>
         </div>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 border border-foreground/20 text-foreground/20 flex items-center justify-center text-[8px]">—</div>
-          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">Unavailable</span>
+          <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{i18n.t("unavailable")}</span>
         </div>
+        {lowestPrice !== null && (
+          <div className="flex items-center gap-2">
+            <span className="text-[8px] font-medium text-foreground">{formatPrice(lowestPrice)}</span>
+            <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{i18n.t("lowest")}</span>
+          </div>
+        )}
+        {hasRestrictedDates && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-foreground/30 line-through">15</span>
+            <span className="text-[10px] tracking-wide text-foreground/40 uppercase">{i18n.t("restricted")}</span>
+          </div>
+        )}
       </div>
 
       <p className="text-[10px] text-foreground/40 mt-3">
-        Minimum 48 hours notice required
+        {i18n.t("noticeRequired", { count: minNoticeHours })}
       </p>
     </div>
   );
 }
 
-// ============================================================================
-// PAYPAL COMPONENT
-// ============================================================================
-
-function PayPalButton({
-  amount,
-  description,
-  onSuccess,
-  onError,
-}: {
-  amount: string;
-  description: string;
-  onSuccess: (transactionId: string) => void;
-  onError: (err: any) => void;
-}) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [loading, setLoading] = useState(true);
-  const buttonsInstance = useRef<any>(null);
-  const isMounted = useRef(true);
-
-  useEffect(() => {
-    isMounted.current = true;
-
-    const renderButton = async () => {
-      // Load PayPal SDK if needed
-      if (!window.paypal) {
-        const existingScript = document.querySelector('script[src*="paypal.com/sdk"]');
-        if (!existingScript) {
-          const script = document.createElement("script");
-          script.src = `https://www.paypal.com/sdk/js?client-id=AWVf28iPmlVmaEyibiwkOtdXAl5UPqL9i8ee9yStaG6qb7hCwNRB2G95SYwbcikLnBox6CGyO-boyAvu&currency=EUR`;
-          script.async = true;
-          document.body.appendChild(script);
-          await new Promise((resolve) => {
-            script.onload = resolve;
-          });
-        } else {
-          await new Promise((resolve) => setTimeout(resolve, 200));
-        }
-      }
-
-      if (!containerRef.current || !window.paypal || !isMounted.current) return;
-
-      try {
-        containerRef.current.innerHTML = "";
-
-        buttonsInstance.current = window.paypal.Buttons({
-          style: { layout: "vertical", color: "black", shape: "rect", label: "pay", height: 50 },
-          createOrder: (_: any, actions: any) => {
-            return actions.order.create({
-              purchase_units: [{ description, amount: { value: amount, currency_code: "EUR" } }],
-            });
-          },
-          onApprove: async (_: any, actions: any) => {
-            const order = await actions.order.capture();
-            if (isMounted.current) onSuccess(order.id);
-          },
-          onError: (err: any) => {
-            if (isMounted.current) onError(err);
-          },
-        });
-
-        if (containerRef.current && isMounted.current) {
-          await buttonsInstance.current.render(containerRef.current);
-          setLoading(false);
-        }
-      } catch (err) {
-        console.error("PayPal render error:", err);
-        setLoading(false);
-      }
-    };
-
-    renderButton();
-
-    return () => {
-      isMounted.current = false;
-      if (buttonsInstance.current?.close) {
-        try { buttonsInstance.current.close(); } catch (e) {}
-      }
-      buttonsInstance.current = null;
-    };
-  }, [amount, description, onSuccess, onError]);
-
-  return (
-    <div>
-      {loading && (
-        <div className="flex justify-center py-6">
-          <div className="w-5 h-5 border border-foreground/20 border-t-foreground rounded-full animate-spin" />
-        </div>
-      )}
-      <div ref={containerRef} className="min-h-[50px]" />
-    </div>
-  );
-}
-
 // ============================================================================
 // QUANTITY SELECTOR (same style as Riad)
 // ============================================================================
@@ -282,6 +336,7 @@ function QuantitySelector({
   max = 10,
   onChange,
   note,
+  i18n,
 }: {
   label: string;
   value: number;
@@ -289,28 +344,35 @@ function QuantitySelector({
   max?: number;
   onChange: (val: number) => void;
   note?: string;
+  i18n: Translator;
 }) {
+  const labelId = useId();
+
   return (
     <div className="mt-6">
-      <div className="flex items-center justify-between py-4 border-b border-foreground/10">
-        <span className="text-sm text-foreground/70">{label}</span>
+      <div role="group" aria-labelledby={labelId} className="flex items-center justify-between py-4 border-b border-foreground/10">
+        <span id={labelId} className="text-sm text-foreground/70">{label}</span>
         <div className="flex items-center gap-4">
           <button
+            type="button"
             onClick={() => onChange(Math.max(min, value - 1))}
             disabled={value <= min}
+            aria-label={i18n.t("decrease", { label })}
             className="w-8 h-8 flex items-center justify-center border border-foreground/20 text-foreground/50 hover:border-foreground/40 hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
           >
-            <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden="true">
               <line x1="2" y1="6" x2="10" y2="6" />
             </svg>
           </button>
-          <span className="w-8 text-center text-foreground">{value}</span>
+          <span aria-live="polite" className="w-8 text-center text-foreground">{value}</span>
           <button
+            type="button"
             onClick={() => onChange(Math.min(max, value + 1))}
             disabled={value >= max}
+            aria-label={i18n.t("increase", { label })}
             className="w-8 h-8 flex items-center justify-center border border-foreground/20 text-foreground/50 hover:border-foreground/40 hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
           >
-            <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden="true">
               <line x1="6" y1="2" x2="6" y2="10" />
               <line x1="2" y1="6" x2="10" y2="6" />
             </svg>
@@ -334,113 +396,266 @@ export default function DayTripBookingModal({
   basePriceMAD,
   basePriceEUR,
   addons,
+  maxGuests,
+  vehicles,
+  rates,
+  pickupZones,
+  pickupPoints,
+  showDayPrices = (rates?.length ?? 0) > 0,
+  timeZone = DEFAULT_TIME_ZONE,
+  minNoticeHours = 48,
+  locale,
+  messages,
+  weekStartsOn,
+  currency: initialCurrency = BASE_CURRENCY,
+  currencies = CURRENCIES,
+  exchangeRates,
+  formatPrice,
+  paypalClientId = process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID ?? "",
+  paymentProvider,
 }: DayTripBookingModalProps) {
   const [mounted, setMounted] = useState(false);
   const [step, setStep] = useState(1);
   const [tripDate, setTripDate] = useState("");
+  const [departureTime, setDepartureTime] = useState("");
   const [guests, setGuests] = useState(2);
   const [selectedAddons, setSelectedAddons] = useState<string[]>([]);
   const [guestName, setGuestName] = useState("");
   const [guestEmail, setGuestEmail] = useState("");
   const [guestPhone, setGuestPhone] = useState("");
   const [pickupLocation, setPickupLocation] = useState("");
+  const [pickupPointId, setPickupPointId] = useState("");
+  const [pickupZone, setPickupZone] = useState("");
+  const [pickupSearch, setPickupSearch] = useState("");
+  const [pickupElsewhere, setPickupElsewhere] = useState(false);
   const [notes, setNotes] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [bookingComplete, setBookingComplete] = useState(false);
   const [bookingId, setBookingId] = useState("");
+  const [idempotencyKey, setIdempotencyKey] = useState(newIdempotencyKey);
+  // Set to the payment reference when the booking is paid but not saved yet
+  const [queuedReference, setQueuedReference] = useState("");
+  // Set to the payment reference when the booking is paid but the server
+  // refused it, so the guest contacts us instead of paying again
+  const [refusedReference, setRefusedReference] = useState("");
+  // Whether the provider took the money, for the queued and refused screens
+  const [paymentCharged, setPaymentCharged] = useState(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(initialCurrency);
+  const [fetchedRates, setFetchedRates] = useState<ExchangeRates | null>(null);
+  const [schedule, setSchedule] = useState<Pick<DayTrip, "weekdays" | "blackouts" | "departuresPerDay" | "slots">>({});
+  const [bookedDepartures, setBookedDepartures] = useState<BookedDepartures>({});
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Calculate totals
-  const addonsTotal = selectedAddons.reduce((sum, addonId) => {
-    const addon = addons.find((a) => a.id === addonId);
-    return sum + (addon ? addon.priceEUR * guests : 0);
-  }, 0);
+  const i18n = useMemo(() => createTranslator(locale, messages), [locale, messages]);
+  const { t } = i18n;
+
+  const provider = useMemo(
+    () => paymentProvider ?? createPayPalProvider({ clientId: paypalClientId }),
+    [paymentProvider, paypalClientId]
+  );
+
+  // Calculate totals with the shared quote engine (re-run by the API route)
+  const trip = { slug: tripSlug, title: tripTitle, basePriceMAD, basePriceEUR, addons, maxGuests, vehicles, rates, pickupZones, pickupPoints, ...schedule };
+  const quote = quoteDayTrip(trip, {
+    tripDate,
+    departureTime,
+    guests,
+    addonIds: selectedAddons,
+    pickup: { pointId: pickupPointId, zone: pickupZone },
+  });
+  const slots = slotsOf(trip);
+  const { pickupPoint } = quote;
+  const hasPickupPoints = (pickupPoints?.length ?? 0) > 0;
+  const hasPickupZones = (pickupZones?.length ?? 0) > 0;
+  const pickupMatches = searchPickupPoints(trip, pickupSearch);
+  const { basePrice, basePriceMAD: datePriceMAD, addonsTotalMAD, totalMAD, total: totalEUR, vehicle } = quote;
+  const selectedAddonNames = quote.lines
+    .filter((line) => line.kind === "addon")
+    .map((line) => line.label)
+    .join(", ");
+
+  // The days the trip runs and the departures already booked, reloaded each
+  // time the modal opens. Without the route every date past the notice is open.
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(`/api/day-trip-availability?trip=${encodeURIComponent(tripSlug)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) return;
+        setSchedule({
+          weekdays: data.weekdays ?? undefined,
+          blackouts: data.blackouts ?? [],
+          departuresPerDay: data.departuresPerDay,
+          slots: Array.isArray(data.slots) ? data.slots : [],
+        });
+        if (data.bookedDepartures && typeof data.bookedDepartures === "object") {
+          setBookedDepartures(data.bookedDepartures);
+        }
+      })
+      .catch((err) => console.error("Failed to fetch trip availability:", err));
+  }, [isOpen, tripSlug]);
+
+  const restrictionOf = (dateStr: string) => {
+    const restriction = tripDateRestriction(trip, dateStr);
+    if (restriction) return i18n.issue(restriction);
+    return departuresLeft(trip, dateStr, bookedDepartures) === 0 ? t("soldOut") : null;
+  };
+
+  const isSlotFull = (dateStr: string, time: string) =>
+    !!dateStr && departuresLeft(trip, dateStr, bookedDepartures, time) === 0;
+
+  // A time already picked is dropped when it is full on the new date
+  const selectDate = (dateStr: string) => {
+    setTripDate(dateStr);
+    if (departureTime && isSlotFull(dateStr, departureTime)) setDepartureTime("");
+  };
+
+  // Exchange rates for the currency picker. Without them only EUR is offered.
+  const needsRates = !exchangeRates && currencies.some((code) => code !== BASE_CURRENCY);
 
-  const addonsTotalMAD = selectedAddons.reduce((sum, addonId) => {
+  useEffect(() => {
+    if (!needsRates) return;
+    fetch("/api/exchange-rates")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success && data.rates) setFetchedRates(data);
+      })
+      .catch((err) => console.error("Failed to fetch exchange rates:", err));
+  }, [needsRates]);
+
+  // MAD needs no rate: trips carry their own MAD prices
+  const currencyRates = exchangeRates ?? fetchedRates;
+  const offeredCurrencies = currencies.filter((code) => code === "MAD" || rateOf(currencyRates, code) !== null);
+  const displayCurrency = offeredCurrencies.includes(currency) ? currency : BASE_CURRENCY;
+  const displayRate = rateOf(currencyRates, displayCurrency) ?? 1;
+
+  // Every amount shown goes through here. In MAD the trip's list prices are
+  // shown as they are; other currencies are converted from EUR.
+  const money = (amount: Money) =>
+    formatPrice ? formatPrice(toDecimal(amount), amount.currency) : formatMoney(amount, i18n.intlLocale);
+  const shownAmount = (amountEUR: Money, amountMAD: Money) =>
+    displayCurrency === "MAD" ? amountMAD : convertMoney(amountEUR, displayRate, displayCurrency);
+  const price = (amountEUR: Money, amountMAD: Money) => money(shownAmount(amountEUR, amountMAD));
+  const addonPrice = (addonId: string, quantity: number) => {
     const addon = addons.find((a) => a.id === addonId);
-    return sum + (addon ? addon.priceMAD * guests : 0);
-  }, 0);
+    return price(
+      multiplyMoney(moneyOf(addon?.priceEUR, "EUR"), quantity),
+      multiplyMoney(moneyOf(addon?.priceMAD, "MAD"), quantity)
+    );
+  };
 
-  const totalEUR = basePriceEUR + addonsTotal;
-  const totalMAD = basePriceMAD + addonsTotalMAD;
+  // "Gueliz · +€15"; included zones show their name only
+  const zoneLabel = (zoneId: string) => {
+    const zone = pickupZoneFor(trip, zoneId);
+    if (!zone) return "";
+    const surcharge = pickupSurchargeOf(trip, zone);
+    return surcharge.priceEUR.minor > 0 ? `${zone.name} · +${price(surcharge.priceEUR, surcharge.priceMAD)}` : zone.name;
+  };
+
+  // The provider may not settle the shown currency; it then charges EUR
+  const chargeCurrency = settlementCurrency(displayCurrency, provider.currencies);
+  const charge = chargeFor(
+    totalEUR,
+    chargeCurrency,
+    rateOf(currencyRates, chargeCurrency) ?? 1,
+    chargeCurrency === "MAD" ? totalMAD : undefined
+  );
 
   // Reset when modal opens
   useEffect(() => {
     if (isOpen) {
       setStep(1);
       setBookingComplete(false);
+      setQueuedReference("");
+      setRefusedReference("");
+      setPaymentCharged(false);
       setTripDate("");
+      setDepartureTime("");
       setGuests(2);
       setSelectedAddons([]);
       setGuestName("");
       setGuestEmail("");
       setGuestPhone("");
       setPickupLocation("");
+      setPickupPointId("");
+      setPickupZone("");
+      setPickupSearch("");
+      setPickupElsewhere(false);
       setNotes("");
     }
   }, [isOpen]);
 
-  const formatDate = (dateStr: string) => {
-    if (!dateStr) return "";
-    const date = new Date(dateStr + "T12:00:00");
-    return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
-  };
-
-  const handlePaymentSuccess = useCallback(async (transactionId: string) => {
+  const formatDate = (dateStr: string) => i18n.formatDate(dateStr);
+
+  // Sent with the payment order too, so the server can save the booking from
+  // the payment webhook if this page never reports back
+  const bookingDraft = {
+    tripSlug,
+    tripTitle,
+    tripDate,
+    departureTime,
+    guests,
+    vehicle: vehicle?.name ?? "",
+    basePriceMAD: toDecimal(datePriceMAD),
+    addons: selectedAddonNames,
+    addonIds: selectedAddons,
+    addonsPriceMAD: toDecimal(addonsTotalMAD),
+    totalMAD: toDecimal(totalMAD),
+    totalEUR: toDecimalString(totalEUR),
+    currency: charge.amount.currency,
+    exchangeRate: charge.exchangeRate,
+    guestName,
+    guestEmail,
+    guestPhone,
+    pickupLocation: pickupPoint?.name ?? pickupLocation,
+    pickupPointId: pickupPoint?.id ?? "",
+    pickupZone: quote.pickupZone?.id ?? "",
+    notes,
+    idempotencyKey,
+  } satisfies BookingDraft;
+
+  const handlePaymentSuccess = useCallback(async (payment: PaymentResult) => {
     setIsSubmitting(true);
+    setPaymentCharged(payment.charged);
 
     try {
-      const selectedAddonNames = selectedAddons
-        .map((id) => addons.find((a) => a.id === id)?.name)
-        .filter(Boolean)
-        .join(", ");
-
-      const response = await fetch("/api/day-trip-bookings", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          tripSlug,
-          tripTitle,
-          tripDate,
-          guests,
-          basePriceMAD,
-          addons: selectedAddonNames,
-          addonsPriceMAD: addonsTotalMAD,
-          totalMAD,
-          totalEUR,
-          guestName,
-          guestEmail,
-          guestPhone,
-          pickupLocation,
-          notes,
-          paypalTransactionId: transactionId,
-        }),
-      });
-
-      const result = await response.json();
-
-      if (result.success) {
-        setBookingId(result.bookingId);
+      const booking: DayTripBookingRequest = {
+        ...bookingDraft,
+        paymentProvider: payment.provider,
+        transactionId: payment.transactionId,
+      };
+      const submission = await submitBooking("/api/day-trip-bookings", { ...booking, idempotencyKey });
+
+      if (submission.status === "saved") {
+        setBookingId(submission.result.bookingId ?? "");
         setBookingComplete(true);
         setStep(5);
+      } else if (submission.status === "queued") {
+        setQueuedReference(payment.transactionId);
+        setStep(5);
       } else {
-        alert("Booking save failed. Please contact us with your PayPal transaction ID: " + transactionId);
+        console.error("Booking refused:", submission.result.error);
+        setRefusedReference(payment.transactionId);
+        setStep(5);
       }
     } catch (error) {
       console.error("Booking error:", error);
-      alert("Something went wrong. Please contact us.");
+      setRefusedReference(payment.transactionId);
+      setStep(5);
     } finally {
+      // The payment is spent; another one is a new booking
+      setIdempotencyKey(newIdempotencyKey());
       setIsSubmitting(false);
     }
-  }, [tripSlug, tripTitle, tripDate, guests, basePriceMAD, selectedAddons, addons, addonsTotalMAD, totalMAD, totalEUR, guestName, guestEmail, guestPhone, pickupLocation, notes]);
+  }, [bookingDraft, idempotencyKey]);
 
-  const handlePaymentError = useCallback((err: any) => {
-    console.error("PayPal error:", err);
-    alert("Payment failed. Please try again.");
-  }, []);
+  const handlePaymentError = useCallback((err: unknown) => {
+    console.error("Payment error:", err);
+    alert(t("paymentFailed"));
+  }, [t]);
 
   const toggleAddon = (addonId: string) => {
     setSelectedAddons((prev) =>
@@ -450,8 +665,26 @@ export default function DayTripBookingModal({
     );
   };
 
-  const canProceedStep1 = tripDate && guests;
-  const canProceedStep3 = guestName.trim() && guestEmail.trim() && pickupLocation.trim();
+  const canProceedStep1 =
+    tripDate && guests && !restrictionOf(tripDate) && (slots.length === 0 || (departureTime && !isSlotFull(tripDate, departureTime)));
+  // A known point, or a typed address (with its zone when the trip has zones)
+  const hasPickup =
+    !!pickupPoint ||
+    ((!hasPickupPoints || pickupElsewhere) && !!pickupLocation.trim() && (!hasPickupZones || !!quote.pickupZone));
+  const canProceedStep3 = guestName.trim() && guestEmail.trim() && hasPickup;
+
+  // Focus stays inside the dialog; Escape closes it
+  const dialogRef = useDialog<HTMLDivElement>(mounted && isOpen, onClose);
+  useBookingOutbox(mounted && isOpen);
+  const fieldId = useId();
+
+  // Each new step is announced by moving focus to its heading
+  const stepShown = useRef(step);
+  useEffect(() => {
+    if (stepShown.current === step) return;
+    stepShown.current = step;
+    dialogRef.current?.querySelector<HTMLElement>("[data-step-heading]")?.focus();
+  }, [step, dialogRef]);
 
   if (!mounted) return null;
   if (!isOpen) return null;
@@ -460,44 +693,71 @@ export default function DayTripBookingModal({
     <div 
       className="fixed inset-0 flex items-center justify-center"
       style={{ zIndex: 9999 }}
+      dir={i18n.dir}
+      lang={i18n.intlLocale}
     >
       {/* Backdrop */}
-      <div className="absolute inset-0 bg-black/80" onClick={onClose} />
+      <div className="absolute inset-0 bg-black/80" onClick={onClose} aria-hidden="true" />
 
       {/* Modal */}
       <div 
-        className="relative w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto"
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={tripTitle}
+        tabIndex={-1}
+        className="relative w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto focus:outline-none"
         style={{ backgroundColor: "#f8f5f0" }}
       >
         {/* Close button */}
         <button
+          type="button"
           onClick={onClose}
-          className="absolute top-4 right-4 z-10 p-2 hover:opacity-60 transition-opacity"
+          aria-label={t("close")}
+          className="absolute top-4 end-4 z-10 p-2 hover:opacity-60 transition-opacity"
         >
-          <X className="w-5 h-5" />
+          <X className="w-5 h-5" aria-hidden="true" />
         </button>
 
         {/* Step 5: Success */}
         {step === 5 && (
           <div className="p-10 text-center">
             <div className="w-16 h-16 border border-foreground rounded-full flex items-center justify-center mx-auto mb-8">
-              <Check className="w-8 h-8" />
+              {refusedReference ? <AlertCircle className="w-8 h-8" /> : <Check className="w-8 h-8" />}
             </div>
-            <h2 className="font-serif text-2xl mb-4">Booking Confirmed</h2>
+            <h2 data-step-heading tabIndex={-1} className="font-serif text-2xl mb-4 focus:outline-none">
+              {refusedReference
+                ? t("bookingNotConfirmed")
+                : queuedReference
+                  ? t(paymentCharged ? "paymentReceived" : "savingBooking")
+                  : t("bookingConfirmed")}
+            </h2>
             <p className="text-muted-foreground mb-2">
-              Thank you, {guestName.split(" ")[0]}!
-            </p>
-            <p className="text-sm text-muted-foreground mb-6">
-              Confirmation #{bookingId}
-            </p>
-            <p className="text-sm text-muted-foreground mb-8">
-              Check your email at {guestEmail} for details.
+              {t("thankYouName", { name: guestName.split(" ")[0] })}
             </p>
+            {refusedReference ? (
+              <p className="text-sm text-muted-foreground mb-8">
+                {t("saveFailedReference", { reference: refusedReference })}
+              </p>
+            ) : queuedReference ? (
+              <p className="text-sm text-muted-foreground mb-8">
+                {t("bookingQueued", { reference: queuedReference })}
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-6">
+                  {t("confirmationNumber", { id: bookingId })}
+                </p>
+                <p className="text-sm text-muted-foreground mb-8">
+                  {t("checkEmail", { email: guestEmail })}
+                </p>
+              </>
+            )}
             <button
               onClick={onClose}
               className="text-xs tracking-[0.15em] uppercase border-b border-foreground pb-1 hover:opacity-60 transition-opacity"
             >
-              Close
+              {t("close")}
             </button>
           </div>
         )}
@@ -506,25 +766,91 @@ export default function DayTripBookingModal({
         {step === 1 && (
           <div className="p-10">
             <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-2">
-              Step 1 of 4
+              {t("stepOf", { step: 1, total: 4 })}
             </p>
-            <h2 className="font-serif text-2xl mb-8">{tripTitle}</h2>
+            <div className="flex items-start justify-between gap-4 mb-8">
+              <h2 data-step-heading tabIndex={-1} className="font-serif text-2xl focus:outline-none">{tripTitle}</h2>
+              {offeredCurrencies.length > 1 && (
+                <select
+                  value={displayCurrency}
+                  onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                  aria-label={t("currency")}
+                  className="mt-2 py-1 bg-transparent border-b border-foreground/20 focus:border-foreground/40 focus:outline-none text-xs tracking-wider text-foreground/60"
+                >
+                  {offeredCurrencies.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
 
             {/* Calendar */}
             <Calendar
               selectedDate={tripDate}
-              onSelectDate={setTripDate}
-              minDaysFromNow={2}
+              onSelectDate={selectDate}
+              minNoticeHours={minNoticeHours}
+              timeZone={timeZone}
+              restrictionOf={restrictionOf}
+              i18n={i18n}
+              weekStartsOn={weekStartsOn ?? i18n.weekStartsOn}
+              priceOf={
+                showDayPrices
+                  ? (dateStr) => {
+                      const rate = tripRateFor(trip, dateStr, guests);
+                      return shownAmount(rate.priceEUR, rate.priceMAD);
+                    }
+                  : undefined
+              }
+              formatPrice={money}
             />
 
+            {/* Departure time */}
+            {slots.length > 0 && (
+              <div className="mt-6">
+                <p id={`${fieldId}-departureTime`} className="text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-3">
+                  {t("departureTime")}
+                </p>
+                <div role="group" aria-labelledby={`${fieldId}-departureTime`} className="flex flex-wrap gap-2">
+                  {slots.map((slot) => {
+                    const isFull = isSlotFull(tripDate, slot.time);
+                    const isSelected = slot.time === departureTime;
+                    return (
+                      <button
+                        key={slot.time}
+                        type="button"
+                        onClick={() => setDepartureTime(slot.time)}
+                        disabled={isFull}
+                        aria-pressed={isSelected}
+                        aria-label={isFull ? `${slot.time}, ${t("soldOut")}` : slot.time}
+                        className={`px-4 py-2 border text-sm transition-colors disabled:cursor-not-allowed ${
+                          isSelected
+                            ? "border-foreground bg-foreground text-[#f8f5f0]"
+                            : "border-foreground/20 hover:border-foreground/40"
+                        } ${isFull ? "text-foreground/30 line-through" : ""}`}
+                      >
+                        {slot.time}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Guests selector */}
             <QuantitySelector
-              label="Guests"
+              label={t("guests")}
               value={guests}
               min={1}
-              max={2}
+              max={maxTripGuests(trip)}
               onChange={setGuests}
-              note="Price is per car, up to 2 guests"
+              note={
+                vehicle
+                  ? t("vehicleNote", { vehicle: vehicle.name, count: vehicle.maxGuests })
+                  : t("perCarNote", { count: quote.maxGuests })
+              }
+              i18n={i18n}
             />
 
             {/* Price summary */}
@@ -532,9 +858,13 @@ export default function DayTripBookingModal({
               <div className="mt-8 pt-6 border-t border-foreground/10">
                 <div className="flex justify-between items-center">
                   <div>
-                    <p className="text-sm text-foreground/50">{formatDate(tripDate)}</p>
+                    <p className="text-sm text-foreground/50">
+                      {formatDate(tripDate)}
+                      {departureTime ? ` · ${departureTime}` : ""}
+                    </p>
+                    {vehicle && <p className="text-xs text-foreground/40 mt-1">{vehicle.name}</p>}
                   </div>
-                  <p className="text-2xl font-serif">€{basePriceEUR}</p>
+                  <p className="text-2xl font-serif">{price(basePrice, datePriceMAD)}</p>
                 </div>
               </div>
             )}
@@ -546,8 +876,8 @@ export default function DayTripBookingModal({
                 disabled={!canProceedStep1}
                 className="flex items-center gap-2 text-xs tracking-[0.15em] uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:opacity-60 transition-opacity"
               >
-                Continue
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                {t("continue")}
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="5,2 10,7 5,12" />
                 </svg>
               </button>
@@ -559,9 +889,9 @@ export default function DayTripBookingModal({
         {step === 2 && (
           <div className="p-10">
             <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-2">
-              Step 2 of 4
+              {t("stepOf", { step: 2, total: 4 })}
             </p>
-            <h2 className="font-serif text-2xl mb-8">Enhance Your Day</h2>
+            <h2 data-step-heading tabIndex={-1} className="font-serif text-2xl mb-8 focus:outline-none">{t("enhanceYourDay")}</h2>
 
             {addons.length > 0 ? (
               <div className="space-y-4">
@@ -569,7 +899,7 @@ export default function DayTripBookingModal({
                   <button
                     key={addon.id}
                     onClick={() => toggleAddon(addon.id)}
-                    className={`w-full p-5 border text-left transition-colors ${
+                    className={`w-full p-5 border text-start transition-colors ${
                       selectedAddons.includes(addon.id)
                         ? "border-foreground"
                         : "border-foreground/20 hover:border-foreground/40"
@@ -580,23 +910,23 @@ export default function DayTripBookingModal({
                         <p className="font-medium mb-1">{addon.name}</p>
                         <p className="text-sm text-muted-foreground">{addon.description}</p>
                       </div>
-                      <div className="text-right">
-                        <p className="text-sm">+€{addon.priceEUR}</p>
-                        <p className="text-xs text-muted-foreground">per person</p>
+                      <div className="text-end">
+                        <p className="text-sm">+{addonPrice(addon.id, 1)}</p>
+                        <p className="text-xs text-muted-foreground">{t("perPerson")}</p>
                       </div>
                     </div>
                   </button>
                 ))}
               </div>
             ) : (
-              <p className="text-muted-foreground">No add-ons available for this tour.</p>
+              <p className="text-muted-foreground">{t("noAddons")}</p>
             )}
 
             {/* Price summary */}
             <div className="mt-8 pt-6 border-t border-foreground/10">
               <div className="flex justify-between items-center">
-                <span className="text-foreground/50 text-sm">Total</span>
-                <p className="text-2xl font-serif">€{totalEUR}</p>
+                <span className="text-foreground/50 text-sm">{t("total")}</span>
+                <p className="text-2xl font-serif">{price(totalEUR, totalMAD)}</p>
               </div>
             </div>
 
@@ -606,17 +936,17 @@ export default function DayTripBookingModal({
                 onClick={() => setStep(1)}
                 className="flex items-center gap-2 text-xs tracking-[0.15em] uppercase hover:opacity-60 transition-opacity"
               >
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="9,2 4,7 9,12" />
                 </svg>
-                Back
+                {t("back")}
               </button>
               <button
                 onClick={() => setStep(3)}
                 className="flex items-center gap-2 text-xs tracking-[0.15em] uppercase hover:opacity-60 transition-opacity"
               >
-                Continue
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                {t("continue")}
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="5,2 10,7 5,12" />
                 </svg>
               </button>
@@ -628,60 +958,171 @@ export default function DayTripBookingModal({
         {step === 3 && (
           <div className="p-10">
             <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-2">
-              Step 3 of 4
+              {t("stepOf", { step: 3, total: 4 })}
             </p>
-            <h2 className="font-serif text-2xl mb-8">Your Details</h2>
+            <h2 data-step-heading tabIndex={-1} className="font-serif text-2xl mb-8 focus:outline-none">{t("detailsTitle")}</h2>
 
             <div className="space-y-6">
               <div>
-                <label className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
-                  Full Name
+                <label htmlFor={`${fieldId}-fullName`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                  {t("fullName")}
                 </label>
                 <input
+                  id={`${fieldId}-fullName`}
                   type="text"
                   value={guestName}
                   onChange={(e) => setGuestName(e.target.value)}
+                  required
+                  autoComplete="name"
                   className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
                 />
               </div>
               <div>
-                <label className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
-                  Email
+                <label htmlFor={`${fieldId}-email`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                  {t("email")}
                 </label>
                 <input
+                  id={`${fieldId}-email`}
                   type="email"
                   value={guestEmail}
                   onChange={(e) => setGuestEmail(e.target.value)}
+                  required
+                  autoComplete="email"
                   className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
                 />
               </div>
               <div>
-                <label className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
-                  Phone (optional)
+                <label htmlFor={`${fieldId}-phone`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                  {t("phone")} {t("optional")}
                 </label>
                 <input
+                  id={`${fieldId}-phone`}
                   type="tel"
                   value={guestPhone}
                   onChange={(e) => setGuestPhone(e.target.value)}
+                  autoComplete="tel"
                   className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
                 />
               </div>
               <div>
-                <label className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
-                  Pickup Location (hotel/riad name)
-                </label>
-                <input
-                  type="text"
-                  value={pickupLocation}
-                  onChange={(e) => setPickupLocation(e.target.value)}
-                  className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
-                />
+                {pickupPoint ? (
+                  <>
+                    <p className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">{t("pickup")}</p>
+                    <div className="flex justify-between items-start gap-4 p-4 border border-foreground">
+                      <div>
+                        <p className="text-sm">{pickupPoint.name}</p>
+                        <p className="text-xs text-foreground/50 mt-1">{zoneLabel(pickupPoint.zone)}</p>
+                        {pickupPoint.notes && (
+                          <p className="text-xs text-foreground/50 mt-1">{t("meetingPoint", { notes: pickupPoint.notes })}</p>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setPickupPointId("")}
+                        className="text-[10px] tracking-[0.15em] uppercase border-b border-foreground/40 hover:opacity-60 transition-opacity"
+                      >
+                        {t("change")}
+                      </button>
+                    </div>
+                  </>
+                ) : hasPickupPoints && !pickupElsewhere ? (
+                  <>
+                    <label htmlFor={`${fieldId}-pickupSearch`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                      {t("pickup")}
+                    </label>
+                    <input
+                      id={`${fieldId}-pickupSearch`}
+                      type="search"
+                      value={pickupSearch}
+                      onChange={(e) => setPickupSearch(e.target.value)}
+                      placeholder={t("searchPickup")}
+                      aria-controls={`${fieldId}-pickupPoints`}
+                      className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
+                    />
+                    <div
+                      id={`${fieldId}-pickupPoints`}
+                      role="group"
+                      aria-label={t("pickup")}
+                      aria-live="polite"
+                      className="mt-3 max-h-56 overflow-y-auto space-y-2"
+                    >
+                      {pickupMatches.map((point) => (
+                        <button
+                          key={point.id}
+                          type="button"
+                          onClick={() => setPickupPointId(point.id)}
+                          className="w-full p-3 border border-foreground/20 hover:border-foreground/40 text-start transition-colors"
+                        >
+                          <span className="flex justify-between gap-4">
+                            <span className="text-sm">{point.name}</span>
+                            <span className="text-xs text-foreground/50">{zoneLabel(point.zone)}</span>
+                          </span>
+                        </button>
+                      ))}
+                      {pickupMatches.length === 0 && (
+                        <p className="text-xs text-foreground/50">{t("noPickupMatches")}</p>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setPickupElsewhere(true)}
+                        className="w-full p-3 border border-dashed border-foreground/20 hover:border-foreground/40 text-start text-sm text-foreground/70 transition-colors"
+                      >
+                        {t("pickupElsewhere")}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <label htmlFor={`${fieldId}-pickupLocation`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                      {hasPickupPoints ? t("pickupAddress") : t("pickupLocation")}
+                    </label>
+                    <input
+                      id={`${fieldId}-pickupLocation`}
+                      type="text"
+                      value={pickupLocation}
+                      onChange={(e) => setPickupLocation(e.target.value)}
+                      required
+                      className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
+                    />
+                    {hasPickupZones && (
+                      <>
+                        <label htmlFor={`${fieldId}-pickupZone`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mt-6 mb-2">
+                          {t("pickupZone")}
+                        </label>
+                        <select
+                          id={`${fieldId}-pickupZone`}
+                          value={pickupZone}
+                          onChange={(e) => setPickupZone(e.target.value)}
+                          required
+                          className="w-full border-b border-foreground/20 pb-3 focus:outline-none focus:border-foreground bg-transparent"
+                        >
+                          <option value="">{t("selectZone")}</option>
+                          {pickupZones?.map((zone) => (
+                            <option key={zone.id} value={zone.id}>
+                              {zoneLabel(zone.id)}
+                            </option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                    {hasPickupPoints && (
+                      <button
+                        type="button"
+                        onClick={() => setPickupElsewhere(false)}
+                        className="mt-4 text-[10px] tracking-[0.15em] uppercase border-b border-foreground/40 hover:opacity-60 transition-opacity"
+                      >
+                        {t("searchPickup")}
+                      </button>
+                    )}
+                  </>
+                )}
               </div>
               <div>
-                <label className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
-                  Special Requests (optional)
+                <label htmlFor={`${fieldId}-specialRequests`} className="block text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-2">
+                  {t("specialRequests")} {t("optional")}
                 </label>
                 <textarea
+                  id={`${fieldId}-specialRequests`}
                   value={notes}
                   onChange={(e) => setNotes(e.target.value)}
                   rows={2}
@@ -696,18 +1137,18 @@ export default function DayTripBookingModal({
                 onClick={() => setStep(2)}
                 className="flex items-center gap-2 text-xs tracking-[0.15em] uppercase hover:opacity-60 transition-opacity"
               >
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="9,2 4,7 9,12" />
                 </svg>
-                Back
+                {t("back")}
               </button>
               <button
                 onClick={() => setStep(4)}
                 disabled={!canProceedStep3}
                 className="flex items-center gap-2 text-xs tracking-[0.15em] uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:opacity-60 transition-opacity"
               >
-                Continue
-                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+                {t("continue")}
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                   <polyline points="5,2 10,7 5,12" />
                 </svg>
               </button>
@@ -719,48 +1160,77 @@ export default function DayTripBookingModal({
         {step === 4 && (
           <div className="p-10">
             <p className="text-[10px] tracking-[0.3em] uppercase text-foreground/40 mb-2">
-              Step 4 of 4
+              {t("stepOf", { step: 4, total: 4 })}
             </p>
-            <h2 className="font-serif text-2xl mb-8">Payment</h2>
+            <h2 data-step-heading tabIndex={-1} className="font-serif text-2xl mb-8 focus:outline-none">{t("payment")}</h2>
 
             {/* Summary */}
             <div className="bg-foreground/[0.03] p-6 mb-6">
               <p className="font-serif text-lg mb-2">{tripTitle}</p>
-              <p className="text-sm text-foreground/50 mb-4">{formatDate(tripDate)}</p>
+              <p className="text-sm text-foreground/50 mb-4">
+                {formatDate(tripDate)}
+                {departureTime ? ` · ${departureTime}` : ""}
+              </p>
               
               <div className="space-y-2 pt-4 border-t border-foreground/10">
                 <div className="flex justify-between text-sm">
-                  <span className="text-foreground/50">Day trip ({guests} guest{guests > 1 ? "s" : ""})</span>
-                  <span>€{basePriceEUR}</span>
+                  <span className="text-foreground/50">
+                    {t("dayTrip")} ({t("guestCount", { count: guests })}){vehicle ? ` · ${vehicle.name}` : ""}
+                  </span>
+                  <span>{price(basePrice, datePriceMAD)}</span>
                 </div>
-                {selectedAddons.map((addonId) => {
-                  const addon = addons.find((a) => a.id === addonId);
-                  if (!addon) return null;
-                  return (
-                    <div key={addonId} className="flex justify-between text-sm">
-                      <span className="text-foreground/50">{addon.name} × {guests}</span>
-                      <span>€{addon.priceEUR * guests}</span>
+                {quote.lines
+                  .filter((line) => line.kind === "addon")
+                  .map((line) => (
+                    <div key={line.id} className="flex justify-between text-sm">
+                      <span className="text-foreground/50">{line.label} × {line.quantity}</span>
+                      <span>{addonPrice(line.id, line.quantity)}</span>
                     </div>
-                  );
-                })}
+                  ))}
+                {quote.pickupZone && quote.pickupSurcharge.minor > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-foreground/50">{t("pickup")} · {quote.pickupZone.name}</span>
+                    <span>{price(quote.pickupSurcharge, quote.pickupSurchargeMAD)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-base pt-3 border-t border-foreground/10 mt-3">
-                  <span className="font-medium">Total</span>
-                  <span className="font-serif text-xl">€{totalEUR}</span>
+                  <span className="font-medium">{t("total")}</span>
+                  <span className="font-serif text-xl">{price(totalEUR, totalMAD)}</span>
                 </div>
               </div>
             </div>
 
-            {/* PayPal Button */}
-            <PayPalButton
-              amount={totalEUR.toFixed(2)}
-              description={`${tripTitle} - ${formatDate(tripDate)}`}
-              onSuccess={handlePaymentSuccess}
-              onError={handlePaymentError}
-            />
+            {charge.amount.currency !== displayCurrency && (
+              <p className="text-xs text-foreground/50 mb-6">
+                {t("chargedIn", { amount: money(charge.amount) })}
+              </p>
+            )}
+
+            {/* Payment */}
+            {provider.render({
+              order: {
+                kind: "dayTrip",
+                tripSlug,
+                tripDate,
+                departureTime,
+                guests,
+                addonIds: selectedAddons,
+                pickupPointId: pickupPoint?.id ?? "",
+                pickupZone: quote.pickupZone?.id ?? "",
+                idempotencyKey,
+                booking: bookingDraft,
+              },
+              amount: charge.amount,
+              exchangeRate: charge.exchangeRate,
+              t,
+              intlLocale: i18n.intlLocale,
+              onSuccess: handlePaymentSuccess,
+              onError: handlePaymentError,
+            })}
 
             {isSubmitting && (
               <p className="text-center text-sm text-foreground/50 mt-4">
-                Processing...
+                {t("processing")}
               </p>
             )}
 
@@ -768,15 +1238,15 @@ export default function DayTripBookingModal({
               onClick={() => setStep(3)}
               className="mt-6 flex items-center gap-2 text-xs tracking-[0.15em] uppercase hover:opacity-60 transition-opacity"
             >
-              <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" className="rtl:-scale-x-100">
                 <polyline points="9,2 4,7 9,12" />
               </svg>
-              Back
+              {t("back")}
             </button>
 
             {/* Contact link */}
             <p className="text-center mt-6 text-[11px] text-foreground/30">
-              <a href="/contact" className="hover:text-foreground/50 transition-colors">Send us a note</a>
+              <a href="/contact" className="hover:text-foreground/50 transition-colors">{t("sendNote")}</a>
             </p>
           </div>
         )}
@@ -0,0 +1,45 @@
+"use client";
+
+import type { PaymentProvider, PaymentRenderProps } from "@/components/payments/types";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+
+// ============================================================================
+// MOCK PAYMENT (local demos and automated tests)
+// ============================================================================
+// Pair with createMockVerifier() on the server. Never ship it to production.
+
+function MockPayment({ amount, t, intlLocale, onSuccess, onError }: PaymentRenderProps) {
+  return (
+    <div className="border border-dashed border-foreground/20 p-4">
+      <p className="text-[10px] tracking-[0.2em] uppercase text-foreground/40 mb-4">{t("testPayment")}</p>
+      <div className="flex gap-4">
+        <button
+          onClick={() => onSuccess({ provider: "mock", transactionId: `mock_${Date.now()}`, charged: false })}
+          data-testid="mock-payment-success"
+          className="flex-1 py-3 bg-foreground text-[#f8f5f0] text-xs tracking-wider uppercase hover:bg-foreground/90 transition-colors"
+        >
+          {t("payAmount", { amount: formatMoney(amount, intlLocale) })}
+        </button>
+        <button
+          onClick={() => onError(new Error("Mock payment declined"))}
+          data-testid="mock-payment-failure"
+          className="flex-1 py-3 border border-foreground/20 text-foreground/70 text-xs tracking-wider uppercase hover:border-foreground/40 transition-colors"
+        >
+          {t("decline")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export function createMockProvider(): PaymentProvider {
+  return {
+    id: "mock",
+    currencies: CURRENCIES,
+    render: (props) => <MockPayment {...props} />,
+  };
+}
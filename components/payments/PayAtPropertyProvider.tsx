@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import type { PaymentProvider, PaymentRenderProps } from "@/components/payments/types";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+
+// ============================================================================
+// PAY ON ARRIVAL
+// ============================================================================
+// Only hand this provider to guests the property trusts (repeat guests,
+// agents). The booking route re-checks the guest with its own verifier.
+
+function PayAtPropertyConfirm({ amount, t, intlLocale, onSuccess, note }: PaymentRenderProps & { note?: string }) {
+  const [confirming, setConfirming] = useState(false);
+
+  const handleConfirm = () => {
+    setConfirming(true);
+    onSuccess({ provider: "pay-at-property", transactionId: `pay-at-property-${Date.now()}`, charged: false });
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-foreground/50 mb-6">{note ?? t("payAtPropertyNote")}</p>
+      <button
+        onClick={handleConfirm}
+        disabled={confirming}
+        className="w-full py-4 bg-foreground text-[#f8f5f0] text-sm tracking-wider uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:bg-foreground/90 transition-colors"
+      >
+        {t("payOnArrival", { amount: formatMoney(amount, intlLocale) })}
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+// `note` replaces the locale's "Nothing is charged now" message
+export function createPayAtPropertyProvider({ note }: { note?: string } = {}): PaymentProvider {
+  return {
+    id: "pay-at-property",
+    currencies: CURRENCIES,
+    render: (props) => <PayAtPropertyConfirm {...props} note={note} />,
+  };
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import type { PaymentProvider, PaymentRenderProps } from "@/components/payments/types";
+import { PAYPAL_CURRENCIES } from "@/lib/currency";
+
+// The parts of the PayPal JS SDK used here
+interface PayPalButtonsOptions {
+  style: Record<string, string | number>;
+  createOrder: () => Promise<string>;
+  onApprove: (data: { orderID: string }) => Promise<void>;
+  onError: (err: unknown) => void;
+}
+
+interface PayPalButtonsInstance {
+  render: (container: HTMLElement) => Promise<void>;
+  close?: () => void;
+}
+
+declare global {
+  interface Window {
+    paypal?: { Buttons: (options: PayPalButtonsOptions) => PayPalButtonsInstance };
+  }
+}
+
+// ============================================================================
+// PAYPAL BUTTON
+// ============================================================================
+
+function PayPalButton({
+  order,
+  amount,
+  exchangeRate,
+  clientId,
+  t,
+  onSuccess,
+  onError,
+}: PaymentRenderProps & { clientId: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const buttonsInstance = useRef<PayPalButtonsInstance | null>(null);
+  const isMounted = useRef(true);
+  const { currency } = amount;
+  const orderBody = JSON.stringify({ ...order, currency, exchangeRate });
+
+  // Callbacks change identity on every parent render; keep the latest in a
+  // ref so they don't tear down and re-render the PayPal buttons
+  const callbacks = useRef({ onSuccess, onError });
+  callbacks.current = { onSuccess, onError };
+
+  useEffect(() => {
+    isMounted.current = true;
+    let timeoutId: NodeJS.Timeout;
+
+    const renderButton = async () => {
+      const paypal = window.paypal;
+      if (!containerRef.current || !paypal || !isMounted.current) return;
+
+      try {
+        if (containerRef.current) {
+          containerRef.current.innerHTML = "";
+        }
+
+        const buttons = paypal.Buttons({
+          style: { layout: "vertical", color: "black", shape: "rect", label: "pay", height: 50 },
+          // The order is created and captured by our own routes so the amount
+          // always comes from the server-side quote
+          createOrder: async () => {
+            const response = await fetch("/api/paypal/orders", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: orderBody,
+            });
+            const result = await response.json();
+            if (!result.success) throw new Error(result.error || "Unable to start payment");
+            return result.orderId;
+          },
+          onApprove: async (data) => {
+            if (!isMounted.current) return;
+            const response = await fetch("/api/paypal/capture", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ orderId: data.orderID }),
+            });
+            const result = await response.json();
+            if (!isMounted.current) return;
+            if (result.success) {
+              callbacks.current.onSuccess({ provider: "paypal", transactionId: result.orderId, charged: true });
+            } else {
+              callbacks.current.onError(new Error(result.error || "Payment could not be captured"));
+            }
+          },
+          onError: (err) => {
+            if (!isMounted.current) return;
+            callbacks.current.onError(err);
+          },
+        });
+        buttonsInstance.current = buttons;
+
+        if (containerRef.current && isMounted.current) {
+          await buttons.render(containerRef.current);
+          if (isMounted.current) {
+            setLoading(false);
+          }
+        }
+      } catch (err) {
+        console.error("PayPal render error:", err);
+        if (isMounted.current) {
+          setError(true);
+          setLoading(false);
+        }
+      }
+    };
+
+    // The SDK is loaded for a single currency; swap it when the guest
+    // switches to another one
+    const loaded = document.querySelector<HTMLScriptElement>('script[src*="paypal.com/sdk"]');
+    if (loaded && !loaded.src.includes(`currency=${currency}`)) {
+      loaded.remove();
+      delete window.paypal;
+    }
+
+    const initPayPal = () => {
+      if (window.paypal) {
+        renderButton();
+      } else {
+        const existingScript = document.querySelector('script[src*="paypal.com/sdk"]');
+        if (!existingScript) {
+          const script = document.createElement("script");
+          script.src = `https://www.paypal.com/sdk/js?client-id=${clientId}&currency=${currency}`;
+          script.async = true;
+          script.onload = () => {
+            if (isMounted.current) renderButton();
+          };
+          script.onerror = () => {
+            if (isMounted.current) {
+              setError(true);
+              setLoading(false);
+            }
+          };
+          document.head.appendChild(script);
+        } else {
+          const checkInterval = setInterval(() => {
+            if (window.paypal) {
+              clearInterval(checkInterval);
+              if (isMounted.current) renderButton();
+            }
+          }, 100);
+
+          timeoutId = setTimeout(() => {
+            clearInterval(checkInterval);
+            if (isMounted.current && !window.paypal) {
+              setError(true);
+              setLoading(false);
+            }
+          }, 10000);
+        }
+      }
+    };
+
+    requestAnimationFrame(initPayPal);
+
+    return () => {
+      isMounted.current = false;
+      if (timeoutId) clearTimeout(timeoutId);
+
+      if (buttonsInstance.current && typeof buttonsInstance.current.close === "function") {
+        try {
+          buttonsInstance.current.close();
+        } catch (e) {}
+      }
+      buttonsInstance.current = null;
+    };
+  }, [orderBody, clientId, currency]);
+
+  if (error) {
+    return (
+      <div className="py-6 text-center">
+        <p className="text-sm text-foreground/50">{t("paymentUnavailable")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {loading && (
+        <div className="flex justify-center py-6">
+          <div className="w-5 h-5 border border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
+        </div>
+      )}
+      <div ref={containerRef} className="min-h-[50px]" />
+    </div>
+  );
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export function createPayPalProvider({ clientId }: { clientId: string }): PaymentProvider {
+  return {
+    id: "paypal",
+    currencies: PAYPAL_CURRENCIES,
+    render: (props) => <PayPalButton {...props} clientId={clientId} />,
+  };
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import type { PaymentProvider, PaymentRenderProps } from "@/components/payments/types";
+import { STRIPE_CURRENCIES, formatMoney } from "@/lib/currency";
+
+// The parts of Stripe.js used here
+interface StripeCardElement {
+  mount: (container: HTMLElement) => void;
+  destroy: () => void;
+}
+
+interface StripeCardPaymentResult {
+  paymentIntent?: { id: string; status: string };
+  error?: { message?: string };
+}
+
+interface StripeInstance {
+  elements: () => {
+    create: (type: "card", options: { hidePostalCode: boolean; style: Record<string, unknown> }) => StripeCardElement;
+  };
+  confirmCardPayment: (
+    clientSecret: string,
+    data: { payment_method: { card: StripeCardElement } }
+  ) => Promise<StripeCardPaymentResult>;
+}
+
+// What /api/stripe/payment-intents answers
+interface PaymentIntentResponse {
+  success: boolean;
+  clientSecret?: string;
+  error?: string;
+}
+
+declare global {
+  interface Window {
+    Stripe?: (publishableKey: string) => StripeInstance;
+  }
+}
+
+// ============================================================================
+// STRIPE CARD FORM
+// ============================================================================
+
+function loadStripeScript() {
+  return new Promise<void>((resolve, reject) => {
+    if (window.Stripe) return resolve();
+
+    let script = document.querySelector<HTMLScriptElement>('script[src^="https://js.stripe.com/v3"]');
+    if (!script) {
+      script = document.createElement("script");
+      script.src = "https://js.stripe.com/v3";
+      script.async = true;
+      document.head.appendChild(script);
+    }
+    script.addEventListener("load", () => resolve());
+    script.addEventListener("error", () => reject(new Error("Failed to load Stripe")));
+  });
+}
+
+function StripeCardForm({
+  order,
+  amount,
+  exchangeRate,
+  publishableKey,
+  t,
+  intlLocale,
+  onSuccess,
+  onError,
+}: PaymentRenderProps & { publishableKey: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stripeRef = useRef<StripeInstance | null>(null);
+  const cardRef = useRef<StripeCardElement | null>(null);
+  const clientSecretRef = useRef("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const orderBody = JSON.stringify({ ...order, currency: amount.currency, exchangeRate });
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const init = async () => {
+      try {
+        // The payment intent is created server-side from the quote
+        const response = await fetch("/api/stripe/payment-intents", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: orderBody,
+        });
+        const result: PaymentIntentResponse = await response.json();
+        if (!result.success || !result.clientSecret) throw new Error(result.error || "Unable to start payment");
+
+        await loadStripeScript();
+        if (!isMounted || !containerRef.current) return;
+        if (!window.Stripe) throw new Error("Failed to load Stripe");
+
+        const stripe = window.Stripe(publishableKey);
+        const card = stripe.elements().create("card", {
+          hidePostalCode: true,
+          style: { base: { fontSize: "15px", color: "#1a1a1a" } },
+        });
+        card.mount(containerRef.current);
+        stripeRef.current = stripe;
+        cardRef.current = card;
+        clientSecretRef.current = result.clientSecret;
+        setLoading(false);
+      } catch (err) {
+        console.error("Stripe init error:", err);
+        if (isMounted) {
+          setError(true);
+          setLoading(false);
+        }
+      }
+    };
+
+    init();
+
+    return () => {
+      isMounted = false;
+      if (cardRef.current) {
+        try {
+          cardRef.current.destroy();
+        } catch (e) {}
+      }
+      cardRef.current = null;
+    };
+  }, [orderBody, publishableKey]);
+
+  const handlePay = async () => {
+    if (!stripeRef.current || !cardRef.current) return;
+    setPaying(true);
+    try {
+      const { paymentIntent, error: stripeError } = await stripeRef.current.confirmCardPayment(
+        clientSecretRef.current,
+        { payment_method: { card: cardRef.current } }
+      );
+      if (stripeError) throw stripeError;
+      if (paymentIntent?.status !== "succeeded") throw new Error("Payment was not completed");
+      onSuccess({ provider: "stripe", transactionId: paymentIntent.id, charged: true });
+    } catch (err) {
+      onError(err);
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="py-6 text-center">
+        <p className="text-sm text-foreground/50">{t("paymentUnavailable")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {loading && (
+        <div className="flex justify-center py-6">
+          <div className="w-5 h-5 border border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
+        </div>
+      )}
+      <div ref={containerRef} className={loading ? "hidden" : "py-4 border-b border-foreground/20"} />
+      {!loading && (
+        <button
+          onClick={handlePay}
+          disabled={paying}
+          className="w-full mt-6 py-4 bg-foreground text-[#f8f5f0] text-sm tracking-wider uppercase disabled:opacity-30 disabled:cursor-not-allowed hover:bg-foreground/90 transition-colors"
+        >
+          {paying ? t("processing") : t("payAmount", { amount: formatMoney(amount, intlLocale) })}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export function createStripeProvider({ publishableKey }: { publishableKey: string }): PaymentProvider {
+  return {
+    id: "stripe",
+    currencies: STRIPE_CURRENCIES,
+    render: (props) => <StripeCardForm {...props} publishableKey={publishableKey} />,
+  };
+}
@@ -0,0 +1,71 @@
+import type { ReactNode } from "react";
+import type { BookingDraft } from "@/lib/booking-api";
+import type { CurrencyCode } from "@/lib/currency";
+import type { Translator } from "@/lib/i18n";
+import type { Money } from "@/lib/money";
+import type { StayAddonSelection } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// The booking request a payment is for. Providers send it to their own
+// route so the server prices it; the amount below is for display only.
+export type PaymentOrder = (
+  | {
+      kind: "stay";
+      itemId: string;
+      checkIn: string;
+      checkOut: string;
+      nights: number;
+      guests: number;
+      adults?: number;
+      childAges?: number[];
+      infants?: number;
+      units: number;
+      addons?: StayAddonSelection[];
+    }
+  | {
+      kind: "dayTrip";
+      tripSlug: string;
+      tripDate: string;
+      departureTime?: string;
+      guests: number;
+      addonIds: string[];
+      pickupPointId?: string;
+      pickupZone?: string;
+    }
+) & {
+  // Kept by the server with the payment, so the booking can still be saved
+  // from the provider's webhook if the browser never posts it
+  idempotencyKey?: string;
+  booking?: BookingDraft;
+};
+
+export interface PaymentResult {
+  provider: string;
+  transactionId: string;
+  charged: boolean; // Money was taken now; false for pay at the property and the mock
+}
+
+// The amount's currency and `exchangeRate` go to the provider's route with
+// the order, and to the booking route afterwards. Both charge at their own
+// current rate and only use the shown one to spot a change.
+export interface PaymentRenderProps {
+  order: PaymentOrder;
+  amount: Money;
+  exchangeRate: number; // Units of the amount's currency per 1 EUR
+  t: Translator["t"]; // The modal's locale, for the provider's own labels
+  intlLocale: string; // For formatMoney
+  onSuccess: (result: PaymentResult) => void;
+  onError: (err: unknown) => void;
+}
+
+// Passed to BookingModal / DayTripBookingModal as `paymentProvider`. Create
+// it once (module scope or useMemo) so the payment UI is not re-initialised
+// on every render.
+export interface PaymentProvider {
+  id: string;
+  currencies?: CurrencyCode[]; // What it can take payment in; others are charged in EUR (the default)
+  render: (props: PaymentRenderProps) => ReactNode;
+}
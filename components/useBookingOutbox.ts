@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect } from "react";
+import { bookingSubmissionOf } from "@/lib/booking-api";
+import type {
+  BookingResponse,
+  BookingSubmission,
+  DayTripBookingRequest,
+  StayBookingRequest,
+} from "@/lib/booking-api";
+
+const STORAGE_KEY = "slowworld:booking-outbox";
+const RETRY_DELAYS_MS = [1000, 2000, 4000, 8000];
+const MAX_QUEUED_MS = 7 * 24 * 60 * 60 * 1000; // Then only the payment webhook tries
+
+// ============================================================================
+// BOOKING OUTBOX
+// ============================================================================
+// A paid booking is written to localStorage before it is posted, then posted
+// again with the same idempotencyKey (so the server only saves it once)
+// until the server answers. Bookings still queued when the page closed are
+// sent the next time a modal opens or the browser comes back online. If the
+// guest never returns, the payment webhook saves the booking on the server.
+
+interface OutboxEntry {
+  url: string;
+  body: (StayBookingRequest | DayTripBookingRequest) & { idempotencyKey: string };
+  queuedAt: string;
+}
+
+// e.g. "b4f0c2a8-…"; one per payment
+export function newIdempotencyKey() {
+  return crypto.randomUUID();
+}
+
+function readOutbox(): OutboxEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]) {
+  try {
+    if (entries.length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Booking outbox unavailable:", error);
+  }
+}
+
+function removeFromOutbox(idempotencyKey: string) {
+  writeOutbox(readOutbox().filter((entry) => entry.body.idempotencyKey !== idempotencyKey));
+}
+
+// A network error is worth another try, like the answers bookingSubmissionOf
+// queues. Callers log refusals, so each is logged once.
+async function post(entry: OutboxEntry): Promise<BookingSubmission> {
+  let response: Response;
+  try {
+    response = await fetch(entry.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry.body),
+    });
+  } catch (error) {
+    console.error("Booking request failed:", error);
+    return { status: "queued" };
+  }
+
+  const result: BookingResponse | null = await response.json().catch(() => null);
+  return bookingSubmissionOf(response.status, result);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Queue a paid booking and post it, retrying a few times with backoff
+export async function submitBooking(url: string, body: OutboxEntry["body"]): Promise<BookingSubmission> {
+  const entry: OutboxEntry = { url, body, queuedAt: new Date().toISOString() };
+  writeOutbox([...readOutbox().filter((e) => e.body.idempotencyKey !== body.idempotencyKey), entry]);
+
+  let submission = await post(entry);
+  for (const delay of RETRY_DELAYS_MS) {
+    if (submission.status !== "queued") break;
+    await wait(delay);
+    submission = await post(entry);
+  }
+
+  if (submission.status !== "queued") removeFromOutbox(body.idempotencyKey);
+  return submission;
+}
+
+let flushing = false;
+
+// Post every queued booking once, and give up on those queued for a week
+export async function flushBookingOutbox() {
+  if (flushing) return;
+  flushing = true;
+  try {
+    for (const entry of readOutbox()) {
+      if (Date.now() - Date.parse(entry.queuedAt) > MAX_QUEUED_MS) {
+        console.error("Queued booking expired:", entry.body.idempotencyKey);
+        removeFromOutbox(entry.body.idempotencyKey);
+        continue;
+      }
+      const submission = await post(entry);
+      if (submission.status === "refused") {
+        console.error("Queued booking refused:", entry.body.idempotencyKey, submission.result.error);
+      }
+      if (submission.status !== "queued") removeFromOutbox(entry.body.idempotencyKey);
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+// Flush the outbox while `active` (the modal is open) and whenever the
+// browser comes back online
+export function useBookingOutbox(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    flushBookingOutbox();
+    const handleOnline = () => flushBookingOutbox();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [active]);
+}
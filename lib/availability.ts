@@ -0,0 +1,207 @@
+import { addDays } from "@/lib/dates";
+import { blockedNights } from "@/lib/ical";
+import type { BlockedRange } from "@/lib/ical";
+import { DEFAULT_DEPARTURES_PER_DAY, DEFAULT_SLOT_CAPACITY } from "@/lib/quote";
+import type { BookingItem, DayTrip, DepartureSlot, ICalFeed } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FeedRanges {
+  channel: string;
+  ranges: BlockedRange[];
+}
+
+export interface ChannelBooking extends BlockedRange {
+  channel: string;
+}
+
+// Two channels have sold the same nights: a double-booking to resolve
+export interface AvailabilityConflict {
+  start: string;
+  end: string; // exclusive
+  bookings: ChannelBooking[];
+}
+
+// Units booked per night; a night that is missing has every unit free
+export type BookedUnits = Record<string, number>;
+
+// Day-trip bookings per date, or per slot for trips with departure times
+// (see departureKey); each booking takes one departure
+export type BookedDepartures = Record<string, number>;
+
+export interface MergedAvailability {
+  bookedDates: { start: string; end: string; channel: string }[];
+  blockedNights: string[]; // Nights with no unit left
+  bookedUnits: BookedUnits;
+  conflicts: AvailabilityConflict[];
+}
+
+// ============================================================================
+// FEEDS
+// ============================================================================
+
+// Every feed an item declares, with the single-URL shorthand folded in
+export function feedsOf(item: BookingItem): ICalFeed[] {
+  const feeds = [...(item.iCalFeeds ?? [])];
+  if (item.iCalURL && !feeds.some((feed) => feed.url === item.iCalURL)) {
+    feeds.unshift({ url: item.iCalURL, channel: "ical" });
+  }
+  return feeds;
+}
+
+// Query string for /api/ical: url and channel are repeated in feed order
+export function feedsQuery(feeds: ICalFeed[], units = 1, timeZone?: string) {
+  const params = new URLSearchParams();
+  feeds.forEach((feed) => {
+    params.append("url", feed.url);
+    params.append("channel", feed.channel);
+  });
+  if (units > 1) params.set("units", String(units));
+  if (timeZone) params.set("tz", timeZone);
+  return params.toString();
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+export function findConflicts(feeds: FeedRanges[]): AvailabilityConflict[] {
+  const bookings: ChannelBooking[] = feeds.flatMap(({ channel, ranges }) =>
+    ranges.map((range) => ({ ...range, channel }))
+  );
+  const conflicts: AvailabilityConflict[] = [];
+
+  bookings.forEach((a, i) => {
+    bookings.slice(i + 1).forEach((b) => {
+      // The same booking re-exported by another channel is not a conflict
+      if (a.channel === b.channel || (a.uid && a.uid === b.uid)) return;
+      const start = a.start > b.start ? a.start : b.start;
+      const end = a.end < b.end ? a.end : b.end;
+      if (start < end) conflicts.push({ start, end, bookings: [a, b] });
+    });
+  });
+
+  return conflicts.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+}
+
+// Every booking in every feed takes one unit for each of its nights
+export function countBookedUnits(ranges: BlockedRange[], window: { from: string; to: string }): BookedUnits {
+  const booked: BookedUnits = {};
+  ranges.forEach((range) => {
+    blockedNights([range], window).forEach((night) => {
+      booked[night] = (booked[night] ?? 0) + 1;
+    });
+  });
+  return booked;
+}
+
+// Units booked across every channel, the nights with none left, and the
+// double-bookings. With several units, overlaps are only conflicts on nights
+// booked more times than there are units.
+export function mergeAvailability(
+  feeds: FeedRanges[],
+  window: { from: string; to: string },
+  units = 1
+): MergedAvailability {
+  const ranges = feeds.flatMap(({ channel, ranges }) => ranges.map((range) => ({ ...range, channel })));
+  const bookedUnits = countBookedUnits(ranges, window);
+  const nights = Object.keys(bookedUnits).sort();
+  const overbooked = nights.filter((night) => bookedUnits[night] > units);
+
+  return {
+    bookedDates: ranges.map(({ start, end, channel }) => ({ start, end, channel })),
+    blockedNights: nights.filter((night) => bookedUnits[night] >= units),
+    bookedUnits,
+    conflicts:
+      units > 1
+        ? findConflicts(feeds).filter(({ start, end }) => overbooked.some((night) => night >= start && night < end))
+        : findConflicts(feeds),
+  };
+}
+
+// ============================================================================
+// STAY CHECKS
+// ============================================================================
+
+// The first blocked night after check-in. A stay may check out that morning
+// but no later, so it is the last selectable check-out date.
+export function latestCheckOut(checkIn: string, blockedNights: string[]): string | null {
+  return blockedNights.find((night) => night > checkIn) ?? null;
+}
+
+// How many nights in a row, up to `max`, are free from check-in
+export function freeNightsFrom(checkIn: string, blockedNights: string[], max: number) {
+  const blocked = new Set(blockedNights);
+  let nights = 0;
+  while (nights < max && !blocked.has(addDays(checkIn, nights))) nights++;
+  return nights;
+}
+
+// Nights with no unit left
+export function fullNights(bookedUnits: BookedUnits, maxUnits: number) {
+  return Object.keys(bookedUnits)
+    .filter((night) => bookedUnits[night] >= maxUnits)
+    .sort();
+}
+
+// The fewest units free on any night of a stay
+export function unitsLeftForStay(checkIn: string, nights: number, bookedUnits: BookedUnits, maxUnits: number) {
+  let left = maxUnits;
+  for (let i = 0; i < nights; i++) {
+    left = Math.min(left, maxUnits - (bookedUnits[addDays(checkIn, i)] ?? 0));
+  }
+  return Math.max(0, left);
+}
+
+// The nights of a stay without `units` units free; empty when it can be booked
+export function unavailableNightsOf(
+  checkIn: string,
+  nights: number,
+  units: number,
+  bookedUnits: BookedUnits,
+  maxUnits: number
+) {
+  const unavailable: string[] = [];
+  for (let i = 0; i < nights; i++) {
+    const night = addDays(checkIn, i);
+    if ((bookedUnits[night] ?? 0) + units > maxUnits) unavailable.push(night);
+  }
+  return unavailable;
+}
+
+// ============================================================================
+// DAY TRIP DEPARTURES
+// ============================================================================
+
+// Where a booking is counted: the date, or "2027-03-15T08:00" for a slot
+export function departureKey(date: string, time?: string) {
+  return time ? `${date}T${time}` : date;
+}
+
+// Departures still free on a date, across its slots, or in the slot
+// leaving at `time`
+export function departuresLeft(trip: DayTrip, date: string, bookedDepartures: BookedDepartures, time?: string) {
+  const slots = trip.slots ?? [];
+  if (slots.length === 0) {
+    const perDay = trip.departuresPerDay ?? DEFAULT_DEPARTURES_PER_DAY;
+    return Math.max(0, perDay - (bookedDepartures[date] ?? 0));
+  }
+
+  const leftIn = (slot: DepartureSlot) =>
+    Math.max(0, (slot.capacity ?? DEFAULT_SLOT_CAPACITY) - (bookedDepartures[departureKey(date, slot.time)] ?? 0));
+  if (time !== undefined) {
+    const slot = slots.find((s) => s.time === time);
+    return slot ? leftIn(slot) : 0;
+  }
+  return slots.reduce((left, slot) => left + leftIn(slot), 0);
+}
+
+// Dates with every departure booked
+export function soldOutDates(trip: DayTrip, bookedDepartures: BookedDepartures) {
+  const dates = new Set(Object.keys(bookedDepartures).map((key) => key.slice(0, 10)));
+  return Array.from(dates)
+    .filter((date) => departuresLeft(trip, date, bookedDepartures) === 0)
+    .sort();
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookingSubmissionOf, PAYMENT_PENDING } from "@/lib/booking-api";
+import type { BookingFailure } from "@/lib/booking-api";
+
+// How the booking outbox and the payment webhook read a booking route's answer
+describe("bookingSubmissionOf", () => {
+  it("keeps server errors, timeouts and rate limits for another try", () => {
+    [500, 502, 503, 408, 429].forEach((status) => {
+      const result: BookingFailure = { success: false, error: "Try again" };
+      assert.deepEqual(bookingSubmissionOf(status, result), { status: "queued" }, `${status}`);
+      assert.deepEqual(bookingSubmissionOf(status, null), { status: "queued" }, `${status} without a body`);
+    });
+  });
+
+  it("keeps a payment the provider has not completed yet for another try", () => {
+    const result: BookingFailure = { success: false, error: "Payment has not been completed", code: PAYMENT_PENDING };
+    assert.deepEqual(bookingSubmissionOf(402, result), { status: "queued" });
+  });
+
+  it("gives up on any other refusal", () => {
+    const refusals: [number, BookingFailure][] = [
+      [402, { success: false, error: "Payment was declined" }],
+      [409, { success: false, error: "This date is sold out", soldOutDates: ["2027-03-01"] }],
+      [400, { success: false, error: "email is required" }],
+      [422, { success: false, error: "Select a date" }],
+    ];
+    refusals.forEach(([status, result]) => {
+      assert.deepEqual(bookingSubmissionOf(status, result), { status: "refused", result }, `${status}`);
+    });
+  });
+
+  it("gives up on an answer that is not a booking response", () => {
+    assert.deepEqual(bookingSubmissionOf(404, null), {
+      status: "refused",
+      result: { success: false, error: "Unreadable booking response (404)" },
+    });
+    assert.equal(bookingSubmissionOf(200, null).status, "refused");
+  });
+
+  it("reports a saved booking", () => {
+    const result = { success: true as const, bookingId: "SW-4F7A19C2D0" };
+    assert.deepEqual(bookingSubmissionOf(200, result), { status: "saved", result });
+  });
+});
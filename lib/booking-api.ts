@@ -0,0 +1,321 @@
+// ============================================================================
+// BOOKING API CONTRACT
+// ============================================================================
+// Bodies of POST /api/bookings and POST /api/day-trip-bookings and the
+// checks the route handlers run on them before quoting. The modals build
+// their payloads from these types, so keep this file free of React and
+// server-only imports.
+
+import { CURRENCIES, isCurrency } from "@/lib/currency";
+import type { CurrencyCode } from "@/lib/currency";
+import type { QuoteIssue } from "@/lib/quote";
+import type { StayAddonSelection } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StayBookingRequest {
+  itemId: string;
+  itemName?: string;
+  checkIn: string;
+  checkOut?: string; // Empty when the item books an arrival date only
+  nights?: number;
+  guests: number;
+  adults?: number; // With childAges and infants when the item has guestRules
+  childAges?: number[];
+  infants?: number;
+  units?: number;
+  addons?: StayAddonSelection[];
+  totalEUR: string; // Decimal, e.g. "150.50"; checked against the server quote
+  currency?: CurrencyCode; // What the guest paid in; EUR by default
+  exchangeRate?: number; // The rate the guest was shown
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  message?: string;
+  idempotencyKey?: string; // One per payment; a retry with the same key returns the saved booking
+  paymentProvider?: string;
+  transactionId?: string;
+  paypalTransactionId?: string; // Sent by older clients instead of the two above
+}
+
+export interface DayTripBookingRequest {
+  tripSlug: string;
+  tripTitle?: string;
+  tripDate: string;
+  departureTime?: string;
+  guests: number;
+  addonIds?: string[];
+  pickupLocation?: string; // Required unless pickupPointId is given
+  pickupPointId?: string;
+  pickupZone?: string;
+  totalEUR: string;
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+  guestName: string;
+  guestEmail: string;
+  guestPhone?: string;
+  notes?: string;
+  idempotencyKey?: string;
+  paymentProvider?: string;
+  transactionId?: string;
+  paypalTransactionId?: string;
+  // Shown to the guest and ignored by the route, which prices from the trip
+  vehicle?: string;
+  addons?: string;
+  basePriceMAD?: number;
+  addonsPriceMAD?: number;
+  totalMAD?: number;
+}
+
+type PaymentFields = "paymentProvider" | "transactionId" | "paypalTransactionId";
+
+// A booking request before it is paid for. Sent with the payment order so the
+// server can save the booking itself if the browser never posts it.
+export type BookingDraft = Omit<StayBookingRequest, PaymentFields> | Omit<DayTripBookingRequest, PaymentFields>;
+
+// A body field that failed its check, e.g. { field: "email", message: "email must be an email address" }
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// 402 `code` of a payment the provider has not completed yet. Only these
+// are worth posting again; any other 402 is final.
+export const PAYMENT_PENDING = "payment_pending";
+
+export interface BookingSuccess {
+  success: true;
+  bookingId?: string;
+}
+
+// What went wrong; each status adds its own detail (see the README table)
+export interface BookingFailure {
+  success: false;
+  error: string;
+  fieldErrors?: FieldError[]; // 400: the body failed validation
+  issues?: QuoteIssue[]; // 422: the booking cannot be quoted
+  totalEUR?: string; // 409: the total the server would charge, e.g. "150.50"
+  unavailableNights?: string[]; // 409
+  soldOutDates?: string[]; // 409
+  soldOutDepartures?: string[]; // 409
+  exchangeRate?: number; // 409: the current rate
+  code?: typeof PAYMENT_PENDING; // 402
+}
+
+export type BookingResponse = BookingSuccess | BookingFailure;
+
+// What a booking route's answer means for a paid booking
+export type BookingSubmission =
+  | { status: "saved"; result: BookingSuccess }
+  | { status: "refused"; result: BookingFailure } // The server answered and will not save it
+  | { status: "queued" }; // No answer yet; it is worth posting again
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+// ============================================================================
+// FIELD READERS
+// ============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const MAX_TEXT_LENGTH = 2000;
+
+// Reads fields off a body, collecting an error for each one that does not
+// fit. Strings are trimmed; optional fields that are missing stay undefined.
+function fieldReader(body: Record<string, unknown>, errors: FieldError[]) {
+  const fail = (field: string, message: string) => {
+    errors.push({ field, message: `${field} ${message}` });
+    return undefined;
+  };
+  const missing = (field: string) => body[field] === undefined || body[field] === null;
+
+  const optionalString = (field: string) => {
+    if (missing(field)) return undefined;
+    const value = body[field];
+    if (typeof value !== "string") return fail(field, "must be a string");
+    if (value.length > MAX_TEXT_LENGTH) return fail(field, `must be at most ${MAX_TEXT_LENGTH} characters`);
+    return value.trim();
+  };
+
+  const string = (field: string) => {
+    if (missing(field) || body[field] === "") return fail(field, "is required") ?? "";
+    return optionalString(field) ?? "";
+  };
+
+  const optionalInteger = (field: string) => {
+    if (missing(field)) return undefined;
+    const value = body[field];
+    return typeof value === "number" && Number.isInteger(value) ? value : fail(field, "must be a whole number");
+  };
+
+  const integer = (field: string) => (missing(field) ? fail(field, "is required") : optionalInteger(field)) ?? 0;
+
+  const optionalNumber = (field: string) => {
+    if (missing(field)) return undefined;
+    const value = body[field];
+    return typeof value === "number" && Number.isFinite(value) ? value : fail(field, "must be a number");
+  };
+
+  // Decimal strings, or numbers from older clients
+  const amount = (field: string) => {
+    if (missing(field)) return fail(field, "is required") ?? "";
+    const value = body[field];
+    const text = typeof value === "number" && Number.isFinite(value) ? String(value) : value;
+    return typeof text === "string" && AMOUNT_PATTERN.test(text.trim())
+      ? text.trim()
+      : fail(field, "must be a decimal amount") ?? "";
+  };
+
+  const optionalCurrency = (field: string): CurrencyCode | undefined => {
+    const value = optionalString(field);
+    if (value === undefined || isCurrency(value)) return value;
+    return fail(field, `must be one of ${CURRENCIES.join(", ")}`);
+  };
+
+  const email = (field: string) => {
+    const value = string(field);
+    return value && !EMAIL_PATTERN.test(value) ? fail(field, "must be an email address") ?? "" : value;
+  };
+
+  const optionalArray = <T>(field: string, readItem: (item: unknown, index: number) => T | undefined) => {
+    if (missing(field)) return undefined;
+    const value = body[field];
+    if (!Array.isArray(value)) return fail(field, "must be a list");
+    const items = value.map(readItem);
+    return items.every((item) => item !== undefined) ? (items as T[]) : undefined;
+  };
+
+  return {
+    fail,
+    string,
+    optionalString,
+    integer,
+    optionalInteger,
+    optionalNumber,
+    optionalCurrency,
+    amount,
+    email,
+    optionalArray,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Drop the optional fields that were not sent
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// Checks the shape of a stay booking. Dates, guest counts and add-ons are
+// checked against the item by the quote afterwards.
+export function validateStayBookingRequest(body: unknown): Validation<StayBookingRequest> {
+  if (!isRecord(body)) return { ok: false, errors: [{ field: "body", message: "body must be a JSON object" }] };
+  const errors: FieldError[] = [];
+  const read = fieldReader(body, errors);
+
+  const value = compact<StayBookingRequest>({
+    itemId: read.string("itemId"),
+    itemName: read.optionalString("itemName"),
+    checkIn: read.string("checkIn"),
+    checkOut: read.optionalString("checkOut"),
+    nights: read.optionalInteger("nights"),
+    guests: read.integer("guests"),
+    adults: read.optionalInteger("adults"),
+    childAges: read.optionalArray("childAges", (age, i) =>
+      typeof age === "number" && Number.isInteger(age) ? age : read.fail(`childAges[${i}]`, "must be a whole number")
+    ),
+    infants: read.optionalInteger("infants"),
+    units: read.optionalInteger("units"),
+    addons: read.optionalArray("addons", (addon, i): StayAddonSelection | undefined => {
+      if (!isRecord(addon) || typeof addon.id !== "string") return read.fail(`addons[${i}]`, "must have an id");
+      if (addon.quantity === undefined) return { id: addon.id.trim() };
+      if (typeof addon.quantity !== "number" || !Number.isInteger(addon.quantity)) {
+        return read.fail(`addons[${i}].quantity`, "must be a whole number");
+      }
+      return { id: addon.id.trim(), quantity: addon.quantity };
+    }),
+    totalEUR: read.amount("totalEUR"),
+    currency: read.optionalCurrency("currency"),
+    exchangeRate: read.optionalNumber("exchangeRate"),
+    firstName: read.string("firstName"),
+    lastName: read.string("lastName"),
+    email: read.email("email"),
+    phone: read.optionalString("phone"),
+    message: read.optionalString("message"),
+    idempotencyKey: read.optionalString("idempotencyKey"),
+    paymentProvider: read.optionalString("paymentProvider"),
+    transactionId: read.optionalString("transactionId"),
+    paypalTransactionId: read.optionalString("paypalTransactionId"),
+  });
+
+  if (!value.transactionId && !value.paypalTransactionId) read.fail("transactionId", "is required");
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+export function validateDayTripBookingRequest(body: unknown): Validation<DayTripBookingRequest> {
+  if (!isRecord(body)) return { ok: false, errors: [{ field: "body", message: "body must be a JSON object" }] };
+  const errors: FieldError[] = [];
+  const read = fieldReader(body, errors);
+
+  const value = compact<DayTripBookingRequest>({
+    tripSlug: read.string("tripSlug"),
+    tripTitle: read.optionalString("tripTitle"),
+    tripDate: read.string("tripDate"),
+    departureTime: read.optionalString("departureTime"),
+    guests: read.integer("guests"),
+    addonIds: read.optionalArray("addonIds", (id, i) =>
+      typeof id === "string" ? id.trim() : read.fail(`addonIds[${i}]`, "must be a string")
+    ),
+    pickupLocation: read.optionalString("pickupLocation"),
+    pickupPointId: read.optionalString("pickupPointId"),
+    pickupZone: read.optionalString("pickupZone"),
+    totalEUR: read.amount("totalEUR"),
+    currency: read.optionalCurrency("currency"),
+    exchangeRate: read.optionalNumber("exchangeRate"),
+    guestName: read.string("guestName"),
+    guestEmail: read.email("guestEmail"),
+    guestPhone: read.optionalString("guestPhone"),
+    notes: read.optionalString("notes"),
+    idempotencyKey: read.optionalString("idempotencyKey"),
+    paymentProvider: read.optionalString("paymentProvider"),
+    transactionId: read.optionalString("transactionId"),
+    paypalTransactionId: read.optionalString("paypalTransactionId"),
+    vehicle: read.optionalString("vehicle"),
+    addons: read.optionalString("addons"),
+    basePriceMAD: read.optionalNumber("basePriceMAD"),
+    addonsPriceMAD: read.optionalNumber("addonsPriceMAD"),
+    totalMAD: read.optionalNumber("totalMAD"),
+  });
+
+  if (!value.pickupLocation && !value.pickupPointId) read.fail("pickupLocation", "is required");
+  if (!value.transactionId && !value.paypalTransactionId) read.fail("transactionId", "is required");
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+// ============================================================================
+// ANSWERS
+// ============================================================================
+
+// Server errors, timeouts, rate limits and a 402 marked `payment_pending`
+// (the provider does not show the payment as complete yet) are worth another
+// try; any other answer is final, including another 402 and one that is not
+// a booking response. Used by the booking outbox and the payment webhook.
+export function bookingSubmissionOf(status: number, result: BookingResponse | null): BookingSubmission {
+  if (status >= 500 || status === 408 || status === 429) return { status: "queued" };
+  if (!result || typeof result.success !== "boolean") {
+    return { status: "refused", result: { success: false, error: `Unreadable booking response (${status})` } };
+  }
+  if (result.success) return { status: "saved", result };
+  return status === 402 && result.code === PAYMENT_PENDING ? { status: "queued" } : { status: "refused", result };
+}
@@ -0,0 +1,83 @@
+// ============================================================================
+// CURRENCIES
+// ============================================================================
+// Prices are set and quoted in EUR. Other currencies are shown by converting
+// the EUR amounts with one rate per currency, and a booking is charged in the
+// guest's currency when the payment provider can settle it, in EUR otherwise.
+
+import { convertMoney, MINOR_DIGITS, toDecimal } from "@/lib/money";
+import type { Money } from "@/lib/money";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CurrencyCode = "EUR" | "MAD" | "USD" | "GBP";
+
+// Units of each currency per 1 EUR
+export interface ExchangeRates {
+  base: "EUR";
+  rates: Partial<Record<CurrencyCode, number>>;
+  asOf: string; // Date or timestamp the rates were published
+}
+
+// What a guest pays for a booking, and the rate it was worked out at
+export interface Charge {
+  amount: Money;
+  exchangeRate: number; // Units of the amount's currency per 1 EUR
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BASE_CURRENCY: CurrencyCode = "EUR";
+
+export const CURRENCIES: CurrencyCode[] = ["EUR", "MAD", "USD", "GBP"];
+
+// What each provider can take payments in. PayPal does not settle MAD.
+export const PAYPAL_CURRENCIES: CurrencyCode[] = ["EUR", "USD", "GBP"];
+export const STRIPE_CURRENCIES: CurrencyCode[] = ["EUR", "MAD", "USD", "GBP"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && CURRENCIES.includes(value as CurrencyCode);
+}
+
+// Units of `currency` per 1 EUR, or null if the rates do not cover it
+export function rateOf(rates: ExchangeRates | null | undefined, currency: CurrencyCode) {
+  if (currency === BASE_CURRENCY) return 1;
+  const rate = rates?.rates[currency];
+  return typeof rate === "number" && rate > 0 ? rate : null;
+}
+
+// A EUR total in `currency`, rounded once. A list price set in that currency
+// (e.g. a day trip's MAD price) is charged as it is instead of being converted.
+export function chargeFor(totalEUR: Money, currency: CurrencyCode, rate: number, listPrice?: Money): Charge {
+  if (listPrice && listPrice.currency === currency && currency !== BASE_CURRENCY) {
+    const effectiveRate =
+      totalEUR.minor > 0 ? Math.round((toDecimal(listPrice) / toDecimal(totalEUR)) * 1e6) / 1e6 : rate;
+    return { amount: listPrice, exchangeRate: effectiveRate };
+  }
+  return { amount: convertMoney(totalEUR, rate, currency), exchangeRate: rate };
+}
+
+// The currency a payment is taken in: the guest's own if the provider can
+// settle it, EUR otherwise
+export function settlementCurrency(currency: CurrencyCode, supported: CurrencyCode[] = [BASE_CURRENCY]): CurrencyCode {
+  return supported.includes(currency) ? currency : BASE_CURRENCY;
+}
+
+// The one formatter for amounts shown to guests; whole amounts drop the cents
+export function formatMoney(amount: Money, locale = "en-US") {
+  const digits = MINOR_DIGITS[amount.currency];
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: amount.currency,
+    minimumFractionDigits: amount.minor % 10 ** digits === 0 ? 0 : digits,
+    maximumFractionDigits: digits,
+  }).format(toDecimal(amount));
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { dateInZone, earliestDateWithNotice, zonedTimeToEpoch } from "@/lib/dates";
+
+// Morocco moves from UTC+1 to UTC+0 for Ramadan: in 2027 at 03:00 on Feb 7
+// (back to 02:00) until 02:00 on Mar 14 (forward to 03:00). The EU moves to
+// summer time at 01:00 UTC on Mar 28 2027 and back at 01:00 UTC on Oct 31.
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => Date.parse(iso);
+const at = (hour: number, minute = 0) => ({ hour, minute, second: 0 });
+
+describe("zonedTimeToEpoch", () => {
+  it("uses Morocco's standard offset outside Ramadan", () => {
+    assert.equal(zonedTimeToEpoch("2027-02-06", at(12), "Africa/Casablanca"), utc("2027-02-06T11:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-03-20", at(12), "Africa/Casablanca"), utc("2027-03-20T11:00:00Z"));
+  });
+
+  it("uses UTC+0 in Morocco during Ramadan", () => {
+    assert.equal(zonedTimeToEpoch("2027-02-20", at(12), "Africa/Casablanca"), utc("2027-02-20T12:00:00Z"));
+  });
+
+  it("reads midnight on both sides of the Ramadan switch", () => {
+    assert.equal(zonedTimeToEpoch("2027-02-07", undefined, "Africa/Casablanca"), utc("2027-02-06T23:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-02-08", undefined, "Africa/Casablanca"), utc("2027-02-08T00:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-03-15", undefined, "Africa/Casablanca"), utc("2027-03-14T23:00:00Z"));
+  });
+
+  it("moves times skipped by a clock change forward by the gap", () => {
+    // 02:30 does not exist on these dates; it is read as 03:30 local time
+    assert.equal(zonedTimeToEpoch("2027-03-14", at(2, 30), "Africa/Casablanca"), utc("2027-03-14T02:30:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-03-28", at(2, 30), "Europe/Paris"), utc("2027-03-28T01:30:00Z"));
+  });
+
+  it("picks the later of two repeated times", () => {
+    assert.equal(zonedTimeToEpoch("2027-02-07", at(2, 30), "Africa/Casablanca"), utc("2027-02-07T02:30:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-10-31", at(2, 30), "Europe/Paris"), utc("2027-10-31T01:30:00Z"));
+  });
+
+  it("follows EU summer time", () => {
+    assert.equal(zonedTimeToEpoch("2027-01-15", at(12), "Europe/Paris"), utc("2027-01-15T11:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-07-15", at(12), "Europe/Paris"), utc("2027-07-15T10:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-03-28", at(12), "Europe/Paris"), utc("2027-03-28T10:00:00Z"));
+    assert.equal(zonedTimeToEpoch("2027-10-31", at(12), "Europe/Paris"), utc("2027-10-31T11:00:00Z"));
+  });
+});
+
+describe("dateInZone", () => {
+  it("rolls over at local midnight in Morocco", () => {
+    assert.equal(dateInZone(utc("2027-02-06T23:30:00Z"), "Africa/Casablanca"), "2027-02-07");
+    assert.equal(dateInZone(utc("2027-03-20T23:30:00Z"), "Africa/Casablanca"), "2027-03-21");
+  });
+
+  it("keeps the UTC date during Ramadan", () => {
+    assert.equal(dateInZone(utc("2027-02-20T23:30:00Z"), "Africa/Casablanca"), "2027-02-20");
+  });
+
+  it("follows EU summer time", () => {
+    assert.equal(dateInZone(utc("2027-03-27T23:30:00Z"), "Europe/Paris"), "2027-03-28");
+    assert.equal(dateInZone(utc("2027-07-15T22:30:00Z"), "Europe/Paris"), "2027-07-16");
+    assert.equal(dateInZone(utc("2027-10-31T22:30:00Z"), "Europe/Paris"), "2027-10-31");
+  });
+
+  it("stays on the previous day west of Greenwich", () => {
+    assert.equal(dateInZone(utc("2027-03-08T03:00:00Z"), "America/New_York"), "2027-03-07");
+  });
+});
+
+describe("earliestDateWithNotice", () => {
+  it("counts the hour Morocco gives back when Ramadan starts", () => {
+    // Feb 6 00:15 local + 48 h is Feb 7 23:15 local, not Feb 8 00:15
+    assert.equal(earliestDateWithNotice(48, "Africa/Casablanca", utc("2027-02-05T23:15:00Z")), "2027-02-07");
+  });
+
+  it("counts the hour Morocco skips when Ramadan ends", () => {
+    // Mar 12 23:30 local + 48 h is Mar 15 00:30 local
+    assert.equal(earliestDateWithNotice(48, "Africa/Casablanca", utc("2027-03-12T23:30:00Z")), "2027-03-15");
+  });
+
+  it("counts the EU clock changes", () => {
+    assert.equal(earliestDateWithNotice(48, "Europe/Paris", utc("2027-03-26T22:30:00Z")), "2027-03-29");
+    assert.equal(earliestDateWithNotice(48, "Europe/Paris", utc("2027-10-29T22:30:00Z")), "2027-10-31");
+  });
+
+  it("is today with no notice", () => {
+    const now = utc("2027-02-20T12:00:00Z");
+    assert.equal(earliestDateWithNotice(0, "Africa/Casablanca", now), "2027-02-20");
+    assert.equal(earliestDateWithNotice(12, "Africa/Casablanca", now - 12 * HOUR), "2027-02-20");
+  });
+});
@@ -0,0 +1,198 @@
+// ============================================================================
+// PLAIN DATES
+// ============================================================================
+// Calendar dates as "YYYY-MM-DD" strings in the property's time zone. They
+// never pass through a local-time Date, so a guest in New York and a server
+// in UTC see the same day for the same date. Only "today" and cutoffs depend
+// on the clock, and those are read in the property time zone.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TIME_ZONE = "Africa/Casablanca";
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ============================================================================
+// DATE ARITHMETIC
+// ============================================================================
+
+export function isPlainDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+// month is 1-12
+export function plainDate(year: number, month: number, day: number) {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function dateToDays(date: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+export function daysToDate(days: number) {
+  const d = new Date(days * DAY_MS);
+  return plainDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+export function addDays(date: string, days: number) {
+  return daysToDate(dateToDays(date) + days);
+}
+
+// Nights between two dates (negative if `to` is earlier)
+export function daysBetween(from: string, to: string) {
+  return dateToDays(to) - dateToDays(from);
+}
+
+// 0 = Sunday
+export function weekdayOf(date: string) {
+  return new Date(dateToDays(date) * DAY_MS).getUTCDay();
+}
+
+// Number of days in a month (1-12)
+export function monthLength(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// The first day of the month `months` after the one `date` is in
+export function addMonths(date: string, months: number) {
+  const [y, m] = date.split("-").map(Number);
+  const index = y * 12 + (m - 1) + months;
+  return plainDate(Math.floor(index / 12), (index % 12) + 1, 1);
+}
+
+// The same day `months` later, clamped to the month's last day (Mar 31 -> Feb 28)
+export function sameDayInMonth(date: string, months: number) {
+  const [y, m] = addMonths(date, months).split("-").map(Number);
+  return plainDate(y, m, Math.min(Number(date.slice(8, 10)), monthLength(y, m)));
+}
+
+// Where a key press moves a calendar's focus from `date`, or null if the
+// key does not navigate. Left/right follow the reading direction; Home/End
+// go to the ends of the week; PageUp/PageDown move a month (Shift: a year).
+export function dateForKey(
+  date: string,
+  key: string,
+  { weekStartsOn = 0, rtl = false, shiftKey = false }: { weekStartsOn?: number; rtl?: boolean; shiftKey?: boolean } = {}
+) {
+  const column = (weekdayOf(date) - weekStartsOn + 7) % 7;
+  switch (key) {
+    case "ArrowLeft":
+      return addDays(date, rtl ? 1 : -1);
+    case "ArrowRight":
+      return addDays(date, rtl ? -1 : 1);
+    case "ArrowUp":
+      return addDays(date, -7);
+    case "ArrowDown":
+      return addDays(date, 7);
+    case "Home":
+      return addDays(date, -column);
+    case "End":
+      return addDays(date, 6 - column);
+    case "PageUp":
+      return sameDayInMonth(date, shiftKey ? -12 : -1);
+    case "PageDown":
+      return sameDayInMonth(date, shiftKey ? 12 : 1);
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in a time zone
+export function zonedParts(epochMs: number, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+function zoneOffsetMs(epochMs: number, timeZone: string) {
+  const p = zonedParts(epochMs, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(epochMs / 1000) * 1000;
+}
+
+// The instant a wall-clock time on a date in `timeZone` refers to
+export function zonedTimeToEpoch(
+  date: string,
+  time: { hour: number; minute: number; second: number } | undefined,
+  timeZone: string
+) {
+  const [y, m, d] = date.split("-").map(Number);
+  const { hour = 0, minute = 0, second = 0 } = time ?? {};
+  const wall = Date.UTC(y, m - 1, d, hour, minute, second);
+
+  // Two passes settle DST transitions
+  let epoch = wall - zoneOffsetMs(wall, timeZone);
+  epoch = wall - zoneOffsetMs(epoch, timeZone);
+  return epoch;
+}
+
+// The calendar date an instant falls on in a time zone
+export function dateInZone(epochMs: number, timeZone: string) {
+  const p = zonedParts(epochMs, timeZone);
+  return plainDate(p.year, p.month, p.day);
+}
+
+export function todayIn(timeZone: string) {
+  return dateInZone(Date.now(), timeZone);
+}
+
+// The property-local date `hours` from now: the earliest date that can be
+// booked with that much notice, e.g. 48 hours for a day trip
+export function earliestDateWithNotice(hours: number, timeZone: string, now = Date.now()) {
+  return dateInZone(now + hours * 60 * 60 * 1000, timeZone);
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+// Format a plain date without shifting it into the viewer's time zone
+export function formatPlainDate(
+  date: string,
+  locale = "en-US",
+  options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" }
+) {
+  if (!isPlainDate(date)) return "";
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: "UTC" }).format(new Date(dateToDays(date) * DAY_MS));
+}
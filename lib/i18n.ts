@@ -0,0 +1,733 @@
+import { addDays, formatPlainDate } from "@/lib/dates";
+import type { QuoteIssueCode } from "@/lib/quote";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Locale = "en" | "fr" | "es" | "ar";
+
+// A message with a form per plural category of the locale ("one", "few"...),
+// chosen from the `count` value. "other" is the fallback.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageValues = Record<string, string | number>;
+
+export interface Catalogue {
+  intlLocale: string; // Used for Intl dates, numbers and plural rules
+  dir: "ltr" | "rtl";
+  weekStartsOn: number; // 0 = Sunday
+  weekdayStyle: "short" | "narrow"; // Calendar column headers
+  messages: Messages;
+  issues: Record<QuoteIssueCode, Message>;
+}
+
+export interface Translator {
+  locale: Locale;
+  intlLocale: string;
+  dir: "ltr" | "rtl";
+  weekStartsOn: number;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  // A quote issue in the guest's language; `message` is the fallback
+  issue: (issue: { code: QuoteIssueCode; message?: string; values?: MessageValues }) => string;
+  formatDate: (date: string) => string;
+  formatLongDate: (date: string) => string; // e.g. "Monday, March 1, 2027", for screen readers
+  monthLabel: (monthStart: string) => string; // e.g. "janvier 2026"
+  // Names from the first day of the week; short (or narrow) unless "long" is asked for
+  weekdayLabels: (weekStartsOn: number, style?: "long") => string[];
+}
+
+// ============================================================================
+// CATALOGUES
+// ============================================================================
+
+const EN_MESSAGES = {
+  stepOf: "Step {step} of {total}",
+  selectDates: "Select dates",
+  selectArrival: "Select arrival",
+  yourDetails: "Your details",
+  payment: "Payment",
+  selected: "Selected",
+  unavailable: "Unavailable",
+  lowest: "Lowest",
+  restricted: "Restricted",
+  soldOut: "Sold out",
+  departureTime: "Departure time",
+  bookedNightsInStay: "Your stay can't include booked nights",
+  perNight: "{price} per night",
+  checkOutLimit: "The night of {date} is already booked, so check-out must be on or before that day.",
+  checkIn: "Check-in",
+  checkOut: "Check-out",
+  nights: "Nights",
+  guests: "Guests",
+  unitsLabel: "{unit}s",
+  unitsLeft: { one: "Only {count} {unit} left for these dates", other: "Only {count} {unit}s left for these dates" },
+  unitCount: { one: "{count} {unit}", other: "{count} {unit}s" },
+  nightCount: { one: "{count} night", other: "{count} nights" },
+  guestCount: { one: "{count} guest", other: "{count} guests" },
+  adults: "Adults",
+  children: "Children",
+  infants: "Infants",
+  childrenHint: "Ages {min}–{max}",
+  infantsHint: "Under {age}",
+  childAge: "Age of child {number}",
+  adultCount: { one: "{count} adult", other: "{count} adults" },
+  childCount: { one: "{count} child", other: "{count} children" },
+  infantCount: { one: "{count} infant", other: "{count} infants" },
+  extraGuestCount: { one: "{count} extra guest", other: "{count} extra guests" },
+  extraGuests: { one: "Extra guest", other: "Extra guests" },
+  cityTax: "City tax",
+  total: "Total",
+  standardRate: "Standard rate",
+  previousMonth: "Previous month",
+  nextMonth: "Next month",
+  calendarHelp: "Use the arrow keys to move between days and Enter to choose one.",
+  today: "Today",
+  inStay: "In your stay",
+  decrease: "Decrease {label}",
+  increase: "Increase {label}",
+  currency: "Currency",
+  chargedIn: "You will be charged {amount}",
+  continue: "Continue",
+  back: "Back",
+  firstName: "First name",
+  lastName: "Last name",
+  email: "Email",
+  phone: "Phone",
+  optional: "(optional)",
+  specialRequests: "Special requests",
+  processingPayment: "Processing payment...",
+  processing: "Processing...",
+  sendNote: "Send us a note",
+  bookingConfirmed: "Booking Confirmed",
+  confirmationSent: "Thank you! A confirmation has been sent to {email}",
+  close: "Close",
+  saveFailed: "Failed to save booking. Please contact us.",
+  paymentFailed: "Payment failed. Please try again.",
+  paymentUnavailable: "Unable to load payment. Please refresh and try again.",
+  payAmount: "Pay {amount}",
+  payOnArrival: "Confirm — pay {amount} on arrival",
+  payAtPropertyNote: "Nothing is charged now. Settle your balance at the property.",
+  testPayment: "Test payment",
+  decline: "Decline",
+  dateRange: "{from} → {to}",
+  noticeRequired: { one: "Minimum {count} hour notice required", other: "Minimum {count} hours notice required" },
+  perCarNote: { one: "Price is per car, up to {count} guest", other: "Price is per car, up to {count} guests" },
+  vehicleNote: {
+    one: "Price is per vehicle ({vehicle}), up to {count} guest",
+    other: "Price is per vehicle ({vehicle}), up to {count} guests",
+  },
+  vehicle: "Vehicle",
+  enhanceYourDay: "Enhance Your Day",
+  noAddons: "No add-ons available for this tour.",
+  perPerson: "per person",
+  extras: "Extras",
+  enhanceYourStay: "Enhance Your Stay",
+  perStay: "per stay",
+  eachNight: "per night",
+  perGuestPerNight: "per guest per night",
+  perItem: "each",
+  detailsTitle: "Your Details",
+  fullName: "Full Name",
+  pickupLocation: "Pickup Location (hotel/riad name)",
+  pickup: "Pickup",
+  searchPickup: "Search riads and hotels",
+  pickupElsewhere: "Somewhere else",
+  pickupAddress: "Pickup address",
+  pickupZone: "Pickup area",
+  selectZone: "Select an area",
+  noPickupMatches: "No matches. Choose “Somewhere else” to type the address.",
+  meetingPoint: "Meeting point: {notes}",
+  change: "Change",
+  dayTrip: "Day trip",
+  thankYouName: "Thank you, {name}!",
+  confirmationNumber: "Confirmation #{id}",
+  checkEmail: "Check your email at {email} for details.",
+  saveFailedReference: "We could not save your booking. Please contact us with this reference: {reference}",
+  paymentReceived: "Payment Received",
+  bookingNotConfirmed: "We Could Not Confirm Your Booking",
+  savingBooking: "Saving Your Booking",
+  bookingQueued:
+    "We are still saving your booking and will keep trying, even if you close this page. If you do not receive a confirmation, contact us with your payment reference: {reference}",
+} satisfies Record<string, Message>;
+
+const CATALOGUES: Record<Locale, Catalogue> = {
+  en: {
+    intlLocale: "en-US",
+    dir: "ltr",
+    weekStartsOn: 0,
+    weekdayStyle: "short",
+    messages: EN_MESSAGES,
+    issues: {
+      checkInRequired: "Select a check-in date",
+      checkOutRequired: "Select a check-out date",
+      checkOutBeforeCheckIn: "Check-out must be after check-in",
+      closedToArrival: "No arrivals on this day",
+      closedToDeparture: "No departures on this day",
+      minStay: {
+        one: "Minimum stay from this arrival is {count} night",
+        other: "Minimum stay from this arrival is {count} nights",
+      },
+      maxStay: {
+        one: "Maximum stay from this arrival is {count} night",
+        other: "Maximum stay from this arrival is {count} nights",
+      },
+      nightsRange: "Nights must be between {min} and {max}",
+      unitsRange: "Units must be between {min} and {max}",
+      guestsRange: "Guests must be between {min} and {max}",
+      dateRequired: "Select a date",
+      unknownAddon: "Unknown add-on: {id}",
+      addonQuantityRange: "Quantity of {name} must be between {min} and {max}",
+      adultsRequired: "At least one adult is required",
+      childAgeRange: "Child ages must be between {min} and {max}",
+      infantsRange: "Infants must be between {min} and {max}",
+      tripNotRunning: "This trip does not run on this day",
+      tripBlackout: "This trip is not running on this date",
+      departureRequired: "Select a departure time",
+      unknownDeparture: "Unknown departure time: {time}",
+      unknownPickup: "Unknown pickup: {id}",
+      pickupZoneRequired: "Select the pickup area",
+    },
+  },
+
+  fr: {
+    intlLocale: "fr-FR",
+    dir: "ltr",
+    weekStartsOn: 1,
+    weekdayStyle: "short",
+    messages: {
+      stepOf: "Étape {step} sur {total}",
+      selectDates: "Choisissez vos dates",
+      selectArrival: "Choisissez votre arrivée",
+      yourDetails: "Vos coordonnées",
+      payment: "Paiement",
+      selected: "Sélectionné",
+      unavailable: "Indisponible",
+      lowest: "Le plus bas",
+      restricted: "Restreint",
+      soldOut: "Complet",
+      departureTime: "Heure de départ",
+      bookedNightsInStay: "Votre séjour ne peut pas inclure de nuits réservées",
+      perNight: "{price} la nuit",
+      checkOutLimit: "La nuit du {date} est déjà réservée : le départ doit avoir lieu ce jour-là au plus tard.",
+      checkIn: "Arrivée",
+      checkOut: "Départ",
+      nights: "Nuits",
+      guests: "Voyageurs",
+      unitsLabel: "{unit}s",
+      unitsLeft: {
+        one: "Plus que {count} {unit} disponible pour ces dates",
+        other: "Plus que {count} {unit}s disponibles pour ces dates",
+      },
+      unitCount: { one: "{count} {unit}", other: "{count} {unit}s" },
+      nightCount: { one: "{count} nuit", other: "{count} nuits" },
+      guestCount: { one: "{count} voyageur", other: "{count} voyageurs" },
+      adults: "Adultes",
+      children: "Enfants",
+      infants: "Bébés",
+      childrenHint: "De {min} à {max} ans",
+      infantsHint: "Moins de {age} ans",
+      childAge: "Âge de l'enfant {number}",
+      adultCount: { one: "{count} adulte", other: "{count} adultes" },
+      childCount: { one: "{count} enfant", other: "{count} enfants" },
+      infantCount: { one: "{count} bébé", other: "{count} bébés" },
+      extraGuestCount: { one: "{count} voyageur supplémentaire", other: "{count} voyageurs supplémentaires" },
+      extraGuests: { one: "Voyageur supplémentaire", other: "Voyageurs supplémentaires" },
+      cityTax: "Taxe de séjour",
+      total: "Total",
+      standardRate: "Tarif standard",
+      previousMonth: "Mois précédent",
+      nextMonth: "Mois suivant",
+      calendarHelp: "Utilisez les flèches pour changer de jour et Entrée pour le choisir.",
+      today: "Aujourd'hui",
+      inStay: "Pendant votre séjour",
+      decrease: "Diminuer : {label}",
+      increase: "Augmenter : {label}",
+      currency: "Devise",
+      chargedIn: "Vous serez débité de {amount}",
+      continue: "Continuer",
+      back: "Retour",
+      firstName: "Prénom",
+      lastName: "Nom",
+      email: "E-mail",
+      phone: "Téléphone",
+      optional: "(facultatif)",
+      specialRequests: "Demandes particulières",
+      processingPayment: "Paiement en cours...",
+      processing: "Traitement...",
+      sendNote: "Écrivez-nous",
+      bookingConfirmed: "Réservation confirmée",
+      confirmationSent: "Merci ! Une confirmation a été envoyée à {email}",
+      close: "Fermer",
+      saveFailed: "Impossible d'enregistrer la réservation. Veuillez nous contacter.",
+      paymentFailed: "Le paiement a échoué. Veuillez réessayer.",
+      paymentUnavailable: "Impossible de charger le paiement. Actualisez la page et réessayez.",
+      payAmount: "Payer {amount}",
+      payOnArrival: "Confirmer — payer {amount} à l'arrivée",
+      payAtPropertyNote: "Rien n'est débité maintenant. Réglez le solde sur place.",
+      testPayment: "Paiement test",
+      decline: "Refuser",
+      dateRange: "{from} → {to}",
+      noticeRequired: {
+        one: "Réservation au moins {count} heure à l'avance",
+        other: "Réservation au moins {count} heures à l'avance",
+      },
+      perCarNote: {
+        one: "Prix par voiture, jusqu'à {count} voyageur",
+        other: "Prix par voiture, jusqu'à {count} voyageurs",
+      },
+      vehicleNote: {
+        one: "Prix par véhicule ({vehicle}), jusqu'à {count} voyageur",
+        other: "Prix par véhicule ({vehicle}), jusqu'à {count} voyageurs",
+      },
+      vehicle: "Véhicule",
+      enhanceYourDay: "Complétez votre journée",
+      noAddons: "Aucune option disponible pour cette excursion.",
+      perPerson: "par personne",
+      extras: "Options",
+      enhanceYourStay: "Complétez votre séjour",
+      perStay: "par séjour",
+      eachNight: "par nuit",
+      perGuestPerNight: "par personne et par nuit",
+      perItem: "l'unité",
+      detailsTitle: "Vos coordonnées",
+      fullName: "Nom complet",
+      pickupLocation: "Lieu de prise en charge (hôtel/riad)",
+      pickup: "Prise en charge",
+      searchPickup: "Rechercher un riad ou un hôtel",
+      pickupElsewhere: "Ailleurs",
+      pickupAddress: "Adresse de prise en charge",
+      pickupZone: "Quartier de prise en charge",
+      selectZone: "Choisissez un quartier",
+      noPickupMatches: "Aucun résultat. Choisissez « Ailleurs » pour saisir l'adresse.",
+      meetingPoint: "Point de rendez-vous : {notes}",
+      change: "Modifier",
+      dayTrip: "Excursion",
+      thankYouName: "Merci, {name} !",
+      confirmationNumber: "Confirmation n° {id}",
+      checkEmail: "Consultez votre boîte mail ({email}) pour les détails.",
+      saveFailedReference:
+        "Nous n'avons pas pu enregistrer votre réservation. Contactez-nous avec cette référence : {reference}",
+      paymentReceived: "Paiement reçu",
+      bookingNotConfirmed: "Nous n'avons pas pu confirmer votre réservation",
+      savingBooking: "Enregistrement de votre réservation",
+      bookingQueued:
+        "Nous enregistrons encore votre réservation et continuerons d'essayer, même si vous fermez cette page. Si vous ne recevez pas de confirmation, contactez-nous avec votre référence de paiement : {reference}",
+    },
+    issues: {
+      checkInRequired: "Choisissez une date d'arrivée",
+      checkOutRequired: "Choisissez une date de départ",
+      checkOutBeforeCheckIn: "Le départ doit être après l'arrivée",
+      closedToArrival: "Pas d'arrivée ce jour-là",
+      closedToDeparture: "Pas de départ ce jour-là",
+      minStay: {
+        one: "Séjour minimum de {count} nuit à partir de cette arrivée",
+        other: "Séjour minimum de {count} nuits à partir de cette arrivée",
+      },
+      maxStay: {
+        one: "Séjour maximum de {count} nuit à partir de cette arrivée",
+        other: "Séjour maximum de {count} nuits à partir de cette arrivée",
+      },
+      nightsRange: "Le nombre de nuits doit être compris entre {min} et {max}",
+      unitsRange: "Le nombre d'unités doit être compris entre {min} et {max}",
+      guestsRange: "Le nombre de voyageurs doit être compris entre {min} et {max}",
+      dateRequired: "Choisissez une date",
+      unknownAddon: "Option inconnue : {id}",
+      addonQuantityRange: "La quantité de {name} doit être comprise entre {min} et {max}",
+      adultsRequired: "Au moins un adulte est requis",
+      childAgeRange: "L'âge des enfants doit être compris entre {min} et {max} ans",
+      infantsRange: "Le nombre de bébés doit être compris entre {min} et {max}",
+      tripNotRunning: "Cette excursion n'a pas lieu ce jour-là",
+      tripBlackout: "Cette excursion est suspendue à cette date",
+      departureRequired: "Choisissez une heure de départ",
+      unknownDeparture: "Heure de départ inconnue : {time}",
+      unknownPickup: "Prise en charge inconnue : {id}",
+      pickupZoneRequired: "Choisissez le quartier de prise en charge",
+    },
+  },
+
+  es: {
+    intlLocale: "es-ES",
+    dir: "ltr",
+    weekStartsOn: 1,
+    weekdayStyle: "short",
+    messages: {
+      stepOf: "Paso {step} de {total}",
+      selectDates: "Elige las fechas",
+      selectArrival: "Elige la llegada",
+      yourDetails: "Tus datos",
+      payment: "Pago",
+      selected: "Seleccionado",
+      unavailable: "No disponible",
+      lowest: "Más bajo",
+      restricted: "Restringido",
+      soldOut: "Agotado",
+      departureTime: "Hora de salida",
+      bookedNightsInStay: "Tu estancia no puede incluir noches reservadas",
+      perNight: "{price} por noche",
+      checkOutLimit: "La noche del {date} ya está reservada, así que la salida debe ser ese día o antes.",
+      checkIn: "Llegada",
+      checkOut: "Salida",
+      nights: "Noches",
+      guests: "Huéspedes",
+      unitsLabel: "{unit}s",
+      unitsLeft: {
+        one: "Solo queda {count} {unit} para estas fechas",
+        other: "Solo quedan {count} {unit}s para estas fechas",
+      },
+      unitCount: { one: "{count} {unit}", other: "{count} {unit}s" },
+      nightCount: { one: "{count} noche", other: "{count} noches" },
+      guestCount: { one: "{count} huésped", other: "{count} huéspedes" },
+      adults: "Adultos",
+      children: "Niños",
+      infants: "Bebés",
+      childrenHint: "De {min} a {max} años",
+      infantsHint: "Menores de {age} años",
+      childAge: "Edad del niño {number}",
+      adultCount: { one: "{count} adulto", other: "{count} adultos" },
+      childCount: { one: "{count} niño", other: "{count} niños" },
+      infantCount: { one: "{count} bebé", other: "{count} bebés" },
+      extraGuestCount: { one: "{count} huésped adicional", other: "{count} huéspedes adicionales" },
+      extraGuests: { one: "Huésped adicional", other: "Huéspedes adicionales" },
+      cityTax: "Tasa turística",
+      total: "Total",
+      standardRate: "Tarifa estándar",
+      previousMonth: "Mes anterior",
+      nextMonth: "Mes siguiente",
+      calendarHelp: "Usa las flechas para moverte entre los días e Intro para elegir uno.",
+      today: "Hoy",
+      inStay: "Dentro de tu estancia",
+      decrease: "Reducir: {label}",
+      increase: "Aumentar: {label}",
+      currency: "Moneda",
+      chargedIn: "Se te cobrará {amount}",
+      continue: "Continuar",
+      back: "Atrás",
+      firstName: "Nombre",
+      lastName: "Apellidos",
+      email: "Correo electrónico",
+      phone: "Teléfono",
+      optional: "(opcional)",
+      specialRequests: "Peticiones especiales",
+      processingPayment: "Procesando el pago...",
+      processing: "Procesando...",
+      sendNote: "Escríbenos",
+      bookingConfirmed: "Reserva confirmada",
+      confirmationSent: "¡Gracias! Hemos enviado una confirmación a {email}",
+      close: "Cerrar",
+      saveFailed: "No se pudo guardar la reserva. Ponte en contacto con nosotros.",
+      paymentFailed: "El pago ha fallado. Inténtalo de nuevo.",
+      paymentUnavailable: "No se pudo cargar el pago. Actualiza la página e inténtalo de nuevo.",
+      payAmount: "Pagar {amount}",
+      payOnArrival: "Confirmar — pagar {amount} a la llegada",
+      payAtPropertyNote: "No se cobra nada ahora. Paga el saldo en el alojamiento.",
+      testPayment: "Pago de prueba",
+      decline: "Rechazar",
+      dateRange: "{from} → {to}",
+      noticeRequired: {
+        one: "Se requiere un aviso mínimo de {count} hora",
+        other: "Se requiere un aviso mínimo de {count} horas",
+      },
+      perCarNote: {
+        one: "Precio por coche, hasta {count} huésped",
+        other: "Precio por coche, hasta {count} huéspedes",
+      },
+      vehicleNote: {
+        one: "Precio por vehículo ({vehicle}), hasta {count} huésped",
+        other: "Precio por vehículo ({vehicle}), hasta {count} huéspedes",
+      },
+      vehicle: "Vehículo",
+      enhanceYourDay: "Completa tu día",
+      noAddons: "No hay extras disponibles para esta excursión.",
+      perPerson: "por persona",
+      extras: "Extras",
+      enhanceYourStay: "Completa tu estancia",
+      perStay: "por estancia",
+      eachNight: "por noche",
+      perGuestPerNight: "por persona y noche",
+      perItem: "por unidad",
+      detailsTitle: "Tus datos",
+      fullName: "Nombre completo",
+      pickupLocation: "Lugar de recogida (hotel/riad)",
+      pickup: "Recogida",
+      searchPickup: "Buscar riads y hoteles",
+      pickupElsewhere: "En otro lugar",
+      pickupAddress: "Dirección de recogida",
+      pickupZone: "Zona de recogida",
+      selectZone: "Elige una zona",
+      noPickupMatches: "Sin resultados. Elige «En otro lugar» para escribir la dirección.",
+      meetingPoint: "Punto de encuentro: {notes}",
+      change: "Cambiar",
+      dayTrip: "Excursión",
+      thankYouName: "¡Gracias, {name}!",
+      confirmationNumber: "Confirmación n.º {id}",
+      checkEmail: "Revisa tu correo ({email}) para ver los detalles.",
+      saveFailedReference: "No pudimos guardar tu reserva. Contáctanos con esta referencia: {reference}",
+      paymentReceived: "Pago recibido",
+      bookingNotConfirmed: "No pudimos confirmar tu reserva",
+      savingBooking: "Guardando tu reserva",
+      bookingQueued:
+        "Seguimos guardando tu reserva y lo seguiremos intentando, aunque cierres esta página. Si no recibes una confirmación, contáctanos con tu referencia de pago: {reference}",
+    },
+    issues: {
+      checkInRequired: "Elige una fecha de llegada",
+      checkOutRequired: "Elige una fecha de salida",
+      checkOutBeforeCheckIn: "La salida debe ser posterior a la llegada",
+      closedToArrival: "No se admiten llegadas este día",
+      closedToDeparture: "No se admiten salidas este día",
+      minStay: {
+        one: "La estancia mínima desde esta llegada es de {count} noche",
+        other: "La estancia mínima desde esta llegada es de {count} noches",
+      },
+      maxStay: {
+        one: "La estancia máxima desde esta llegada es de {count} noche",
+        other: "La estancia máxima desde esta llegada es de {count} noches",
+      },
+      nightsRange: "Las noches deben estar entre {min} y {max}",
+      unitsRange: "Las unidades deben estar entre {min} y {max}",
+      guestsRange: "Los huéspedes deben estar entre {min} y {max}",
+      dateRequired: "Elige una fecha",
+      unknownAddon: "Extra desconocido: {id}",
+      addonQuantityRange: "La cantidad de {name} debe estar entre {min} y {max}",
+      adultsRequired: "Se necesita al menos un adulto",
+      childAgeRange: "La edad de los niños debe estar entre {min} y {max} años",
+      infantsRange: "El número de bebés debe estar entre {min} y {max}",
+      tripNotRunning: "Esta excursión no sale este día",
+      tripBlackout: "Esta excursión no está disponible en esta fecha",
+      departureRequired: "Elige una hora de salida",
+      unknownDeparture: "Hora de salida desconocida: {time}",
+      unknownPickup: "Recogida desconocida: {id}",
+      pickupZoneRequired: "Elige la zona de recogida",
+    },
+  },
+
+  // Moroccan Arabic conventions: Latin digits and weeks starting on Monday
+  ar: {
+    intlLocale: "ar-MA",
+    dir: "rtl",
+    weekStartsOn: 1,
+    weekdayStyle: "narrow",
+    messages: {
+      stepOf: "الخطوة {step} من {total}",
+      selectDates: "اختر التواريخ",
+      selectArrival: "اختر تاريخ الوصول",
+      yourDetails: "بياناتك",
+      payment: "الدفع",
+      selected: "محدد",
+      unavailable: "غير متاح",
+      lowest: "الأدنى",
+      restricted: "مقيّد",
+      soldOut: "محجوز بالكامل",
+      departureTime: "وقت الانطلاق",
+      bookedNightsInStay: "لا يمكن أن تشمل إقامتك ليالي محجوزة",
+      perNight: "{price} لليلة",
+      checkOutLimit: "ليلة {date} محجوزة بالفعل، لذا يجب أن تكون المغادرة في ذلك اليوم أو قبله.",
+      checkIn: "الوصول",
+      checkOut: "المغادرة",
+      nights: "الليالي",
+      guests: "الضيوف",
+      unitsLabel: "{unit}",
+      unitsLeft: { other: "المتبقي لهذه التواريخ: {count} × {unit} فقط" },
+      unitCount: { other: "{count} × {unit}" },
+      nightCount: { one: "ليلة واحدة", two: "ليلتان", few: "{count} ليالٍ", many: "{count} ليلة", other: "{count} ليلة" },
+      guestCount: { one: "ضيف واحد", two: "ضيفان", few: "{count} ضيوف", many: "{count} ضيفًا", other: "{count} ضيف" },
+      adults: "البالغون",
+      children: "الأطفال",
+      infants: "الرضّع",
+      childrenHint: "من {min} إلى {max} سنة",
+      infantsHint: "دون سن {age}",
+      childAge: "عمر الطفل {number}",
+      adultCount: { one: "بالغ واحد", two: "بالغان", few: "{count} بالغين", many: "{count} بالغًا", other: "{count} بالغ" },
+      childCount: { one: "طفل واحد", two: "طفلان", few: "{count} أطفال", many: "{count} طفلًا", other: "{count} طفل" },
+      infantCount: { one: "رضيع واحد", two: "رضيعان", few: "{count} رضّع", many: "{count} رضيعًا", other: "{count} رضيع" },
+      extraGuestCount: {
+        one: "ضيف إضافي واحد",
+        two: "ضيفان إضافيان",
+        few: "{count} ضيوف إضافيين",
+        many: "{count} ضيفًا إضافيًا",
+        other: "{count} ضيف إضافي",
+      },
+      extraGuests: { one: "ضيف إضافي", two: "ضيفان إضافيان", other: "ضيوف إضافيون" },
+      cityTax: "ضريبة الإقامة",
+      total: "المجموع",
+      standardRate: "السعر العادي",
+      previousMonth: "الشهر السابق",
+      nextMonth: "الشهر التالي",
+      calendarHelp: "استخدم مفاتيح الأسهم للتنقل بين الأيام ومفتاح الإدخال لاختيار يوم.",
+      today: "اليوم",
+      inStay: "ضمن إقامتك",
+      decrease: "إنقاص {label}",
+      increase: "زيادة {label}",
+      currency: "العملة",
+      chargedIn: "سيتم خصم {amount}",
+      continue: "متابعة",
+      back: "رجوع",
+      firstName: "الاسم الشخصي",
+      lastName: "الاسم العائلي",
+      email: "البريد الإلكتروني",
+      phone: "الهاتف",
+      optional: "(اختياري)",
+      specialRequests: "طلبات خاصة",
+      processingPayment: "جارٍ معالجة الدفع...",
+      processing: "جارٍ المعالجة...",
+      sendNote: "راسلنا",
+      bookingConfirmed: "تم تأكيد الحجز",
+      confirmationSent: "شكرًا لك! تم إرسال التأكيد إلى {email}",
+      close: "إغلاق",
+      saveFailed: "تعذّر حفظ الحجز. يرجى التواصل معنا.",
+      paymentFailed: "فشل الدفع. يرجى المحاولة مرة أخرى.",
+      paymentUnavailable: "تعذّر تحميل الدفع. يرجى تحديث الصفحة والمحاولة مرة أخرى.",
+      payAmount: "ادفع {amount}",
+      payOnArrival: "تأكيد — ادفع {amount} عند الوصول",
+      payAtPropertyNote: "لن يُخصم أي مبلغ الآن. ادفع الرصيد في مكان الإقامة.",
+      testPayment: "دفع تجريبي",
+      decline: "رفض",
+      dateRange: "{from} ← {to}",
+      noticeRequired: {
+        one: "يلزم إشعار مسبق بساعة واحدة على الأقل",
+        two: "يلزم إشعار مسبق بساعتين على الأقل",
+        few: "يلزم إشعار مسبق بـ{count} ساعات على الأقل",
+        other: "يلزم إشعار مسبق بـ{count} ساعة على الأقل",
+      },
+      perCarNote: {
+        one: "السعر لكل سيارة، لضيف واحد",
+        two: "السعر لكل سيارة، حتى ضيفين",
+        few: "السعر لكل سيارة، حتى {count} ضيوف",
+        other: "السعر لكل سيارة، حتى {count} ضيفًا",
+      },
+      vehicleNote: {
+        one: "السعر لكل مركبة ({vehicle})، لضيف واحد",
+        two: "السعر لكل مركبة ({vehicle})، حتى ضيفين",
+        few: "السعر لكل مركبة ({vehicle})، حتى {count} ضيوف",
+        other: "السعر لكل مركبة ({vehicle})، حتى {count} ضيفًا",
+      },
+      vehicle: "المركبة",
+      enhanceYourDay: "أثرِ يومك",
+      noAddons: "لا توجد إضافات متاحة لهذه الرحلة.",
+      perPerson: "للشخص",
+      extras: "الإضافات",
+      enhanceYourStay: "أثرِ إقامتك",
+      perStay: "للإقامة",
+      eachNight: "لليلة",
+      perGuestPerNight: "للشخص في الليلة",
+      perItem: "للوحدة",
+      detailsTitle: "بياناتك",
+      fullName: "الاسم الكامل",
+      pickupLocation: "مكان الالتقاء (اسم الفندق/الرياض)",
+      pickup: "الالتقاء",
+      searchPickup: "ابحث عن رياض أو فندق",
+      pickupElsewhere: "مكان آخر",
+      pickupAddress: "عنوان الالتقاء",
+      pickupZone: "منطقة الالتقاء",
+      selectZone: "اختر منطقة",
+      noPickupMatches: "لا نتائج. اختر «مكان آخر» لكتابة العنوان.",
+      meetingPoint: "نقطة الالتقاء: {notes}",
+      change: "تغيير",
+      dayTrip: "رحلة يومية",
+      thankYouName: "شكرًا لك يا {name}!",
+      confirmationNumber: "رقم التأكيد {id}",
+      checkEmail: "تحقق من بريدك الإلكتروني {email} للاطلاع على التفاصيل.",
+      saveFailedReference: "تعذّر حفظ حجزك. يرجى التواصل معنا مع هذا المرجع: {reference}",
+      paymentReceived: "تم استلام الدفع",
+      bookingNotConfirmed: "تعذّر تأكيد حجزك",
+      savingBooking: "جارٍ حفظ حجزك",
+      bookingQueued:
+        "ما زلنا نحفظ حجزك وسنواصل المحاولة حتى لو أغلقت هذه الصفحة. إذا لم يصلك تأكيد، يرجى التواصل معنا مع مرجع الدفع: {reference}",
+    },
+    issues: {
+      checkInRequired: "اختر تاريخ الوصول",
+      checkOutRequired: "اختر تاريخ المغادرة",
+      checkOutBeforeCheckIn: "يجب أن تكون المغادرة بعد الوصول",
+      closedToArrival: "لا وصول في هذا اليوم",
+      closedToDeparture: "لا مغادرة في هذا اليوم",
+      minStay: {
+        one: "الحد الأدنى للإقامة من هذا الوصول ليلة واحدة",
+        two: "الحد الأدنى للإقامة من هذا الوصول ليلتان",
+        few: "الحد الأدنى للإقامة من هذا الوصول {count} ليالٍ",
+        other: "الحد الأدنى للإقامة من هذا الوصول {count} ليلة",
+      },
+      maxStay: {
+        one: "الحد الأقصى للإقامة من هذا الوصول ليلة واحدة",
+        two: "الحد الأقصى للإقامة من هذا الوصول ليلتان",
+        few: "الحد الأقصى للإقامة من هذا الوصول {count} ليالٍ",
+        other: "الحد الأقصى للإقامة من هذا الوصول {count} ليلة",
+      },
+      nightsRange: "يجب أن يكون عدد الليالي بين {min} و{max}",
+      unitsRange: "يجب أن يكون عدد الوحدات بين {min} و{max}",
+      guestsRange: "يجب أن يكون عدد الضيوف بين {min} و{max}",
+      dateRequired: "اختر تاريخًا",
+      unknownAddon: "إضافة غير معروفة: {id}",
+      addonQuantityRange: "يجب أن تكون كمية {name} بين {min} و{max}",
+      adultsRequired: "يلزم وجود بالغ واحد على الأقل",
+      childAgeRange: "يجب أن تكون أعمار الأطفال بين {min} و{max}",
+      infantsRange: "يجب أن يكون عدد الرضّع بين {min} و{max}",
+      tripNotRunning: "لا تُنظَّم هذه الرحلة في هذا اليوم",
+      tripBlackout: "هذه الرحلة متوقفة في هذا التاريخ",
+      departureRequired: "اختر وقت الانطلاق",
+      unknownDeparture: "وقت انطلاق غير معروف: {time}",
+      unknownPickup: "مكان التقاء غير معروف: {id}",
+      pickupZoneRequired: "اختر منطقة الالتقاء",
+    },
+  },
+};
+
+export const LOCALES = Object.keys(CATALOGUES) as Locale[];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// "fr-CA" and "fr" both resolve to French; anything unknown to English
+export function resolveLocale(locale: string | undefined): Locale {
+  const language = (locale ?? "").toLowerCase().split(/[-_]/)[0];
+  return LOCALES.includes(language as Locale) ? (language as Locale) : "en";
+}
+
+function interpolate(template: string, values: MessageValues, numbers: Intl.NumberFormat) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? numbers.format(value) : value;
+  });
+}
+
+// Build the strings, dates and week layout of one locale. `overrides`
+// replaces individual messages, e.g. to rename "Guests" on one site.
+export function createTranslator(locale?: string, overrides: Partial<Messages> = {}): Translator {
+  const resolved = resolveLocale(locale);
+  const { intlLocale, dir, weekStartsOn, weekdayStyle, messages, issues } = CATALOGUES[resolved];
+  const plurals = new Intl.PluralRules(intlLocale);
+  const numbers = new Intl.NumberFormat(intlLocale, { useGrouping: false });
+
+  const render = (message: Message, values: MessageValues = {}) => {
+    if (typeof message === "string") return interpolate(message, values, numbers);
+    const count = typeof values.count === "number" ? values.count : 0;
+    return interpolate(message[plurals.select(count)] ?? message.other, values, numbers);
+  };
+
+  return {
+    locale: resolved,
+    intlLocale,
+    dir,
+    weekStartsOn,
+    t: (key, values) => render(overrides[key] ?? messages[key], values),
+    issue: ({ code, message = "", values }) => (issues[code] ? render(issues[code], values) : message),
+    formatDate: (date) => formatPlainDate(date, intlLocale),
+    formatLongDate: (date) =>
+      formatPlainDate(date, intlLocale, { weekday: "long", day: "numeric", month: "long", year: "numeric" }),
+    monthLabel: (monthStart) => formatPlainDate(monthStart, intlLocale, { month: "long", year: "numeric" }),
+    // 2024-01-07 was a Sunday
+    weekdayLabels: (firstDay, style) =>
+      Array.from({ length: 7 }, (_, i) =>
+        formatPlainDate(addDays("2024-01-07", (firstDay + i) % 7), intlLocale, {
+          weekday: style ?? weekdayStyle,
+        }).replace(/\.$/, "")
+      ),
+  };
+}
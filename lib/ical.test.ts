@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { blockedNights, blockedRanges, parseICal } from "@/lib/ical";
+
+// Parses the channel exports in fixtures/ical as the /api/ical route does
+
+const fixture = (name: string) => parseICal(readFileSync(join(process.cwd(), "fixtures/ical", name), "utf8"));
+const window2027 = { from: "2027-01-01", to: "2028-01-01" };
+const rangesOf = (name: string, timeZone = "Africa/Casablanca") =>
+  blockedRanges(fixture(name), { timeZone, ...window2027 }).map(({ start, end }) => [start, end]);
+
+describe("parseICal", () => {
+  it("reads all-day events", () => {
+    const [reserved] = fixture("airbnb.ics");
+    assert.equal(reserved.uid, "1418fb94e984-6c1e2b3f4a5d6e7f8a9b0c1d2e3f4a5b@airbnb.com");
+    assert.equal(reserved.summary, "Reserved");
+    assert.deepEqual(reserved.start, { date: "2027-03-08", utc: false });
+    assert.deepEqual(reserved.end, { date: "2027-03-12", utc: false });
+  });
+
+  it("keeps TZID, RRULE, EXDATE and STATUS", () => {
+    const [owner, maintenance, cancelled] = fixture("google-calendar.ics");
+    assert.equal(owner.start.tzid, "Europe/Paris");
+    assert.deepEqual(owner.start.time, { hour: 16, minute: 0, second: 0 });
+    assert.equal(owner.summary, "Owner staying, do not sell");
+    assert.equal(maintenance.rrule?.freq, "WEEKLY");
+    assert.deepEqual(maintenance.rrule?.byDay, [3]);
+    assert.equal(maintenance.rrule?.until?.date, "2027-02-10");
+    assert.deepEqual(maintenance.exdates.map((exdate) => exdate.date), ["2027-01-20"]);
+    assert.equal(cancelled.status, "CANCELLED");
+  });
+});
+
+describe("blockedRanges", () => {
+  it("treats DTEND as exclusive so check-out days stay bookable", () => {
+    assert.deepEqual(rangesOf("airbnb.ics"), [
+      ["2027-03-08", "2027-03-12"],
+      ["2027-03-12", "2027-03-15"],
+      ["2027-04-01", "2027-04-05"],
+    ]);
+    assert.deepEqual(rangesOf("booking-com.ics"), [
+      ["2027-03-20", "2027-03-23"],
+      ["2027-04-10", "2027-04-11"],
+    ]);
+
+    const ranges = blockedRanges(fixture("booking-com.ics"), { timeZone: "UTC", ...window2027 });
+    const nights = blockedNights(ranges, window2027);
+    assert.deepEqual(nights, ["2027-03-20", "2027-03-21", "2027-03-22", "2027-04-10"]);
+  });
+
+  it("places TZID events on the property's dates", () => {
+    // 16:00 in Paris on May 2 to 11:00 on May 5 (14:00 to 09:00 UTC)
+    const owner = (timeZone: string) =>
+      blockedRanges(fixture("google-calendar.ics"), { timeZone, ...window2027 })
+        .filter((range) => range.uid === "owner-stay-1@google.com")
+        .map(({ start, end }) => [start, end]);
+    assert.deepEqual(owner("Africa/Casablanca"), [["2027-05-02", "2027-05-05"]]);
+    assert.deepEqual(owner("Pacific/Kiritimati"), [["2027-05-03", "2027-05-05"]]);
+  });
+
+  it("expands RRULE up to UNTIL and skips EXDATE", () => {
+    const maintenance = blockedRanges(fixture("google-calendar.ics"), { timeZone: "Africa/Casablanca", ...window2027 })
+      .filter((range) => range.uid === "maintenance@google.com")
+      .map((range) => range.start);
+    assert.deepEqual(maintenance, ["2027-01-06", "2027-01-13", "2027-01-27", "2027-02-03", "2027-02-10"]);
+  });
+
+  it("ignores CANCELLED events", () => {
+    const ranges = blockedRanges(fixture("google-calendar.ics"), { timeZone: "UTC", ...window2027 });
+    const uids = ranges.map((range) => range.uid);
+    assert.ok(!uids.includes("cancelled-hold@google.com"));
+    assert.ok(uids.includes("owner-stay-1@google.com"));
+  });
+});
@@ -0,0 +1,457 @@
+// ============================================================================
+// ICAL PARSER
+// ============================================================================
+// Turns an availability feed (Airbnb, Booking.com, Google Calendar...) into
+// the nights it blocks, and writes our own bookings back out as a feed. A
+// night is named by the date it starts on, so a stay from the 8th to the 12th
+// blocks the 8th–11th and leaves the 12th free for a same-day turnover (DTEND
+// is exclusive).
+
+import {
+  addDays,
+  dateInZone,
+  daysBetween,
+  isValidTimeZone,
+  monthLength,
+  plainDate,
+  weekdayOf,
+  zonedTimeToEpoch,
+} from "@/lib/dates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ICalDateValue {
+  date: string; // YYYY-MM-DD as written in the feed
+  time?: { hour: number; minute: number; second: number };
+  utc: boolean;
+  tzid?: string;
+}
+
+export interface ICalRecurrence {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: ICalDateValue;
+  byDay?: number[]; // 0 = Sunday
+  byMonthDay?: number[];
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  status: string;
+  transparent: boolean;
+  start: ICalDateValue;
+  end?: ICalDateValue;
+  duration?: { days: number; seconds: number };
+  rrule?: ICalRecurrence;
+  exdates: ICalDateValue[];
+  recurrenceId?: ICalDateValue;
+}
+
+// One blocked stretch, in property-local dates. `end` is exclusive.
+export interface BlockedRange {
+  start: string;
+  end: string;
+  uid: string;
+  summary: string;
+}
+
+// A stay to publish in an exported feed. `end` is the check-out date.
+export interface ICalExportEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  stamp?: Date; // DTSTAMP; defaults to now
+}
+
+export interface BlockedNightsOptions {
+  timeZone: string;
+  from: string; // first night to report
+  to: string; // exclusive
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MAX_OCCURRENCES = 1000;
+const MAX_ITERATIONS = 20000;
+
+// The instant an iCal date-time refers to
+function epochOf(value: ICalDateValue, timeZone: string) {
+  if (value.utc) {
+    const [y, m, d] = value.date.split("-").map(Number);
+    const { hour = 0, minute = 0, second = 0 } = value.time ?? {};
+    return Date.UTC(y, m - 1, d, hour, minute, second);
+  }
+  return zonedTimeToEpoch(value.date, value.time, timeZone);
+}
+
+// The property-local calendar date a value falls on
+function localDateOf(value: ICalDateValue, propertyTimeZone: string) {
+  if (!value.time) return value.date;
+  const sourceZone = value.tzid && isValidTimeZone(value.tzid) ? value.tzid : propertyTimeZone;
+  return dateInZone(epochOf(value, sourceZone), propertyTimeZone);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, ch) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseDateValue(raw: string, params: Record<string, string>): ICalDateValue | null {
+  const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm, ss, z] = match;
+  const date = `${y}-${m}-${d}`;
+  if (params.VALUE === "DATE" || hh === undefined) return { date, utc: false };
+  return {
+    date,
+    time: { hour: Number(hh), minute: Number(mm), second: Number(ss) },
+    utc: z === "Z",
+    tzid: z ? undefined : params.TZID,
+  };
+}
+
+function parseDuration(raw: string) {
+  const match = raw.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, w, d, h, m, s] = match;
+  const factor = sign === "-" ? -1 : 1;
+  return {
+    days: factor * (Number(w ?? 0) * 7 + Number(d ?? 0)),
+    seconds: factor * (Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0)),
+  };
+}
+
+function parseRRule(raw: string): ICalRecurrence | undefined {
+  const parts: Record<string, string> = {};
+  raw.split(";").forEach((part) => {
+    const [key, value] = part.split("=");
+    if (key && value) parts[key.toUpperCase()] = value.toUpperCase();
+  });
+
+  const freq = parts.FREQ as ICalRecurrence["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return undefined;
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, {}) ?? undefined : undefined,
+    byDay: parts.BYDAY
+      ? parts.BYDAY.split(",")
+          .map((day) => WEEKDAYS.indexOf(day.slice(-2)))
+          .filter((day) => day >= 0)
+      : undefined,
+    byMonthDay: parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",").map(Number).filter((n) => n > 0) : undefined,
+  };
+}
+
+export function parseICal(source: string): ICalEvent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = source.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ICalEvent[] = [];
+
+  let current: Partial<ICalEvent> | null = null;
+  let nestedDepth = 0; // VALARM and friends inside a VEVENT
+
+  lines.forEach((line) => {
+    const content = parseContentLine(line);
+    if (!content) return;
+    const { name, params, value } = content;
+
+    if (name === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT" && !current) {
+        current = { uid: "", summary: "", status: "", transparent: false, exdates: [] };
+      } else if (current) {
+        nestedDepth++;
+      }
+      return;
+    }
+
+    if (name === "END") {
+      if (!current) return;
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (value.toUpperCase() === "VEVENT") {
+        if (current.start) events.push(current as ICalEvent);
+        current = null;
+      }
+      return;
+    }
+
+    if (!current || nestedDepth > 0) return;
+    const event: Partial<ICalEvent> = current;
+
+    switch (name) {
+      case "UID":
+        event.uid = value.trim();
+        break;
+      case "SUMMARY":
+        event.summary = unescapeText(value);
+        break;
+      case "STATUS":
+        event.status = value.trim().toUpperCase();
+        break;
+      case "TRANSP":
+        event.transparent = value.trim().toUpperCase() === "TRANSPARENT";
+        break;
+      case "DTSTART":
+        event.start = parseDateValue(value, params) ?? undefined;
+        break;
+      case "DTEND":
+        event.end = parseDateValue(value, params) ?? undefined;
+        break;
+      case "DURATION":
+        event.duration = parseDuration(value);
+        break;
+      case "RRULE":
+        event.rrule = parseRRule(value);
+        break;
+      case "EXDATE":
+        value.split(",").forEach((part) => {
+          const exdate = parseDateValue(part, params);
+          if (exdate) event.exdates!.push(exdate);
+        });
+        break;
+      case "RECURRENCE-ID":
+        event.recurrenceId = parseDateValue(value, params) ?? undefined;
+        break;
+    }
+  });
+
+  return events;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+// Start dates (property-local) of the occurrences between `earliest` and
+// `horizon`, in order. COUNT still counts the occurrences before `earliest`.
+function occurrenceStarts(event: ICalEvent, startDate: string, timeZone: string, earliest: string, horizon: string) {
+  const rule = event.rrule;
+  if (!rule) return [startDate];
+
+  const until = rule.until ? localDateOf(rule.until, timeZone) : horizon;
+  const limit = until < horizon ? until : horizon;
+  const starts: string[] = [];
+  let produced = 0;
+
+  const [y, m, d] = startDate.split("-").map(Number);
+  const startWeekday = weekdayOf(startDate);
+
+  for (let i = 0; i < MAX_ITERATIONS && starts.length < MAX_OCCURRENCES; i++) {
+    const step = i * rule.interval;
+    let period: string[];
+
+    if (rule.freq === "DAILY") {
+      period = [addDays(startDate, step)];
+    } else if (rule.freq === "WEEKLY") {
+      const weekStart = addDays(startDate, step * 7 - startWeekday);
+      const days = rule.byDay?.length ? rule.byDay : [startWeekday];
+      period = [...days].sort((a, b) => a - b).map((day) => addDays(weekStart, day));
+    } else if (rule.freq === "MONTHLY") {
+      const monthIndex = m - 1 + step;
+      const year = y + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const monthDays = monthLength(year, month);
+      const days = rule.byMonthDay?.length ? rule.byMonthDay : [d];
+      // Months without the day (e.g. the 31st) are skipped, per RFC 5545
+      period = days.filter((day) => day <= monthDays).map((day) => plainDate(year, month, day));
+    } else {
+      const year = y + step;
+      period = d <= monthLength(year, m) ? [plainDate(year, m, d)] : [];
+    }
+
+    if (period.length > 0 && period[0] > limit) break;
+    for (const date of period) {
+      if (date < startDate || date > limit) continue;
+      if (rule.count !== undefined && produced >= rule.count) return starts;
+      produced++;
+      if (date >= earliest) starts.push(date);
+    }
+  }
+
+  return starts;
+}
+
+// How many nights an occurrence blocks, from its first night
+function nightsOf(event: ICalEvent, startDate: string, timeZone: string) {
+  let endDate: string;
+
+  if (event.end) {
+    endDate = localDateOf(event.end, timeZone);
+  } else if (event.duration) {
+    if (event.start.time) {
+      const startMs = epochOf(
+        event.start,
+        event.start.tzid && isValidTimeZone(event.start.tzid) ? event.start.tzid : timeZone
+      );
+      const endMs = startMs + event.duration.days * DAY_MS + event.duration.seconds * 1000;
+      endDate = dateInZone(endMs, timeZone);
+    } else {
+      endDate = addDays(startDate, event.duration.days);
+    }
+  } else {
+    // An all-day event without an end lasts one day; a timed one is an instant
+    endDate = addDays(startDate, event.start.time ? 0 : 1);
+  }
+
+  // A timed event that starts and ends on the same day still takes that night
+  return Math.max(1, daysBetween(startDate, endDate));
+}
+
+export function blockedRanges(events: ICalEvent[], { timeZone, from, to }: BlockedNightsOptions): BlockedRange[] {
+  const active = events.filter((event) => event.status !== "CANCELLED" && !event.transparent);
+
+  // Modified occurrences (RECURRENCE-ID) replace the occurrence they point at
+  const overridden = new Map<string, Set<string>>();
+  active.forEach((event) => {
+    if (!event.recurrenceId) return;
+    const dates = overridden.get(event.uid) ?? new Set<string>();
+    dates.add(localDateOf(event.recurrenceId, timeZone));
+    overridden.set(event.uid, dates);
+  });
+  events.forEach((event) => {
+    // A cancelled override removes its occurrence too
+    if (event.recurrenceId && event.status === "CANCELLED") {
+      const dates = overridden.get(event.uid) ?? new Set<string>();
+      dates.add(localDateOf(event.recurrenceId, timeZone));
+      overridden.set(event.uid, dates);
+    }
+  });
+
+  const ranges: BlockedRange[] = [];
+  active.forEach((event) => {
+    const startDate = localDateOf(event.start, timeZone);
+    const nights = nightsOf(event, startDate, timeZone);
+    const excluded = new Set(event.exdates.map((exdate) => localDateOf(exdate, timeZone)));
+    const replaced = event.recurrenceId ? undefined : overridden.get(event.uid);
+
+    const earliest = addDays(from, -nights);
+    occurrenceStarts(event, startDate, timeZone, earliest, addDays(to, -1)).forEach((start) => {
+      if (excluded.has(start) || replaced?.has(start)) return;
+      const end = addDays(start, nights);
+      if (end <= from || start >= to) return;
+      ranges.push({ start, end, uid: event.uid, summary: event.summary });
+    });
+  });
+
+  return ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+}
+
+// Every blocked night within [from, to), sorted and de-duplicated
+export function blockedNights(ranges: BlockedRange[], { from, to }: Pick<BlockedNightsOptions, "from" | "to">) {
+  const nights = new Set<string>();
+  ranges.forEach(({ start, end }) => {
+    for (let night = start < from ? from : start; night < end && night < to; night = addDays(night, 1)) {
+      nights.add(night);
+    }
+  });
+  return Array.from(nights).sort();
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+const CRLF = "\r\n";
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function formatDate(date: string) {
+  return date.replace(/-/g, "");
+}
+
+function formatStamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space, without splitting a multi-byte character
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+}
+
+// An all-day VCALENDAR with one VEVENT per stay. DTEND is the check-out date
+// (exclusive), matching what we expect from the feeds we import.
+export function formatICal(events: ICalExportEvent[], { prodId, name }: { prodId: string; name?: string }) {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${prodId}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+
+  const now = new Date();
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatStamp(event.stamp ?? now)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push("STATUS:CONFIRMED", "TRANSP:OPAQUE", "END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
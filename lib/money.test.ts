@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { chargeFor, rateOf } from "@/lib/currency";
+import type { CurrencyCode } from "@/lib/currency";
+import {
+  convertMoney,
+  MINOR_DIGITS,
+  money,
+  multiplyMoney,
+  parseMoney,
+  sumMoney,
+  toDecimal,
+  toDecimalString,
+} from "@/lib/money";
+
+// None of the currencies offered lacks a minor unit, so one is listed for
+// these tests the way ISO 4217 has it: the CFA franc (XOF) has no decimals
+const XOF = "XOF" as CurrencyCode;
+const digits: Record<string, number> = MINOR_DIGITS;
+before(() => {
+  digits[XOF] = 0;
+});
+after(() => {
+  delete digits[XOF];
+});
+
+describe("parseMoney", () => {
+  it("rounds to the minor unit, halves away from zero", () => {
+    assert.deepEqual(parseMoney("12.345", "EUR"), money(1235, "EUR"));
+    assert.deepEqual(parseMoney("12.3449", "EUR"), money(1234, "EUR"));
+    assert.deepEqual(parseMoney("-0.005", "EUR"), money(-1, "EUR"));
+    assert.deepEqual(parseMoney(" 99.99 ", "EUR"), money(9999, "EUR"));
+    assert.deepEqual(parseMoney("150", "EUR"), money(15000, "EUR"));
+  });
+
+  it("reads numbers by their digits, not their binary value", () => {
+    // 1.005 is stored as 1.00499999999999989...
+    assert.deepEqual(parseMoney(1.005, "EUR"), money(101, "EUR"));
+    assert.deepEqual(parseMoney(12.345, "EUR"), money(1235, "EUR"));
+    assert.deepEqual(parseMoney(1e-7, "EUR"), money(0, "EUR"));
+  });
+
+  it("returns null for anything that is not a decimal", () => {
+    ["", ".", "abc", "1,50", "12.3.4"].forEach((value) => assert.equal(parseMoney(value, "EUR"), null, value));
+    assert.equal(parseMoney(Number.NaN, "EUR"), null);
+  });
+
+  it("rounds to whole units in a currency without a minor unit", () => {
+    assert.deepEqual(parseMoney("1500.5", XOF), money(1501, XOF));
+    assert.deepEqual(parseMoney("1500.49", XOF), money(1500, XOF));
+    assert.equal(toDecimalString(money(1501, XOF)), "1501");
+    assert.equal(toDecimal(money(1501, XOF)), 1501);
+  });
+});
+
+describe("toDecimalString", () => {
+  it("writes every minor digit", () => {
+    assert.equal(toDecimalString(money(15000, "EUR")), "150.00");
+    assert.equal(toDecimalString(money(5, "EUR")), "0.05");
+    assert.equal(toDecimalString(money(-150, "EUR")), "-1.50");
+  });
+});
+
+describe("multiplyMoney and sumMoney", () => {
+  it("multiplies by whole quantities exactly and rounds fractions once", () => {
+    assert.deepEqual(multiplyMoney(money(1050, "EUR"), 3), money(3150, "EUR"));
+    assert.deepEqual(multiplyMoney(money(101, "EUR"), 0.5), money(51, "EUR"));
+    assert.deepEqual(multiplyMoney(money(-101, "EUR"), 0.5), money(-51, "EUR"));
+  });
+
+  it("refuses to add amounts in different currencies", () => {
+    assert.deepEqual(sumMoney([money(1050, "EUR"), money(1, "EUR")], "EUR"), money(1051, "EUR"));
+    assert.throws(() => sumMoney([money(1050, "EUR"), money(1, "USD")], "EUR"), /Cannot combine/);
+  });
+});
+
+describe("convertMoney", () => {
+  it("rounds the converted amount once, halves away from zero", () => {
+    assert.deepEqual(convertMoney(money(12345, "EUR"), 0.85, "GBP"), money(10493, "GBP"));
+    assert.deepEqual(convertMoney(money(1023, "EUR"), 1.5, "USD"), money(1535, "USD"));
+    assert.deepEqual(convertMoney(money(15000, "EUR"), 1, "EUR"), money(15000, "EUR"));
+  });
+
+  it("scales between currencies with and without a minor unit", () => {
+    assert.deepEqual(convertMoney(money(1000, "EUR"), 655.957, XOF), money(6560, XOF));
+    assert.deepEqual(convertMoney(money(6560, XOF), 1 / 655.957, "EUR"), money(1000, "EUR"));
+  });
+});
+
+// The conversions the booking routes charge with (chargeOf in lib/server/requests.ts)
+describe("chargeFor", () => {
+  const rates = { base: "EUR" as const, rates: { USD: 1.1, MAD: 10.8 }, asOf: "2027-03-01" };
+
+  it("converts the EUR total at the rate for the currency", () => {
+    assert.equal(rateOf(rates, "USD"), 1.1);
+    assert.deepEqual(chargeFor(money(20000, "EUR"), "USD", 1.1), { amount: money(22000, "USD"), exchangeRate: 1.1 });
+    assert.deepEqual(chargeFor(money(5, "EUR"), "USD", 1.1), { amount: money(6, "USD"), exchangeRate: 1.1 });
+  });
+
+  it("charges EUR as it is, and has no rate for a currency the rates leave out", () => {
+    assert.equal(rateOf(rates, "EUR"), 1);
+    assert.equal(rateOf(rates, "GBP"), null);
+    assert.equal(rateOf(null, "USD"), null);
+    assert.deepEqual(chargeFor(money(20000, "EUR"), "EUR", 1), { amount: money(20000, "EUR"), exchangeRate: 1 });
+  });
+
+  it("charges a list price set in the currency as it is", () => {
+    const charge = chargeFor(money(23220, "EUR"), "MAD", 10.8, money(232000, "MAD"));
+    assert.deepEqual(charge.amount, money(232000, "MAD"));
+    assert.equal(charge.exchangeRate, 9.991387);
+  });
+});
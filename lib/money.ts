@@ -0,0 +1,123 @@
+import type { CurrencyCode } from "@/lib/currency";
+
+// ============================================================================
+// MONEY
+// ============================================================================
+// Amounts are whole minor units (cents, centimes) tagged with their currency,
+// so sums and multiples by a quantity are exact. Rounding only happens in
+// three places, always to the nearest minor unit with halves away from zero:
+// - reading a price from config or a request ("12.345" -> 1235 cents)
+// - multiplying by a fractional factor
+// - converting to another currency (once per amount shown or charged)
+// Floats only reappear at the edges: JSON payloads, sheet records, display.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Money {
+  minor: number; // Integer count of the currency's minor unit
+  currency: CurrencyCode;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Digits after the decimal point, per ISO 4217
+export const MINOR_DIGITS: Record<CurrencyCode, number> = { EUR: 2, MAD: 2, USD: 2, GBP: 2 };
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Half away from zero, after dropping float noise such as 1234.4999999999998
+function roundHalfAwayFromZero(value: number) {
+  const clean = Number(value.toPrecision(15));
+  return Math.sign(clean) * Math.round(Math.abs(clean));
+}
+
+export function money(minor: number, currency: CurrencyCode): Money {
+  return { minor: Math.trunc(minor), currency };
+}
+
+export function zeroMoney(currency: CurrencyCode): Money {
+  return { minor: 0, currency };
+}
+
+// Read "150", "12.5", 12.345 or " 99.99 " as money. Decimal strings are
+// rounded digit by digit rather than through a float. Null if unreadable.
+export function parseMoney(value: string | number, currency: CurrencyCode): Money | null {
+  const digits = MINOR_DIGITS[currency];
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    // Exponent forms ("1e-7") have no plain decimal digits to read
+    const text = String(value);
+    if (/e/i.test(text)) return money(roundHalfAwayFromZero(value * 10 ** digits), currency);
+    return parseMoney(text, currency);
+  }
+
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole = "", fraction = ""] = match;
+  const padded = fraction.padEnd(digits + 1, "0");
+  let minor = Number(whole || "0") * 10 ** digits + Number(padded.slice(0, digits) || "0");
+  if (Number(padded[digits]) >= 5) minor += 1;
+  return money(sign === "-" ? -minor : minor, currency);
+}
+
+// A config price (number or decimal string), treating anything unreadable as 0
+export function moneyOf(value: string | number | undefined, currency: CurrencyCode): Money {
+  return (value === undefined ? null : parseMoney(value, currency)) ?? zeroMoney(currency);
+}
+
+// Major units as a number, e.g. for JSON fields that have always been numbers
+export function toDecimal({ minor, currency }: Money) {
+  return minor / 10 ** MINOR_DIGITS[currency];
+}
+
+// "150.00": exact, for payloads, payment APIs and records
+export function toDecimalString({ minor, currency }: Money) {
+  const digits = MINOR_DIGITS[currency];
+  const abs = String(Math.abs(minor)).padStart(digits + 1, "0");
+  const whole = abs.slice(0, abs.length - digits);
+  const fraction = abs.slice(abs.length - digits);
+  return `${minor < 0 ? "-" : ""}${whole}${digits > 0 ? `.${fraction}` : ""}`;
+}
+
+function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) throw new Error(`Cannot combine ${a.currency} with ${b.currency}`);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.minor + b.minor, a.currency);
+}
+
+export function sumMoney(amounts: Money[], currency: CurrencyCode): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+// Exact for whole quantities; fractional factors are rounded once
+export function multiplyMoney(amount: Money, factor: number): Money {
+  const minor = Number.isInteger(factor) ? amount.minor * factor : roundHalfAwayFromZero(amount.minor * factor);
+  return money(minor, amount.currency);
+}
+
+// `rate` is units of `currency` per unit of the amount's currency
+export function convertMoney(amount: Money, rate: number, currency: CurrencyCode): Money {
+  if (amount.currency === currency) return amount;
+  const scale = 10 ** (MINOR_DIGITS[currency] - MINOR_DIGITS[amount.currency]);
+  return money(roundHalfAwayFromZero(amount.minor * rate * scale), currency);
+}
+
+export function moneyEquals(a: Money, b: Money) {
+  return a.currency === b.currency && a.minor === b.minor;
+}
+
+export function compareMoney(a: Money, b: Money) {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+}
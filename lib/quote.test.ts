@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { moneyOf } from "@/lib/money";
+import { amountsMatch, quoteDayTrip, quoteStay } from "@/lib/quote";
+import type { BookingConfig, BookingItem, DayTrip } from "@/lib/types";
+
+const room: BookingItem = { id: "atlas", name: "Atlas Suite", priceEUR: "100.5" };
+
+const config: BookingConfig = {
+  maxGuestsPerUnit: 3,
+  baseGuestsPerUnit: 2,
+  maxUnits: 2,
+  maxNights: 14,
+  extraPersonFee: 15,
+  hasCityTax: true,
+  cityTaxPerNight: 2.5,
+  addons: [
+    { id: "transfer", name: "Airport transfer", priceEUR: 30 },
+    { id: "breakfast", name: "Breakfast", priceEUR: 10, pricing: "perNight" },
+    { id: "hammam", name: "Hammam", priceEUR: 12, pricing: "perGuest" },
+  ],
+};
+
+const trip: DayTrip = {
+  slug: "ourika",
+  title: "Ourika Valley",
+  basePriceEUR: 186,
+  basePriceMAD: 1860,
+  addons: [{ id: "lunch", name: "Berber lunch", description: "", priceEUR: 23.1, priceMAD: 230 }],
+  pickupZones: [{ id: "palmeraie", name: "Palmeraie", surchargeEUR: 10 }],
+};
+
+const codesOf = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+describe("quoteStay", () => {
+  it("adds nights, extra guests, city tax and add-ons to the total", () => {
+    const quote = quoteStay(room, config, {
+      checkIn: "2027-03-01",
+      checkOut: "2027-03-04",
+      guests: 3,
+      addons: [{ id: "transfer" }, { id: "breakfast" }, { id: "hammam" }],
+    });
+    assert.deepEqual(quote.issues, []);
+    assert.equal(quote.nights, 3);
+    assert.deepEqual(quote.subtotal, moneyOf("301.50", "EUR"));
+    assert.deepEqual(quote.extraGuestsCost, moneyOf(45, "EUR"));
+    assert.deepEqual(quote.cityTax, moneyOf("22.50", "EUR"));
+    assert.deepEqual(quote.addonsTotal, moneyOf(96, "EUR"));
+    assert.deepEqual(quote.total, moneyOf(465, "EUR"));
+  });
+
+  it("prices every unit booked", () => {
+    const quote = quoteStay(room, { ...config, hasCityTax: false }, {
+      checkIn: "2027-03-01",
+      checkOut: "2027-03-03",
+      guests: 4,
+      units: 2,
+    });
+    assert.deepEqual(quote.issues, []);
+    assert.deepEqual(quote.total, moneyOf(402, "EUR"));
+  });
+
+  it("counts an add-on picked twice once", () => {
+    const quote = quoteStay(room, config, {
+      checkIn: "2027-03-01",
+      checkOut: "2027-03-02",
+      guests: 2,
+      addons: [{ id: "transfer" }, { id: "transfer" }],
+    });
+    assert.deepEqual(quote.addonsTotal, moneyOf(30, "EUR"));
+  });
+
+  it("refuses units outside 1 to maxUnits", () => {
+    [0, 3, 1.5].forEach((units) => {
+      const quote = quoteStay(room, config, { checkIn: "2027-03-01", checkOut: "2027-03-02", guests: 2, units });
+      assert.ok(codesOf(quote.issues).includes("unitsRange"), `units ${units}`);
+    });
+  });
+
+  it("refuses nights outside the allowed range when only an arrival date is picked", () => {
+    const arrivalOnly = { ...config, selectCheckout: false, minNights: 2 };
+    [1, 15, 2.5].forEach((nights) => {
+      const quote = quoteStay(room, arrivalOnly, { checkIn: "2027-03-01", nights, guests: 2 });
+      assert.deepEqual(codesOf(quote.issues), ["nightsRange"], `nights ${nights}`);
+    });
+    assert.deepEqual(quoteStay(room, arrivalOnly, { checkIn: "2027-03-01", nights: 2, guests: 2 }).issues, []);
+  });
+
+  it("refuses a check-out on or before check-in", () => {
+    const quote = quoteStay(room, config, { checkIn: "2027-03-04", checkOut: "2027-03-04", guests: 2 });
+    assert.deepEqual(codesOf(quote.issues), ["checkOutBeforeCheckIn"]);
+  });
+
+  it("refuses more guests than the units hold", () => {
+    const quote = quoteStay(room, config, { checkIn: "2027-03-01", checkOut: "2027-03-02", guests: 4 });
+    assert.deepEqual(codesOf(quote.issues), ["guestsRange"]);
+  });
+});
+
+describe("quoteDayTrip", () => {
+  it("adds add-ons per guest and the pickup surcharge once, in EUR and MAD", () => {
+    const quote = quoteDayTrip(trip, {
+      tripDate: "2027-03-01",
+      guests: 2,
+      addonIds: ["lunch"],
+      pickup: { zone: "palmeraie" },
+    });
+    assert.deepEqual(quote.issues, []);
+    assert.deepEqual(quote.addonsTotal, moneyOf("46.20", "EUR"));
+    assert.deepEqual(quote.pickupSurcharge, moneyOf(10, "EUR"));
+    assert.deepEqual(quote.total, moneyOf("242.20", "EUR"));
+    assert.deepEqual(quote.totalMAD, moneyOf(2420, "MAD"));
+  });
+
+  it("counts an add-on picked twice once", () => {
+    const quote = quoteDayTrip(trip, {
+      tripDate: "2027-03-01",
+      guests: 2,
+      addonIds: ["lunch", "lunch"],
+      pickup: { zone: "palmeraie" },
+    });
+    assert.deepEqual(quote.addonsTotal, moneyOf("46.20", "EUR"));
+    assert.deepEqual(quote.addonsTotalMAD, moneyOf(460, "MAD"));
+  });
+
+  it("prices the smallest vehicle the party fits in", () => {
+    const withVehicles: DayTrip = {
+      ...trip,
+      pickupZones: [],
+      vehicles: [
+        { id: "car", name: "Car", maxGuests: 3, priceEUR: 186, priceMAD: 1860 },
+        { id: "van", name: "Minivan", maxGuests: 7, priceEUR: 290, priceMAD: 2900 },
+      ],
+    };
+    const quote = quoteDayTrip(withVehicles, { tripDate: "2027-03-01", guests: 5, addonIds: [] });
+    assert.equal(quote.vehicle?.id, "van");
+    assert.deepEqual(quote.total, moneyOf(290, "EUR"));
+    assert.deepEqual(codesOf(quoteDayTrip(withVehicles, { tripDate: "2027-03-01", guests: 8, addonIds: [] }).issues), [
+      "guestsRange",
+    ]);
+  });
+
+  it("reports unknown add-ons and a missing date", () => {
+    const quote = quoteDayTrip(trip, { tripDate: "", guests: 2, addonIds: ["quad"], pickup: { zone: "palmeraie" } });
+    assert.deepEqual(codesOf(quote.issues), ["dateRequired", "unknownAddon"]);
+  });
+});
+
+describe("amountsMatch", () => {
+  it("compares a submitted decimal with the quote in minor units", () => {
+    assert.equal(amountsMatch("465.00", moneyOf(465, "EUR")), true);
+    assert.equal(amountsMatch("465", moneyOf(465, "EUR")), true);
+    assert.equal(amountsMatch(465, moneyOf(465, "EUR")), true);
+    assert.equal(amountsMatch("464.99", moneyOf(465, "EUR")), false);
+    assert.equal(amountsMatch("abc", moneyOf(465, "EUR")), false);
+  });
+});
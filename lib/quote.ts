@@ -0,0 +1,869 @@
+import { addDays, DATE_PATTERN, daysBetween, DEFAULT_TIME_ZONE, weekdayOf } from "@/lib/dates";
+import { addMoney, moneyOf, multiplyMoney, parseMoney, sumMoney, zeroMoney } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import type {
+  BookingConfig,
+  BookingItem,
+  DayTrip,
+  DepartureSlot,
+  GuestParty,
+  GuestRules,
+  GuestType,
+  PickupPoint,
+  PickupZone,
+  RatePlan,
+  StayAddon,
+  StayAddonSelection,
+  StayRule,
+  VehicleTier,
+} from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QuoteLineKind = "stay" | "extraGuests" | "cityTax" | "trip" | "addon" | "pickup";
+
+export interface QuoteLine {
+  kind: QuoteLineKind;
+  id: string;
+  label: string;
+  quantity: number;
+  unitPrice: Money;
+  amount: Money; // unitPrice × quantity, exact
+  nights?: number; // Stay lines: how many nights were priced at this rate
+  guestType?: GuestType; // Per-person lines, when children are priced apart
+}
+
+// Stable ids for issues, so clients can show them in the guest's language
+export type QuoteIssueCode =
+  | "checkInRequired"
+  | "checkOutRequired"
+  | "checkOutBeforeCheckIn"
+  | "closedToArrival"
+  | "closedToDeparture"
+  | "minStay"
+  | "maxStay"
+  | "nightsRange"
+  | "unitsRange"
+  | "guestsRange"
+  | "dateRequired"
+  | "unknownAddon"
+  | "addonQuantityRange"
+  | "adultsRequired"
+  | "childAgeRange"
+  | "infantsRange"
+  | "tripNotRunning"
+  | "tripBlackout"
+  | "departureRequired"
+  | "unknownDeparture"
+  | "unknownPickup"
+  | "pickupZoneRequired";
+
+export interface QuoteIssue {
+  field: string;
+  code: QuoteIssueCode;
+  message: string; // English, as returned by the API routes
+  values?: Record<string, string | number>; // Placeholders of the message
+}
+
+// Why a stay rule rules a date out
+export type Restriction = Omit<QuoteIssue, "field">;
+
+export interface StayQuoteRequest {
+  checkIn: string;
+  checkOut?: string;
+  nights?: number;
+  guests: number; // Everyone counts as an adult unless `party` is given
+  party?: GuestParty;
+  units?: number;
+  addons?: StayAddonSelection[];
+}
+
+export type GuestCounts = Record<GuestType, number>;
+
+// The price of one night and the rate plan it came from
+export interface NightlyRate {
+  date: string;
+  rateId: string;
+  label: string;
+  price: Money;
+}
+
+export interface StayQuote {
+  currency: "EUR";
+  nights: number;
+  guests: number; // Everyone, infants included
+  guestCounts: GuestCounts; // Older children are counted as adults
+  units: number;
+  pricePerNight: Money; // Standard rate; see `nightly` for the rate of each night
+  nightly: NightlyRate[];
+  extraGuests: number;
+  subtotal: Money;
+  extraGuestsCost: Money;
+  cityTax: Money;
+  addonsTotal: Money;
+  total: Money;
+  lines: QuoteLine[];
+  issues: QuoteIssue[];
+}
+
+export interface DayTripQuoteRequest {
+  tripDate: string;
+  departureTime?: string; // One of the trip's slots; required when it has any
+  guests: number;
+  addonIds: string[];
+  pickup?: PickupRequest;
+}
+
+// A known pickup point, or a zone for an address typed by the guest. A zone
+// is required when the trip has any.
+export interface PickupRequest {
+  pointId?: string;
+  zone?: string;
+}
+
+// A day trip's per-vehicle price on one date
+export interface TripRate {
+  date: string;
+  rateId: string;
+  label: string;
+  priceEUR: Money;
+  priceMAD: Money;
+  vehicle: VehicleTier | null; // Null for trips without vehicle tiers
+}
+
+export interface DayTripQuote {
+  currency: "EUR";
+  guests: number;
+  vehicle: VehicleTier | null; // The vehicle the guests fit in
+  slot: DepartureSlot | null; // Null for trips without slots
+  pickupPoint: PickupPoint | null;
+  pickupZone: PickupZone | null;
+  maxGuests: number;
+  basePrice: Money;
+  basePriceMAD: Money;
+  addonsTotal: Money;
+  addonsTotalMAD: Money;
+  pickupSurcharge: Money;
+  pickupSurchargeMAD: Money;
+  total: Money;
+  totalMAD: Money;
+  lines: QuoteLine[];
+  issues: QuoteIssue[];
+}
+
+// The stay rules in force on one date, after every matching StayRule
+export interface DateRules {
+  minNights: number;
+  maxNights: number;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+}
+
+export type ResolvedBookingConfig = Required<BookingConfig>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const DEFAULT_BOOKING_CONFIG: ResolvedBookingConfig = {
+  maxGuestsPerUnit: 2,
+  baseGuestsPerUnit: 2,
+  minNights: 1,
+  maxNights: 30,
+  maxUnits: 1,
+  unitLabel: "room",
+  hasCityTax: false,
+  cityTaxPerNight: 2.5,
+  extraPersonFee: 0,
+  selectCheckout: true,
+  propertyName: "",
+  paypalContainerId: "",
+  isPerPersonPricing: false,
+  stayRules: [],
+  timeZone: DEFAULT_TIME_ZONE,
+  addons: [],
+  guestRules: {},
+};
+
+export const DEFAULT_ADDON_MAX_QUANTITY = 10;
+
+export const DEFAULT_GUEST_RULES: Required<GuestRules> = {
+  childMaxAge: 11,
+  maxInfantsPerUnit: 1,
+  capacity: ["adults", "children"],
+  extraPersonFee: ["adults", "children"],
+  cityTax: ["adults"],
+  perPerson: ["adults", "children"],
+  childPrice: 1,
+};
+
+// Ages a child can be given; younger guests are infants
+export const MIN_CHILD_AGE = 2;
+export const MAX_CHILD_AGE = 17;
+
+export const DEFAULT_DAY_TRIP_MAX_GUESTS = 2;
+
+export const DEFAULT_DEPARTURES_PER_DAY = 1;
+export const DEFAULT_SLOT_CAPACITY = 1;
+
+export function resolveBookingConfig(config: BookingConfig): ResolvedBookingConfig {
+  const resolved = { ...DEFAULT_BOOKING_CONFIG };
+  (Object.keys(config) as (keyof BookingConfig)[]).forEach((key) => {
+    if (config[key] !== undefined) {
+      (resolved as Record<string, unknown>)[key] = config[key];
+    }
+  });
+  return resolved;
+}
+
+export function resolveGuestRules(rules: GuestRules = {}): Required<GuestRules> {
+  const resolved = { ...DEFAULT_GUEST_RULES };
+  (Object.keys(rules) as (keyof GuestRules)[]).forEach((key) => {
+    if (rules[key] !== undefined) {
+      (resolved as Record<string, unknown>)[key] = rules[key];
+    }
+  });
+  return resolved;
+}
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value);
+
+const nightsLabel = (n: number) => `${n} night${n > 1 ? "s" : ""}`;
+
+// Compare a submitted amount (number or "123.45" string) with a quoted total
+// in minor units, so float noise never rejects an honest booking.
+export function amountsMatch(submitted: number | string, expected: Money) {
+  const value = parseMoney(submitted, expected.currency);
+  return value !== null && value.minor === expected.minor;
+}
+
+// ============================================================================
+// STAY RULES
+// ============================================================================
+
+function ruleMatches(rule: StayRule | RatePlan, date: string) {
+  if (rule.from && date < rule.from) return false;
+  if (rule.to && date > rule.to) return false;
+  if (rule.weekdays && !rule.weekdays.includes(weekdayOf(date))) return false;
+  return true;
+}
+
+// The item's min/max nights, overridden field by field by each matching rule
+export function rulesFor(date: string, config: BookingConfig): DateRules {
+  const { minNights, maxNights, stayRules } = resolveBookingConfig(config);
+  const rules: DateRules = { minNights, maxNights, closedToArrival: false, closedToDeparture: false };
+  stayRules.forEach((rule) => {
+    if (!ruleMatches(rule, date)) return;
+    if (rule.minNights !== undefined) rules.minNights = rule.minNights;
+    if (rule.maxNights !== undefined) rules.maxNights = rule.maxNights;
+    if (rule.closedToArrival !== undefined) rules.closedToArrival = rule.closedToArrival;
+    if (rule.closedToDeparture !== undefined) rules.closedToDeparture = rule.closedToDeparture;
+  });
+  return rules;
+}
+
+// Why a guest cannot arrive on a date, or null if they can
+export function arrivalRestriction(checkIn: string, config: BookingConfig): Restriction | null {
+  return rulesFor(checkIn, config).closedToArrival
+    ? { code: "closedToArrival", message: "No arrivals on this day" }
+    : null;
+}
+
+// Why a stay cannot end on a date, or null if it can. Min/max nights are
+// read from the arrival date, closed-to-departure from the check-out date.
+export function departureRestriction(checkIn: string, checkOut: string, config: BookingConfig): Restriction | null {
+  const { minNights, maxNights } = rulesFor(checkIn, config);
+  const nights = daysBetween(checkIn, checkOut);
+  if (nights < minNights) {
+    return {
+      code: "minStay",
+      message: `Minimum stay from this arrival is ${nightsLabel(minNights)}`,
+      values: { count: minNights },
+    };
+  }
+  if (nights > maxNights) {
+    return {
+      code: "maxStay",
+      message: `Maximum stay from this arrival is ${nightsLabel(maxNights)}`,
+      values: { count: maxNights },
+    };
+  }
+  if (rulesFor(checkOut, config).closedToDeparture) {
+    return { code: "closedToDeparture", message: "No departures on this day" };
+  }
+  return null;
+}
+
+// ============================================================================
+// RATE PLANS
+// ============================================================================
+
+// Longer stays fail the maxNights check anyway; this only bounds the loop
+const MAX_PRICED_NIGHTS = 731;
+
+// The highest priority plan covering a date, the later one on a tie
+function planFor(rates: RatePlan[] | undefined, date: string) {
+  let best: RatePlan | null = null;
+  for (const plan of rates ?? []) {
+    if (ruleMatches(plan, date) && (!best || (plan.priority ?? 0) >= (best.priority ?? 0))) best = plan;
+  }
+  return best;
+}
+
+// The rate a night is priced at, or the item's standard price
+export function rateFor(item: BookingItem, date: string): NightlyRate {
+  const best = planFor(item.rates, date);
+  if (!best) {
+    const label = item.rates && item.rates.length > 0 ? "Standard rate" : item.name;
+    return { date, rateId: item.id, label, price: moneyOf(item.priceEUR, "EUR") };
+  }
+  return { date, rateId: best.id, label: best.name, price: moneyOf(best.priceEUR, "EUR") };
+}
+
+// A trip's vehicles from smallest to largest
+export function vehicleTiersOf(trip: DayTrip): VehicleTier[] {
+  return [...(trip.vehicles ?? [])].sort((a, b) => a.maxGuests - b.maxGuests);
+}
+
+// The largest party a trip takes: its biggest vehicle, or `maxGuests`
+export function maxTripGuests(trip: DayTrip) {
+  const tiers = vehicleTiersOf(trip);
+  return tiers.length > 0 ? tiers[tiers.length - 1].maxGuests : trip.maxGuests ?? DEFAULT_DAY_TRIP_MAX_GUESTS;
+}
+
+// The smallest vehicle that seats `guests`, or null if none does
+export function vehicleFor(trip: DayTrip, guests: number): VehicleTier | null {
+  return vehicleTiersOf(trip).find((tier) => guests <= tier.maxGuests) ?? null;
+}
+
+// The per-vehicle price of a day trip on a date, or its base price. Rate
+// plans give the base price on their dates; each vehicle is scaled by its
+// own price over the base price. Too large a party is priced in the largest.
+export function tripRateFor(trip: DayTrip, date: string, guests = 1): TripRate {
+  const tiers = vehicleTiersOf(trip);
+  const vehicle = tiers.length > 0 ? vehicleFor(trip, guests) ?? tiers[tiers.length - 1] : null;
+  const listEUR = vehicle ? vehicle.priceEUR : trip.basePriceEUR;
+  const listMAD = vehicle ? vehicle.priceMAD : trip.basePriceMAD;
+
+  const plan = date ? planFor(trip.rates, date) : null;
+  if (!plan) {
+    return {
+      date,
+      rateId: trip.slug,
+      label: trip.title,
+      priceEUR: moneyOf(listEUR, "EUR"),
+      priceMAD: moneyOf(listMAD, "MAD"),
+      vehicle,
+    };
+  }
+  // Scaled prices are rounded to whole dirhams, like list prices
+  const planMAD =
+    plan.priceMAD ?? (trip.basePriceEUR > 0 ? Math.round((plan.priceEUR * trip.basePriceMAD) / trip.basePriceEUR) : 0);
+  const scaleEUR = vehicle && trip.basePriceEUR > 0 ? listEUR / trip.basePriceEUR : 1;
+  const scaleMAD = vehicle && trip.basePriceMAD > 0 ? listMAD / trip.basePriceMAD : 1;
+  return {
+    date,
+    rateId: plan.id,
+    label: `${trip.title} (${plan.name})`,
+    priceEUR: multiplyMoney(moneyOf(plan.priceEUR, "EUR"), scaleEUR),
+    priceMAD: moneyOf(Math.round(planMAD * scaleMAD), "MAD"),
+    vehicle,
+  };
+}
+
+// Nights priced at the same rate are grouped into one line, in stay order
+function stayLinesOf(nightly: NightlyRate[], units: number): QuoteLine[] {
+  const lines: QuoteLine[] = [];
+  nightly.forEach(({ rateId, label, price }) => {
+    let line = lines.find((l) => l.id === rateId && l.unitPrice.minor === price.minor);
+    if (!line) {
+      line = { kind: "stay", id: rateId, label, quantity: 0, unitPrice: price, amount: zeroMoney(price.currency), nights: 0 };
+      lines.push(line);
+    }
+    line.nights = (line.nights ?? 0) + 1;
+    line.quantity += units;
+    line.amount = multiplyMoney(price, line.quantity);
+  });
+  return lines;
+}
+
+// ============================================================================
+// GUESTS
+// ============================================================================
+
+// Adults, children and infants in a party. Children older than
+// `childMaxAge` are counted as adults; invalid entries are left out.
+export function guestCountsOf(party: GuestParty, rules: GuestRules = {}): GuestCounts {
+  const { childMaxAge } = resolveGuestRules(rules);
+  const ages = Array.isArray(party.childAges) ? party.childAges.filter(isWholeNumber) : [];
+  const olderChildren = ages.filter((age) => age > childMaxAge).length;
+  return {
+    adults: (isWholeNumber(party.adults) ? party.adults : 0) + olderChildren,
+    children: ages.length - olderChildren,
+    infants: isWholeNumber(party.infants) ? party.infants : 0,
+  };
+}
+
+// How many guests are of the given types
+export function countGuests(counts: GuestCounts, types: GuestType[]) {
+  return types.reduce((sum, type) => sum + counts[type], 0);
+}
+
+function partyIssues(party: GuestParty, maxInfants: number): QuoteIssue[] {
+  const issues: QuoteIssue[] = [];
+  if (!isWholeNumber(party.adults) || party.adults < 1) {
+    issues.push({ field: "adults", code: "adultsRequired", message: "At least one adult is required" });
+  }
+  const ages = Array.isArray(party.childAges) ? party.childAges : [null];
+  if (ages.some((age) => !isWholeNumber(age) || age < MIN_CHILD_AGE || age > MAX_CHILD_AGE)) {
+    issues.push({
+      field: "childAges",
+      code: "childAgeRange",
+      message: `Child ages must be between ${MIN_CHILD_AGE} and ${MAX_CHILD_AGE}`,
+      values: { min: MIN_CHILD_AGE, max: MAX_CHILD_AGE },
+    });
+  }
+  if (!isWholeNumber(party.infants) || party.infants < 0 || party.infants > maxInfants) {
+    issues.push({
+      field: "infants",
+      code: "infantsRange",
+      message: `Infants must be between 0 and ${maxInfants}`,
+      values: { min: 0, max: maxInfants },
+    });
+  }
+  return issues;
+}
+
+// ============================================================================
+// STAY ADD-ONS
+// ============================================================================
+
+// How many times an add-on is charged for a stay
+export function addonQuantity(addon: StayAddon, nights: number, guests: number, quantity = 1) {
+  switch (addon.pricing ?? "perStay") {
+    case "perNight":
+      return nights;
+    case "perGuest":
+      return guests;
+    case "perGuestPerNight":
+      return guests * nights;
+    case "perItem":
+      return quantity;
+    default:
+      return 1;
+  }
+}
+
+// One line per picked add-on, in the order they were picked. A repeated id
+// only counts once.
+function addonLinesOf(
+  addons: StayAddon[],
+  selections: StayAddonSelection[],
+  nights: number,
+  guests: number,
+  issues: QuoteIssue[]
+): QuoteLine[] {
+  const lines: QuoteLine[] = [];
+  selections.forEach(({ id, quantity = 1 }) => {
+    if (lines.some((line) => line.id === id)) return;
+    const addon = addons.find((a) => a.id === id);
+    if (!addon) {
+      issues.push({ field: "addons", code: "unknownAddon", message: `Unknown add-on: ${id}`, values: { id } });
+      return;
+    }
+    if (addon.pricing === "perItem") {
+      const max = addon.maxQuantity ?? DEFAULT_ADDON_MAX_QUANTITY;
+      if (!isWholeNumber(quantity) || quantity < 1 || quantity > max) {
+        issues.push({
+          field: "addons",
+          code: "addonQuantityRange",
+          message: `Quantity of ${addon.name} must be between 1 and ${max}`,
+          values: { name: addon.name, min: 1, max },
+        });
+        return;
+      }
+    }
+    const unitPrice = moneyOf(addon.priceEUR, "EUR");
+    const count = addonQuantity(addon, nights, guests, quantity);
+    lines.push({
+      kind: "addon",
+      id: addon.id,
+      label: addon.name,
+      quantity: count,
+      unitPrice,
+      amount: multiplyMoney(unitPrice, count),
+    });
+  });
+  return lines;
+}
+
+// ============================================================================
+// STAY QUOTE
+// ============================================================================
+
+export function quoteStay(item: BookingItem, config: BookingConfig, request: StayQuoteRequest): StayQuote {
+  const {
+    maxGuestsPerUnit,
+    baseGuestsPerUnit,
+    maxUnits,
+    hasCityTax,
+    cityTaxPerNight,
+    extraPersonFee,
+    selectCheckout,
+    isPerPersonPricing,
+    addons,
+    guestRules,
+  } = resolveBookingConfig(config);
+  const rules = resolveGuestRules(guestRules);
+
+  const issues: QuoteIssue[] = [];
+  const units = request.units ?? 1;
+
+  // Without a party (older clients, single guest counter) everyone is an adult
+  const party = request.party ?? { adults: request.guests, childAges: [], infants: 0 };
+  const guestCounts = guestCountsOf(party, rules);
+  const guests = request.party ? countGuests(guestCounts, ["adults", "children", "infants"]) : request.guests;
+
+  const hasCheckIn = DATE_PATTERN.test(request.checkIn);
+  if (!hasCheckIn) {
+    issues.push({ field: "checkIn", code: "checkInRequired", message: "Select a check-in date" });
+  }
+
+  const hasRange = selectCheckout && hasCheckIn && DATE_PATTERN.test(request.checkOut ?? "");
+  const nights = hasRange
+    ? Math.max(1, daysBetween(request.checkIn, request.checkOut as string))
+    : request.nights ?? 1;
+
+  const arrival = hasCheckIn ? arrivalRestriction(request.checkIn, config) : null;
+  if (arrival) issues.push({ field: "checkIn", ...arrival });
+
+  // Per-person journeys are not priced by the night, so only rooms are checked
+  if (!isPerPersonPricing && selectCheckout) {
+    if (!hasRange) {
+      issues.push({ field: "checkOut", code: "checkOutRequired", message: "Select a check-out date" });
+    } else if ((request.checkOut as string) <= request.checkIn) {
+      issues.push({ field: "checkOut", code: "checkOutBeforeCheckIn", message: "Check-out must be after check-in" });
+    } else {
+      const departure = departureRestriction(request.checkIn, request.checkOut as string, config);
+      if (departure) issues.push({ field: "checkOut", ...departure });
+    }
+  } else if (!isPerPersonPricing) {
+    const { minNights, maxNights } = hasCheckIn ? rulesFor(request.checkIn, config) : resolveBookingConfig(config);
+    if (!isWholeNumber(nights) || nights < Math.max(1, minNights) || nights > maxNights) {
+      issues.push({
+        field: "nights",
+        code: "nightsRange",
+        message: `Nights must be between ${Math.max(1, minNights)} and ${maxNights}`,
+        values: { min: Math.max(1, minNights), max: maxNights },
+      });
+    } else if (hasCheckIn) {
+      const departure = departureRestriction(request.checkIn, addDays(request.checkIn, nights), config);
+      if (departure) issues.push({ field: "nights", ...departure });
+    }
+  }
+
+  if (!isWholeNumber(units) || units < 1 || units > maxUnits) {
+    issues.push({
+      field: "units",
+      code: "unitsRange",
+      message: `Units must be between 1 and ${maxUnits}`,
+      values: { min: 1, max: maxUnits },
+    });
+  }
+
+  if (request.party) {
+    issues.push(...partyIssues(request.party, rules.maxInfantsPerUnit * (isWholeNumber(units) ? units : 1)));
+  }
+
+  // Only the guest types in `capacity` take up room
+  const maxGuests = maxGuestsPerUnit * units;
+  const capacityGuests = countGuests(guestCounts, rules.capacity);
+  if (!isWholeNumber(party.adults) || capacityGuests < 1 || capacityGuests > maxGuests) {
+    issues.push({
+      field: "guests",
+      code: "guestsRange",
+      message: `Guests must be between 1 and ${maxGuests}`,
+      values: { min: 1, max: maxGuests },
+    });
+  }
+
+  // Per-person pricing mode (for journeys): arrival rate × guests
+  // Standard mode (for rooms): each night's rate × units + extras
+  const pricePerNight = moneyOf(item.priceEUR, "EUR");
+  const baseGuests = baseGuestsPerUnit * units;
+  const extraGuests = isPerPersonPricing ? 0 : Math.max(0, countGuests(guestCounts, rules.extraPersonFee) - baseGuests);
+  const pricedNights = isWholeNumber(nights) && nights >= 1 ? Math.min(nights, MAX_PRICED_NIGHTS) : 1;
+
+  const nightly = Array.from({ length: isPerPersonPricing ? 1 : pricedNights }, (_, i) =>
+    hasCheckIn
+      ? rateFor(item, addDays(request.checkIn, i))
+      : { date: "", rateId: item.id, label: item.name, price: pricePerNight }
+  );
+
+  const lines: QuoteLine[] = [];
+
+  if (isPerPersonPricing) {
+    const { rateId, label, price } = nightly[0];
+    const payers = countGuests(guestCounts, rules.perPerson);
+    // Children at their own price get a line of their own
+    const childPayers = rules.perPerson.includes("children") && rules.childPrice !== 1 ? guestCounts.children : 0;
+    if (childPayers > 0) {
+      const childPrice = multiplyMoney(price, rules.childPrice);
+      const others = payers - childPayers;
+      lines.push(
+        { kind: "stay", id: rateId, label, quantity: others, unitPrice: price, amount: multiplyMoney(price, others), guestType: "adults" },
+        {
+          kind: "stay",
+          id: `${rateId}-children`,
+          label: `${label} (children)`,
+          quantity: childPayers,
+          unitPrice: childPrice,
+          amount: multiplyMoney(childPrice, childPayers),
+          guestType: "children",
+        }
+      );
+    } else {
+      lines.push({ kind: "stay", id: rateId, label, quantity: payers, unitPrice: price, amount: multiplyMoney(price, payers) });
+    }
+  } else {
+    lines.push(...stayLinesOf(nightly, units));
+  }
+
+  if (extraGuests > 0 && extraPersonFee > 0) {
+    const fee = moneyOf(extraPersonFee, "EUR");
+    lines.push({
+      kind: "extraGuests",
+      id: "extra-guests",
+      label: "Extra guests",
+      quantity: extraGuests * nights,
+      unitPrice: fee,
+      amount: multiplyMoney(fee, extraGuests * nights),
+    });
+  }
+
+  // Guest types outside `cityTax` (children and infants by default) are exempt
+  const taxedGuests = countGuests(guestCounts, rules.cityTax);
+  if (hasCityTax && !isPerPersonPricing && taxedGuests > 0) {
+    const tax = moneyOf(cityTaxPerNight, "EUR");
+    lines.push({
+      kind: "cityTax",
+      id: "city-tax",
+      label: "City tax",
+      quantity: taxedGuests * nights,
+      unitPrice: tax,
+      amount: multiplyMoney(tax, taxedGuests * nights),
+    });
+  }
+
+  // Per-guest add-ons are not charged for infants
+  const addonGuests = guestCounts.adults + guestCounts.children;
+  lines.push(...addonLinesOf(addons, request.addons ?? [], pricedNights, addonGuests, issues));
+
+  const sumOf = (kind: QuoteLineKind) =>
+    sumMoney(lines.filter((line) => line.kind === kind).map((line) => line.amount), "EUR");
+
+  return {
+    currency: "EUR",
+    nights,
+    guests,
+    guestCounts,
+    units,
+    pricePerNight,
+    nightly,
+    extraGuests,
+    subtotal: sumOf("stay"),
+    extraGuestsCost: sumOf("extraGuests"),
+    cityTax: sumOf("cityTax"),
+    addonsTotal: sumOf("addon"),
+    total: sumMoney(lines.map((line) => line.amount), "EUR"),
+    lines,
+    issues,
+  };
+}
+
+// ============================================================================
+// DAY TRIP SCHEDULE
+// ============================================================================
+
+// Why a trip cannot go on a date, or null if it runs that day. Sold-out
+// dates are checked against bookings separately (lib/availability.ts).
+export function tripDateRestriction(trip: DayTrip, date: string): Restriction | null {
+  if (trip.weekdays && !trip.weekdays.includes(weekdayOf(date))) {
+    return { code: "tripNotRunning", message: "This trip does not run on this day" };
+  }
+  if ((trip.blackouts ?? []).some(({ from, to = from }) => date >= from && date <= to)) {
+    return { code: "tripBlackout", message: "This trip is not running on this date" };
+  }
+  return null;
+}
+
+// A trip's slots in time order
+export function slotsOf(trip: DayTrip): DepartureSlot[] {
+  return [...(trip.slots ?? [])].sort((a, b) => (a.time < b.time ? -1 : a.time > b.time ? 1 : 0));
+}
+
+export function slotFor(trip: DayTrip, time: string): DepartureSlot | null {
+  return trip.slots?.find((slot) => slot.time === time) ?? null;
+}
+
+// ============================================================================
+// PICKUP
+// ============================================================================
+
+export function pickupZoneFor(trip: DayTrip, zoneId: string): PickupZone | null {
+  return trip.pickupZones?.find((zone) => zone.id === zoneId) ?? null;
+}
+
+// A zone's surcharge. MAD is scaled from the base prices when not set, in
+// whole dirhams.
+export function pickupSurchargeOf(trip: DayTrip, zone: PickupZone | null) {
+  const surchargeEUR = zone?.surchargeEUR ?? 0;
+  const surchargeMAD =
+    zone?.surchargeMAD ?? (trip.basePriceEUR > 0 ? Math.round((surchargeEUR * trip.basePriceMAD) / trip.basePriceEUR) : 0);
+  return { priceEUR: moneyOf(surchargeEUR, "EUR"), priceMAD: moneyOf(surchargeMAD, "MAD") };
+}
+
+// Points whose name, zone or notes contain every word of `search`
+export function searchPickupPoints(trip: DayTrip, search: string): PickupPoint[] {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  return (trip.pickupPoints ?? []).filter((point) => {
+    const text = [point.name, pickupZoneFor(trip, point.zone)?.name, point.notes].join(" ").toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+// ============================================================================
+// DAY TRIP QUOTE
+// ============================================================================
+
+export function quoteDayTrip(trip: DayTrip, request: DayTripQuoteRequest): DayTripQuote {
+  const { tripDate, departureTime = "", guests, addonIds, pickup = {} } = request;
+  const maxGuests = maxTripGuests(trip);
+  const issues: QuoteIssue[] = [];
+  const slot = slotFor(trip, departureTime);
+
+  if (!DATE_PATTERN.test(tripDate)) {
+    issues.push({ field: "tripDate", code: "dateRequired", message: "Select a date" });
+  } else {
+    const restriction = tripDateRestriction(trip, tripDate);
+    if (restriction) issues.push({ field: "tripDate", ...restriction });
+  }
+
+  if (trip.slots && trip.slots.length > 0 && !slot) {
+    issues.push(
+      departureTime
+        ? {
+            field: "departureTime",
+            code: "unknownDeparture",
+            message: `Unknown departure time: ${departureTime}`,
+            values: { time: departureTime },
+          }
+        : { field: "departureTime", code: "departureRequired", message: "Select a departure time" }
+    );
+  }
+
+  if (!isWholeNumber(guests) || guests < 1 || guests > maxGuests) {
+    issues.push({
+      field: "guests",
+      code: "guestsRange",
+      message: `Guests must be between 1 and ${maxGuests}`,
+      values: { min: 1, max: maxGuests },
+    });
+  }
+
+  // Price is per vehicle, so the base line does not scale with guests
+  const rate = tripRateFor(trip, DATE_PATTERN.test(tripDate) ? tripDate : "", isWholeNumber(guests) ? guests : 1);
+  const lines: QuoteLine[] = [
+    {
+      kind: "trip",
+      id: rate.rateId,
+      label: rate.vehicle ? `${rate.label} · ${rate.vehicle.name}` : rate.label,
+      quantity: 1,
+      unitPrice: rate.priceEUR,
+      amount: rate.priceEUR,
+    },
+  ];
+
+  // One line per picked add-on; a repeated id only counts once, as for stays
+  let addonsTotalMAD = zeroMoney("MAD");
+  [...new Set(addonIds)].forEach((addonId) => {
+    const addon = trip.addons.find((a) => a.id === addonId);
+    if (!addon) {
+      issues.push({
+        field: "addonIds",
+        code: "unknownAddon",
+        message: `Unknown add-on: ${addonId}`,
+        values: { id: addonId },
+      });
+      return;
+    }
+    const unitPrice = moneyOf(addon.priceEUR, "EUR");
+    lines.push({
+      kind: "addon",
+      id: addon.id,
+      label: addon.name,
+      quantity: guests,
+      unitPrice,
+      amount: multiplyMoney(unitPrice, guests),
+    });
+    addonsTotalMAD = addMoney(addonsTotalMAD, multiplyMoney(moneyOf(addon.priceMAD, "MAD"), guests));
+  });
+
+  // A known point is picked up in its own zone
+  const pickupPoint = pickup.pointId ? trip.pickupPoints?.find((point) => point.id === pickup.pointId) ?? null : null;
+  if (pickup.pointId && !pickupPoint) {
+    issues.push({
+      field: "pickup",
+      code: "unknownPickup",
+      message: `Unknown pickup: ${pickup.pointId}`,
+      values: { id: pickup.pointId },
+    });
+  }
+  // Zones are only checked, and charged, when the trip has some
+  const hasZones = (trip.pickupZones?.length ?? 0) > 0;
+  const zoneId = pickupPoint?.zone ?? pickup.zone ?? "";
+  const pickupZone = pickupZoneFor(trip, zoneId);
+  if (hasZones && zoneId && !pickupZone) {
+    issues.push({ field: "pickup", code: "unknownPickup", message: `Unknown pickup: ${zoneId}`, values: { id: zoneId } });
+  } else if (hasZones && !zoneId && !pickup.pointId) {
+    issues.push({ field: "pickup", code: "pickupZoneRequired", message: "Select the pickup area" });
+  }
+
+  // Once per booking, like the vehicle
+  const { priceEUR: pickupSurcharge, priceMAD: pickupSurchargeMAD } = pickupSurchargeOf(trip, pickupZone);
+  if (pickupZone && pickupSurcharge.minor > 0) {
+    lines.push({
+      kind: "pickup",
+      id: pickupZone.id,
+      label: `Pickup: ${pickupZone.name}`,
+      quantity: 1,
+      unitPrice: pickupSurcharge,
+      amount: pickupSurcharge,
+    });
+  }
+
+  const addonsTotal = sumMoney(lines.filter((line) => line.kind === "addon").map((line) => line.amount), "EUR");
+
+  return {
+    currency: "EUR",
+    guests,
+    vehicle: rate.vehicle,
+    slot,
+    pickupPoint,
+    pickupZone,
+    maxGuests,
+    basePrice: rate.priceEUR,
+    basePriceMAD: rate.priceMAD,
+    addonsTotal,
+    addonsTotalMAD,
+    pickupSurcharge,
+    pickupSurchargeMAD,
+    total: sumMoney([rate.priceEUR, addonsTotal, pickupSurcharge], "EUR"),
+    totalMAD: sumMoney([rate.priceMAD, addonsTotalMAD, pickupSurchargeMAD], "MAD"),
+    lines,
+    issues,
+  };
+}
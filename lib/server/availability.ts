@@ -0,0 +1,131 @@
+import { feedsOf, mergeAvailability } from "@/lib/availability";
+import type { BookedUnits, FeedRanges, MergedAvailability } from "@/lib/availability";
+import { addDays, DEFAULT_TIME_ZONE, todayIn } from "@/lib/dates";
+import { blockedRanges, parseICal } from "@/lib/ical";
+import type { BookingItem, ICalFeed } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AvailabilityOptions {
+  // Property time zone; feeds' timed events are converted into it
+  timeZone?: string;
+  cacheSeconds?: number;
+  horizonDays?: number;
+  units?: number; // Units the feeds share; a night is full once all are booked
+  maxFeedBytes?: number; // Larger feeds are refused; 2 MB by default
+  fetch?: typeof fetch;
+}
+
+export interface ItemAvailability extends MergedAvailability {
+  // Feeds that could not be loaded (and had no cached copy)
+  errors: { channel: string; error: string }[];
+}
+
+interface CachedFeed {
+  source: string;
+  expiresAt: number;
+}
+
+// ============================================================================
+// FEED FETCHING
+// ============================================================================
+
+const MAX_CACHED_FEEDS = 200;
+const DEFAULT_MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+// Least recently fetched first, so the oldest feed is dropped when it is full
+const feedCache = new Map<string, CachedFeed>();
+
+function cacheFeed(url: string, feed: CachedFeed) {
+  feedCache.delete(url);
+  feedCache.set(url, feed);
+  if (feedCache.size > MAX_CACHED_FEEDS) {
+    const [oldest] = feedCache.keys();
+    feedCache.delete(oldest);
+  }
+}
+
+// Read a response body, giving up as soon as it grows past `maxBytes`
+async function readLimited(response: Response, maxBytes: number) {
+  if (Number(response.headers.get("content-length")) > maxBytes) throw new Error("Feed is too large");
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error("Feed is too large");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Fetch a feed, serving it from memory for `cacheSeconds` and falling back to
+// the last good copy if the channel is down
+export async function fetchFeed(
+  url: string,
+  { cacheSeconds = 900, maxFeedBytes = DEFAULT_MAX_FEED_BYTES, fetch: fetchImpl = fetch }: AvailabilityOptions = {}
+) {
+  const cached = feedCache.get(url);
+  if (cached && cached.expiresAt > Date.now()) return cached.source;
+
+  try {
+    const response = await fetchImpl(url, { headers: { Accept: "text/calendar" }, cache: "no-store" });
+    if (!response.ok) throw new Error(`Feed responded ${response.status}`);
+    const source = await readLimited(response, maxFeedBytes);
+    if (!source.includes("BEGIN:VCALENDAR")) throw new Error("Not an iCalendar feed");
+
+    cacheFeed(url, { source, expiresAt: Date.now() + cacheSeconds * 1000 });
+    return source;
+  } catch (err) {
+    if (cached) {
+      console.error("iCal fetch failed, serving cached copy:", err);
+      return cached.source;
+    }
+    throw err;
+  }
+}
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+// Load every feed of an item and merge them into one blocked-night set. A feed
+// that fails is reported in `errors` rather than failing the whole lookup.
+export async function loadAvailability(feeds: ICalFeed[], options: AvailabilityOptions = {}): Promise<ItemAvailability> {
+  const { timeZone = DEFAULT_TIME_ZONE, horizonDays = 730, units = 1 } = options;
+  const from = addDays(todayIn(timeZone), -1);
+  const to = addDays(from, horizonDays);
+
+  const errors: ItemAvailability["errors"] = [];
+  const loaded = await Promise.all(
+    feeds.map(async ({ url, channel }): Promise<FeedRanges | null> => {
+      try {
+        const source = await fetchFeed(url, options);
+        return { channel, ranges: blockedRanges(parseICal(source), { timeZone, from, to }) };
+      } catch (err) {
+        console.error(`iCal fetch error (${channel}):`, err);
+        errors.push({ channel, error: err instanceof Error ? err.message : String(err) });
+        return null;
+      }
+    })
+  );
+
+  const merged = mergeAvailability(loaded.filter((feed): feed is FeedRanges => feed !== null), { from, to }, units);
+  return { ...merged, errors };
+}
+
+// Units booked per night across every feed of an item; none if it has no feeds
+export async function loadBookedUnits(item: BookingItem, options: AvailabilityOptions = {}): Promise<BookedUnits> {
+  const feeds = feedsOf(item);
+  if (feeds.length === 0) return {};
+  return (await loadAvailability(feeds, options)).bookedUnits;
+}
@@ -0,0 +1,224 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createDayTripBookingHandler, createStayBookingHandler } from "@/lib/server/booking-handlers";
+import type { DayTripBookingRecord, StayBookingRecord } from "@/lib/server/booking-handlers";
+import { createMockVerifier } from "@/lib/server/payments";
+import type { DayTrip, StayListing } from "@/lib/types";
+
+const listing: StayListing = {
+  item: { id: "atlas", name: "Atlas Suite", priceEUR: "100.5" },
+  config: { maxGuestsPerUnit: 2, maxUnits: 2 },
+};
+
+const trip: DayTrip = {
+  slug: "ourika",
+  title: "Ourika Valley",
+  basePriceEUR: 186,
+  basePriceMAD: 1860,
+  addons: [{ id: "lunch", name: "Berber lunch", description: "", priceEUR: 23.1, priceMAD: 230 }],
+};
+
+const stayBody = {
+  itemId: "atlas",
+  checkIn: "2027-03-01",
+  checkOut: "2027-03-03",
+  guests: 2,
+  totalEUR: "201.00",
+  firstName: "Amina",
+  lastName: "Idrissi",
+  email: "amina@example.com",
+  paymentProvider: "mock",
+  transactionId: "mock_1",
+};
+
+const dayTripBody = {
+  tripSlug: "ourika",
+  tripDate: "2027-03-01",
+  guests: 2,
+  addonIds: ["lunch"],
+  pickupLocation: "Riad Yasmine",
+  totalEUR: "232.20",
+  guestName: "Amina Idrissi",
+  guestEmail: "amina@example.com",
+  paymentProvider: "mock",
+  transactionId: "mock_2",
+};
+
+function stayHandler(saved: StayBookingRecord[] = []) {
+  return createStayBookingHandler({
+    getListing: async (itemId) => (itemId === listing.item.id ? listing : null),
+    saveBooking: async (booking) => {
+      saved.push(booking);
+      return { bookingId: `SW-${saved.length}` };
+    },
+    verifiers: { mock: createMockVerifier() },
+    getBookedUnits: async () => ({}),
+  });
+}
+
+function dayTripHandler(saved: DayTripBookingRecord[] = []) {
+  return createDayTripBookingHandler({
+    getTrip: async (slug) => (slug === trip.slug ? trip : null),
+    saveBooking: async (booking) => {
+      saved.push(booking);
+      return { bookingId: `DT-${saved.length}` };
+    },
+    verifiers: { mock: createMockVerifier() },
+  });
+}
+
+async function post(handler: (request: Request) => Promise<Response>, body: unknown) {
+  const response = await handler(
+    new Request("http://localhost/api/bookings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("createStayBookingHandler", () => {
+  it("saves a booking whose total matches the quote", async () => {
+    const saved: StayBookingRecord[] = [];
+    const { status, body } = await post(stayHandler(saved), stayBody);
+    assert.equal(status, 200);
+    assert.deepEqual(body, { success: true, bookingId: "SW-1" });
+    assert.equal(saved[0].nights, 2);
+    assert.equal(saved[0].totalEUR, "201.00");
+  });
+
+  it("answers a different total with a 409 and the server total", async () => {
+    const saved: StayBookingRecord[] = [];
+    const { status, body } = await post(stayHandler(saved), { ...stayBody, totalEUR: "150.00" });
+    assert.equal(status, 409);
+    assert.equal(body.totalEUR, "201.00");
+    assert.equal(saved.length, 0);
+  });
+
+  it("refuses units, guests and nights the item cannot take with a 422", async () => {
+    // No units hold no guests either
+    const cases: [Record<string, unknown>, string[]][] = [
+      [{ units: 3 }, ["unitsRange"]],
+      [{ units: 0 }, ["unitsRange", "guestsRange"]],
+      [{ guests: 3 }, ["guestsRange"]],
+      [{ checkOut: "2027-03-01" }, ["checkOutBeforeCheckIn"]],
+    ];
+    for (const [fields, codes] of cases) {
+      const { status, body } = await post(stayHandler(), { ...stayBody, ...fields });
+      assert.equal(status, 422);
+      assert.deepEqual(
+        body.issues.map((issue: { code: string }) => issue.code),
+        codes
+      );
+    }
+  });
+});
+
+describe("invalid booking bodies", () => {
+  const fieldsOf = (body: { fieldErrors: { field: string }[] }) => body.fieldErrors.map((error) => error.field);
+
+  it("answers a body that is not a JSON object with a 400", async () => {
+    for (const body of ["not json", "[]", "null"]) {
+      const { status, body: result } = await post(stayHandler(), body);
+      assert.equal(status, 400);
+      assert.deepEqual(result, { success: false, error: "Invalid request body" });
+    }
+  });
+
+  it("lists every missing stay field", async () => {
+    const { status, body } = await post(stayHandler(), { itemId: "atlas" });
+    assert.equal(status, 400);
+    assert.deepEqual(fieldsOf(body), [
+      "checkIn",
+      "guests",
+      "totalEUR",
+      "firstName",
+      "lastName",
+      "email",
+      "transactionId",
+    ]);
+    assert.equal(body.error, "checkIn is required");
+  });
+
+  it("lists every missing day-trip field", async () => {
+    const { status, body } = await post(dayTripHandler(), { tripSlug: "ourika" });
+    assert.equal(status, 400);
+    assert.deepEqual(fieldsOf(body), [
+      "tripDate",
+      "guests",
+      "totalEUR",
+      "guestName",
+      "guestEmail",
+      "pickupLocation",
+      "transactionId",
+    ]);
+  });
+
+  it("refuses fields of the wrong type", async () => {
+    const { status, body } = await post(stayHandler(), {
+      ...stayBody,
+      guests: "2",
+      units: 1.5,
+      totalEUR: "201,00",
+      email: "amina",
+      childAges: [4, "six"],
+      addons: [{ quantity: 1 }],
+    });
+    assert.equal(status, 400);
+    assert.deepEqual(body.fieldErrors, [
+      { field: "guests", message: "guests must be a whole number" },
+      { field: "childAges[1]", message: "childAges[1] must be a whole number" },
+      { field: "units", message: "units must be a whole number" },
+      { field: "addons[0]", message: "addons[0] must have an id" },
+      { field: "totalEUR", message: "totalEUR must be a decimal amount" },
+      { field: "email", message: "email must be an email address" },
+    ]);
+
+    const dayTrip = await post(dayTripHandler(), { ...dayTripBody, addonIds: "lunch", exchangeRate: "1.1" });
+    assert.equal(dayTrip.status, 400);
+    assert.deepEqual(fieldsOf(dayTrip.body), ["addonIds", "exchangeRate"]);
+  });
+
+  it("refuses a currency it does not know", async () => {
+    const stay = await post(stayHandler(), { ...stayBody, currency: "JPY", exchangeRate: 160 });
+    assert.equal(stay.status, 400);
+    assert.deepEqual(stay.body.fieldErrors, [
+      { field: "currency", message: "currency must be one of EUR, MAD, USD, GBP" },
+    ]);
+
+    const dayTrip = await post(dayTripHandler(), { ...dayTripBody, currency: "usd" });
+    assert.equal(dayTrip.status, 400);
+    assert.deepEqual(fieldsOf(dayTrip.body), ["currency"]);
+  });
+
+  it("answers dates that cannot be read with a 422", async () => {
+    const stay = await post(stayHandler(), { ...stayBody, checkIn: "01/03/2027" });
+    assert.equal(stay.status, 422);
+    assert.equal(stay.body.issues[0].code, "checkInRequired");
+
+    const dayTrip = await post(dayTripHandler(), { ...dayTripBody, tripDate: "2027-3-1" });
+    assert.equal(dayTrip.status, 422);
+    assert.deepEqual(
+      dayTrip.body.issues.map((issue: { code: string }) => issue.code),
+      ["dateRequired"]
+    );
+  });
+});
+
+describe("createDayTripBookingHandler", () => {
+  it("saves a booking whose total matches the quote", async () => {
+    const saved: DayTripBookingRecord[] = [];
+    const { status, body } = await post(dayTripHandler(saved), dayTripBody);
+    assert.equal(status, 200);
+    assert.deepEqual(body, { success: true, bookingId: "DT-1" });
+    assert.equal(saved[0].totalEUR, 232.2);
+    assert.equal(saved[0].totalMAD, 2320);
+  });
+
+  it("answers a different total with a 409 and the server total as a decimal string", async () => {
+    const { status, body } = await post(dayTripHandler(), { ...dayTripBody, totalEUR: "186.00" });
+    assert.equal(status, 409);
+    assert.equal(body.totalEUR, "232.20");
+  });
+});
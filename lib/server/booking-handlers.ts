@@ -0,0 +1,352 @@
+import { validateDayTripBookingRequest, validateStayBookingRequest } from "@/lib/booking-api";
+import type { DayTripBookingRequest, StayBookingRequest } from "@/lib/booking-api";
+import { CURRENCIES } from "@/lib/currency";
+import type { CurrencyCode } from "@/lib/currency";
+import { toDecimal, toDecimalString } from "@/lib/money";
+import { amountsMatch } from "@/lib/quote";
+import type { DayTripQuote, StayQuote } from "@/lib/quote";
+import type { ExchangeRateSource } from "@/lib/server/exchange-rates";
+import { PaymentAlreadyUsedError, verifyPayment } from "@/lib/server/payments";
+import type { PaymentVerifiers } from "@/lib/server/payments";
+import {
+  addonIdsOf,
+  chargeOf,
+  checkStayAvailability,
+  checkTripAvailability,
+  failure,
+  partyOf,
+  quoteDayTripBody,
+  quoteStayBody,
+  readBody,
+  rejectFields,
+  rejectPayment,
+  rejectQuote,
+} from "@/lib/server/requests";
+import type { BookedDeparturesLoader, BookedUnitsLoader } from "@/lib/server/requests";
+import type { DayTrip, StayListing } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StayBookingRecord {
+  itemId: string;
+  itemName: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  guests: number; // Everyone, infants included
+  adults: number; // Children older than the item's childMaxAge are counted here
+  children: number;
+  childAges: number[];
+  infants: number;
+  units: number;
+  addons: string; // e.g. "Airport transfer, Dinner × 2"
+  addonsEUR: string;
+  totalEUR: string;
+  currency: CurrencyCode; // What the guest paid in
+  amountPaid: string; // In `currency`
+  exchangeRate: number; // Units of `currency` per 1 EUR used for `amountPaid`
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  message: string;
+  idempotencyKey: string; // Empty when the client sent none
+  paymentProvider: string;
+  transactionId: string;
+  paymentReference: string;
+  quote: StayQuote;
+}
+
+export interface DayTripBookingRecord {
+  tripSlug: string;
+  tripTitle: string;
+  tripDate: string;
+  departureTime: string; // "HH:MM"; empty for trips without slots
+  guests: number;
+  vehicle: string; // Name of the vehicle tier booked; empty for trips without tiers
+  basePriceMAD: number;
+  addons: string;
+  addonIds: string[];
+  addonsPriceMAD: number;
+  totalMAD: number;
+  totalEUR: number;
+  currency: CurrencyCode;
+  amountPaid: number;
+  exchangeRate: number;
+  guestName: string;
+  guestEmail: string;
+  guestPhone: string;
+  pickupLocation: string; // The pickup point's name, or the address the guest typed
+  pickupPointId: string; // Empty for typed addresses
+  pickupZone: string; // Zone name
+  pickupNotes: string; // The point's meeting instructions
+  pickupSurchargeMAD: number;
+  notes: string;
+  idempotencyKey: string;
+  paymentProvider: string;
+  transactionId: string;
+  paymentReference: string;
+  quote: DayTripQuote;
+}
+
+// The booking already saved under an idempotency key, if any
+export type BookingFinder = (idempotencyKey: string) => Promise<{ bookingId: string } | null>;
+
+// The booking already saved with a payment, if any
+export type PaidBookingFinder = (
+  paymentProvider: string,
+  transactionId: string
+) => Promise<{ bookingId: string } | null>;
+
+export interface StayBookingHandlerOptions {
+  getListing: (itemId: string) => Promise<StayListing | null>;
+  saveBooking: (booking: StayBookingRecord) => Promise<{ bookingId?: string } | void>;
+  // When set, a request whose idempotencyKey was already saved gets the saved
+  // booking back instead of being booked again
+  findBooking?: BookingFinder;
+  // When set, a payment already saved with another booking is refused, so one
+  // PayPal order or Stripe payment cannot pay for two stays
+  findPaidBooking?: PaidBookingFinder;
+  // Keyed by payment provider id. The payment must verify for the quoted total
+  // before the booking is saved; a provider without a verifier is refused.
+  verifiers: PaymentVerifiers;
+  getBookedUnits?: BookedUnitsLoader;
+  // Needed to accept payments in currencies other than EUR
+  getExchangeRates?: ExchangeRateSource;
+  currencies?: CurrencyCode[]; // Defaults to every supported currency
+}
+
+export interface DayTripBookingHandlerOptions {
+  getTrip: (tripSlug: string) => Promise<DayTrip | null>;
+  saveBooking: (booking: DayTripBookingRecord) => Promise<{ bookingId?: string } | void>;
+  findBooking?: BookingFinder;
+  findPaidBooking?: PaidBookingFinder;
+  verifiers: PaymentVerifiers;
+  getBookedDepartures?: BookedDeparturesLoader;
+  getExchangeRates?: ExchangeRateSource;
+  currencies?: CurrencyCode[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Older clients only send paypalTransactionId
+function paymentOf(booking: StayBookingRequest | DayTripBookingRequest) {
+  if (booking.paymentProvider) {
+    return { paymentProvider: booking.paymentProvider, transactionId: booking.transactionId ?? "" };
+  }
+  return { paymentProvider: "paypal", transactionId: booking.paypalTransactionId ?? "" };
+}
+
+// A retry of a booking that was already saved gets the same answer again,
+// before its dates are checked against what is now booked (itself included)
+async function savedBookingResponse(booking: StayBookingRequest | DayTripBookingRequest, findBooking?: BookingFinder) {
+  if (!findBooking || !booking.idempotencyKey) return null;
+  const saved = await findBooking(booking.idempotencyKey);
+  return saved ? Response.json({ success: true, bookingId: saved.bookingId }) : null;
+}
+
+const paymentUsed = () => failure(409, "This payment has already been used for another booking.");
+
+// Checked before the payment is verified: the provider would still report a
+// used payment as complete for the same total
+async function usedPaymentResponse(
+  paymentProvider: string,
+  transactionId: string,
+  findPaidBooking?: PaidBookingFinder
+) {
+  if (!findPaidBooking || !transactionId) return null;
+  return (await findPaidBooking(paymentProvider, transactionId)) ? paymentUsed() : null;
+}
+
+// Stores refuse a payment they already hold, which catches two requests
+// racing past usedPaymentResponse
+async function saveAndRespond<T>(saveBooking: (booking: T) => Promise<{ bookingId?: string } | void>, booking: T) {
+  try {
+    const saved = await saveBooking(booking);
+    return Response.json({ success: true, bookingId: saved?.bookingId });
+  } catch (err) {
+    if (err instanceof PaymentAlreadyUsedError) return paymentUsed();
+    throw err;
+  }
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+// POST /api/bookings
+// Re-prices the stay from the item's own config and refuses to save it if the
+// total the guest paid differs from what the server would charge, or if any
+// of its nights has been booked on another channel. Payments in another
+// currency are checked against the EUR total at the rate recorded with them.
+export function createStayBookingHandler({
+  getListing,
+  saveBooking,
+  findBooking,
+  findPaidBooking,
+  verifiers,
+  getBookedUnits,
+  getExchangeRates,
+  currencies = CURRENCIES,
+}: StayBookingHandlerOptions) {
+  return async function POST(request: Request) {
+    const body = await readBody(request);
+    if (!body) return failure(400, "Invalid request body");
+    const parsed = validateStayBookingRequest(body);
+    if (!parsed.ok) return rejectFields(parsed.errors);
+    const booking = parsed.value;
+    const replayed = await savedBookingResponse(booking, findBooking);
+    if (replayed) return replayed;
+
+    const listing = await getListing(booking.itemId);
+    if (!listing) return failure(404, "Unknown item");
+
+    const { item } = listing;
+    const quote = quoteStayBody(listing, booking);
+    if (quote.issues.length > 0) return rejectQuote(quote.issues);
+
+    if (!amountsMatch(booking.totalEUR, quote.total)) {
+      return failure(409, "Price has changed. Please review your booking.", { totalEUR: toDecimalString(quote.total) });
+    }
+
+    const unavailable = await checkStayAvailability(listing, booking.checkIn, quote, getBookedUnits);
+    if (unavailable) return unavailable;
+
+    const charge = await chargeOf(booking, quote.total, { getExchangeRates, currencies });
+    if (charge instanceof Response) return charge;
+
+    const { paymentProvider, transactionId } = paymentOf(booking);
+    const used = await usedPaymentResponse(paymentProvider, transactionId, findPaidBooking);
+    if (used) return used;
+
+    const payment = await verifyPayment(verifiers, paymentProvider, {
+      transactionId,
+      referenceId: item.id,
+      amount: charge.amount,
+      email: booking.email,
+    });
+    if ("error" in payment) return rejectPayment(payment);
+
+    return saveAndRespond(saveBooking, {
+      itemId: item.id,
+      itemName: item.name,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut ?? "",
+      nights: quote.nights,
+      guests: quote.guests,
+      adults: quote.guestCounts.adults,
+      children: quote.guestCounts.children,
+      childAges: partyOf(booking)?.childAges ?? [],
+      infants: quote.guestCounts.infants,
+      units: quote.units,
+      addons: quote.lines
+        .filter((line) => line.kind === "addon")
+        .map((line) => (line.quantity > 1 ? `${line.label} × ${line.quantity}` : line.label))
+        .join(", "),
+      addonsEUR: toDecimalString(quote.addonsTotal),
+      totalEUR: toDecimalString(quote.total),
+      currency: charge.amount.currency,
+      amountPaid: toDecimalString(charge.amount),
+      exchangeRate: charge.exchangeRate,
+      firstName: booking.firstName,
+      lastName: booking.lastName,
+      email: booking.email,
+      phone: booking.phone ?? "",
+      message: booking.message ?? "",
+      idempotencyKey: booking.idempotencyKey ?? "",
+      paymentProvider,
+      transactionId,
+      paymentReference: payment.reference,
+      quote,
+    });
+  };
+}
+
+// POST /api/day-trip-bookings
+// Re-prices the trip and refuses dates it does not run or that are sold out.
+export function createDayTripBookingHandler({
+  getTrip,
+  saveBooking,
+  findBooking,
+  findPaidBooking,
+  verifiers,
+  getBookedDepartures,
+  getExchangeRates,
+  currencies = CURRENCIES,
+}: DayTripBookingHandlerOptions) {
+  return async function POST(request: Request) {
+    const body = await readBody(request);
+    if (!body) return failure(400, "Invalid request body");
+    const parsed = validateDayTripBookingRequest(body);
+    if (!parsed.ok) return rejectFields(parsed.errors);
+    const booking = parsed.value;
+    const replayed = await savedBookingResponse(booking, findBooking);
+    if (replayed) return replayed;
+
+    const trip = await getTrip(booking.tripSlug);
+    if (!trip) return failure(404, "Unknown trip");
+
+    const addonIds = addonIdsOf(booking);
+    const quote = quoteDayTripBody(trip, booking);
+    if (quote.issues.length > 0) return rejectQuote(quote.issues);
+
+    if (!amountsMatch(booking.totalEUR, quote.total)) {
+      return failure(409, "Price has changed. Please review your booking.", { totalEUR: toDecimalString(quote.total) });
+    }
+
+    const soldOut = await checkTripAvailability(trip, booking.tripDate, getBookedDepartures, quote.slot?.time);
+    if (soldOut) return soldOut;
+
+    // MAD is charged at the trip's own MAD prices
+    const charge = await chargeOf(booking, quote.total, { getExchangeRates, currencies }, { MAD: quote.totalMAD });
+    if (charge instanceof Response) return charge;
+
+    const { paymentProvider, transactionId } = paymentOf(booking);
+    const used = await usedPaymentResponse(paymentProvider, transactionId, findPaidBooking);
+    if (used) return used;
+
+    const payment = await verifyPayment(verifiers, paymentProvider, {
+      transactionId,
+      referenceId: trip.slug,
+      amount: charge.amount,
+      email: booking.guestEmail,
+    });
+    if ("error" in payment) return rejectPayment(payment);
+
+    return saveAndRespond(saveBooking, {
+      tripSlug: trip.slug,
+      tripTitle: trip.title,
+      tripDate: booking.tripDate,
+      departureTime: quote.slot?.time ?? "",
+      guests: quote.guests,
+      vehicle: quote.vehicle?.name ?? "",
+      basePriceMAD: toDecimal(quote.basePriceMAD),
+      addons: quote.lines.filter((line) => line.kind === "addon").map((line) => line.label).join(", "),
+      addonIds,
+      addonsPriceMAD: toDecimal(quote.addonsTotalMAD),
+      totalMAD: toDecimal(quote.totalMAD),
+      totalEUR: toDecimal(quote.total),
+      currency: charge.amount.currency,
+      amountPaid: toDecimal(charge.amount),
+      exchangeRate: charge.exchangeRate,
+      guestName: booking.guestName,
+      guestEmail: booking.guestEmail,
+      guestPhone: booking.guestPhone ?? "",
+      pickupLocation: quote.pickupPoint?.name ?? booking.pickupLocation ?? "",
+      pickupPointId: quote.pickupPoint?.id ?? "",
+      pickupZone: quote.pickupZone?.name ?? "",
+      pickupNotes: quote.pickupPoint?.notes ?? "",
+      pickupSurchargeMAD: toDecimal(quote.pickupSurchargeMAD),
+      notes: booking.notes ?? "",
+      idempotencyKey: booking.idempotencyKey ?? "",
+      paymentProvider,
+      transactionId,
+      paymentReference: payment.reference,
+      quote,
+    });
+  };
+}
@@ -0,0 +1,102 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  findByIdempotencyKey,
+  findByPayment,
+  findPending,
+  savedBookingFor,
+  storedFieldsFactory,
+  toStoredRecord,
+} from "@/lib/server/booking-store";
+import type {
+  BookingStore,
+  BookingStoreOptions,
+  StoredBookingRecord,
+  StoredDayTripBookingRecord,
+  StoredStayBookingRecord,
+} from "@/lib/server/booking-store";
+import type { PendingBooking } from "@/lib/server/requests";
+
+// ============================================================================
+// JSON FILE STORE
+// ============================================================================
+// Keeps every booking in one JSON file, for local development and single
+// server installs. The file is re-read on every call, so it can be edited by
+// hand (e.g. to cancel a booking) while the site runs.
+
+export interface JsonFileBookingStoreOptions extends BookingStoreOptions {
+  path?: string; // Defaults to ".data/bookings.json"
+}
+
+interface BookingFile {
+  stays: StoredStayBookingRecord[];
+  dayTrips: StoredDayTripBookingRecord[];
+  pending: PendingBooking[];
+}
+
+export function createJsonFileBookingStore({
+  path = ".data/bookings.json",
+  ...options
+}: JsonFileBookingStoreOptions = {}): BookingStore {
+  const storedFields = storedFieldsFactory(options);
+  // Saves run one after another so two bookings never overwrite each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<BookingFile> => {
+    try {
+      // Only this store writes the file, so its lists hold the stored records
+      const data: Partial<BookingFile> | null = JSON.parse(await readFile(path, "utf8"));
+      return { stays: data?.stays ?? [], dayTrips: data?.dayTrips ?? [], pending: data?.pending ?? [] };
+    } catch (err) {
+      if (err instanceof Error && "code" in err && err.code === "ENOENT") return { stays: [], dayTrips: [], pending: [] };
+      throw err;
+    }
+  };
+
+  // Write a copy and rename it over the file, so a crash never leaves half a file
+  const update = <T>(change: (file: BookingFile) => T): Promise<T> => {
+    const next = queue.then(async () => {
+      const file = await load();
+      const result = change(file);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(file, null, 2));
+      await rename(`${path}.tmp`, path);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const all = (file: BookingFile): StoredBookingRecord[] => [...file.stays, ...file.dayTrips];
+
+  return {
+    saveStayBooking: (booking) =>
+      update((file) => {
+        const existing = savedBookingFor(all(file), booking);
+        if (existing) return { bookingId: existing.bookingId };
+        const stored = toStoredRecord(booking, storedFields());
+        file.stays.push(stored);
+        return { bookingId: stored.bookingId };
+      }),
+    saveDayTripBooking: (booking) =>
+      update((file) => {
+        const existing = savedBookingFor(all(file), booking);
+        if (existing) return { bookingId: existing.bookingId };
+        const stored = toStoredRecord(booking, storedFields());
+        file.dayTrips.push(stored);
+        return { bookingId: stored.bookingId };
+      }),
+    listStayBookings: async (itemId) => (await load()).stays.filter((booking) => booking.itemId === itemId),
+    listDayTripBookings: async (tripSlug) =>
+      (await load()).dayTrips.filter((booking) => booking.tripSlug === tripSlug),
+    findBooking: async (idempotencyKey) => findByIdempotencyKey(all(await load()), idempotencyKey),
+    findPaidBooking: async (paymentProvider, transactionId) =>
+      findByPayment(all(await load()), paymentProvider, transactionId),
+    savePendingBooking: (pending) =>
+      update((file) => {
+        file.pending.push(pending);
+      }),
+    findPendingBooking: async (paymentProvider, transactionId) =>
+      findPending((await load()).pending, paymentProvider, transactionId),
+  };
+}
@@ -0,0 +1,347 @@
+import { createSign } from "node:crypto";
+import {
+  findByIdempotencyKey,
+  findByPayment,
+  findPending,
+  savedBookingFor,
+  storedFieldsFactory,
+  toStoredRecord,
+} from "@/lib/server/booking-store";
+import type {
+  BookingStore,
+  BookingStoreOptions,
+  StoredBookingRecord,
+  StoredDayTripBookingRecord,
+  StoredStayBookingRecord,
+} from "@/lib/server/booking-store";
+import { numberAt, stringAt, valueAt } from "@/lib/server/json";
+import type { PendingBooking } from "@/lib/server/requests";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GoogleSheetsBookingStoreOptions extends BookingStoreOptions {
+  spreadsheetId: string;
+  // A service account the spreadsheet is shared with (as an editor)
+  clientEmail: string;
+  privateKey: string; // PEM; "\n" escapes from env files are unescaped
+  staySheet?: string; // Tab names; "Bookings", "Day Trips" and "Pending" by default
+  dayTripSheet?: string;
+  pendingSheet?: string;
+  fetch?: typeof fetch;
+}
+
+export class GoogleSheetsError extends Error {
+  status: number;
+  details: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = "GoogleSheetsError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+type ColumnType = "text" | "number" | "texts" | "numbers" | "json";
+
+// One column per field, in this order. Lists are written comma-separated.
+type Columns<T> = { [K in keyof T]-?: ColumnType };
+
+export const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+export const SHEETS_API = "https://sheets.googleapis.com/v4/spreadsheets";
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+export const STAY_COLUMNS: Columns<StoredStayBookingRecord> = {
+  bookingId: "text",
+  createdAt: "text",
+  status: "text",
+  itemId: "text",
+  itemName: "text",
+  checkIn: "text",
+  checkOut: "text",
+  nights: "number",
+  guests: "number",
+  adults: "number",
+  children: "number",
+  childAges: "numbers",
+  infants: "number",
+  units: "number",
+  addons: "text",
+  addonsEUR: "text",
+  totalEUR: "text",
+  currency: "text",
+  amountPaid: "text",
+  exchangeRate: "number",
+  firstName: "text",
+  lastName: "text",
+  email: "text",
+  phone: "text",
+  message: "text",
+  paymentProvider: "text",
+  transactionId: "text",
+  paymentReference: "text",
+  idempotencyKey: "text",
+};
+
+export const DAY_TRIP_COLUMNS: Columns<StoredDayTripBookingRecord> = {
+  bookingId: "text",
+  createdAt: "text",
+  status: "text",
+  tripSlug: "text",
+  tripTitle: "text",
+  tripDate: "text",
+  departureTime: "text",
+  guests: "number",
+  vehicle: "text",
+  basePriceMAD: "number",
+  addons: "text",
+  addonIds: "texts",
+  addonsPriceMAD: "number",
+  totalMAD: "number",
+  totalEUR: "number",
+  currency: "text",
+  amountPaid: "number",
+  exchangeRate: "number",
+  guestName: "text",
+  guestEmail: "text",
+  guestPhone: "text",
+  pickupLocation: "text",
+  pickupPointId: "text",
+  pickupZone: "text",
+  pickupNotes: "text",
+  pickupSurchargeMAD: "number",
+  notes: "text",
+  paymentProvider: "text",
+  transactionId: "text",
+  paymentReference: "text",
+  idempotencyKey: "text",
+};
+
+export const PENDING_COLUMNS: Columns<PendingBooking> = {
+  idempotencyKey: "text",
+  createdAt: "text",
+  kind: "text",
+  paymentProvider: "text",
+  transactionId: "text",
+  booking: "json",
+};
+
+const fieldsOf = <T>(columns: Columns<T>) => Object.keys(columns) as (keyof T & string)[];
+
+function toRow<T>(record: T, columns: Columns<T>): unknown[] {
+  return fieldsOf(columns).map((field) => {
+    const value: unknown = record[field];
+    const type = columns[field];
+    if (type === "texts" || type === "numbers") return Array.isArray(value) ? value.join(", ") : "";
+    if (type === "json") return JSON.stringify(value ?? null);
+    return value ?? "";
+  });
+}
+
+// Every field of T has a column, so the record read back has all of them
+function fromRow<T>(row: unknown[], columns: Columns<T>): T {
+  const record: Record<string, unknown> = {};
+  fieldsOf(columns).forEach((field, i) => {
+    const type = columns[field];
+    const cell = row[i] ?? "";
+    const items = String(cell).split(",").map((item) => item.trim()).filter(Boolean);
+    if (type === "text") record[field] = String(cell);
+    else if (type === "number") record[field] = Number(cell) || 0;
+    else if (type === "texts") record[field] = items;
+    else if (type === "numbers") record[field] = items.map(Number);
+    else record[field] = parseJson(String(cell));
+  });
+  return record as T;
+}
+
+function parseJson(cell: string): unknown {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// SHEETS CLIENT
+// ============================================================================
+
+// Signed service-account assertion exchanged for an access token (RFC 7523)
+function signedAssertion(clientEmail: string, privateKey: string) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iss: clientEmail,
+    scope: SHEETS_SCOPE,
+    aud: GOOGLE_TOKEN_URL,
+    iat: issuedAt,
+    exp: issuedAt + 3600,
+  })}`;
+  return `${unsigned}.${createSign("RSA-SHA256").update(unsigned).sign(privateKey, "base64url")}`;
+}
+
+function createSheetsClient({
+  spreadsheetId,
+  clientEmail,
+  privateKey,
+  fetch: fetchImpl = fetch,
+}: Pick<GoogleSheetsBookingStoreOptions, "spreadsheetId" | "clientEmail" | "privateKey" | "fetch">) {
+  let token: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    if (token && token.expiresAt > Date.now()) return token.value;
+
+    const response = await fetchImpl(GOOGLE_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: signedAssertion(clientEmail, privateKey.replace(/\\n/g, "\n")),
+      }).toString(),
+    });
+    const data: unknown = await response.json().catch(() => null);
+    const accessToken = stringAt(data, "access_token");
+    if (!response.ok || !accessToken) {
+      throw new GoogleSheetsError("Google authentication failed", response.status, data);
+    }
+
+    // Refresh a minute early so a token never expires mid-request
+    token = { value: accessToken, expiresAt: Date.now() + ((numberAt(data, "expires_in") ?? 0) - 60) * 1000 };
+    return token.value;
+  };
+
+  const request = async (method: string, range: string, suffix = "", body?: unknown): Promise<unknown> => {
+    const path = `/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}${suffix}`;
+    const response = await fetchImpl(`${SHEETS_API}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await getAccessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = stringAt(data, "error", "message") || `Google Sheets request failed: ${method} ${range}`;
+      throw new GoogleSheetsError(message, response.status, data);
+    }
+    return data;
+  };
+
+  return {
+    getRows: async (range: string): Promise<unknown[][]> => {
+      const rows = valueAt(await request("GET", range, "?valueRenderOption=UNFORMATTED_VALUE"), "values");
+      return Array.isArray(rows) ? rows.filter((row): row is unknown[] => Array.isArray(row)) : [];
+    },
+    setRows: (range: string, values: unknown[][]) => request("PUT", range, "?valueInputOption=RAW", { values }),
+    appendRows: (range: string, values: unknown[][]) =>
+      request("POST", range, ":append?valueInputOption=RAW&insertDataOption=INSERT_ROWS", { values }),
+  };
+}
+
+// ============================================================================
+// GOOGLE SHEETS STORE
+// ============================================================================
+
+// Sheets answers a range on a tab that does not exist with a 400
+// "Unable to parse range: 'Day Trips'"
+function isMissingTab(err: unknown) {
+  return err instanceof GoogleSheetsError && err.status === 400 && /unable to parse range/i.test(err.message);
+}
+
+// One row per booking on a "Bookings" and a "Day Trips" tab, and one per
+// payment started on a "Pending" tab. Only the tabs written to must exist;
+// a missing one is read as empty. The first row of an empty tab gets the
+// field names; rows are matched to fields by position, so add columns to the
+// right of the last one only. Sheets has no transactions: two saves with the
+// same idempotency key or payment at the same instant can both be appended.
+export function createGoogleSheetsBookingStore({
+  spreadsheetId,
+  clientEmail,
+  privateKey,
+  staySheet = "Bookings",
+  dayTripSheet = "Day Trips",
+  pendingSheet = "Pending",
+  fetch: fetchImpl,
+  ...options
+}: GoogleSheetsBookingStoreOptions): BookingStore {
+  const sheets = createSheetsClient({ spreadsheetId, clientEmail, privateKey, fetch: fetchImpl });
+  const storedFields = storedFieldsFactory(options);
+  const tab = (sheet: string) => `'${sheet.replace(/'/g, "''")}'`;
+  const headed = new Set<string>();
+
+  const ensureHeader = async <T>(sheet: string, columns: Columns<T>) => {
+    if (headed.has(sheet)) return;
+    const [header] = await sheets.getRows(`${tab(sheet)}!1:1`);
+    if (!header || header.length === 0) await sheets.setRows(`${tab(sheet)}!A1`, [fieldsOf(columns)]);
+    headed.add(sheet);
+  };
+
+  const append = async <T>(sheet: string, columns: Columns<T>, record: T) => {
+    await ensureHeader(sheet, columns);
+    await sheets.appendRows(`${tab(sheet)}!A1`, [toRow(record, columns)]);
+  };
+
+  // A tab that does not exist (e.g. no "Day Trips" on a stays-only sheet)
+  // has no bookings; it is only needed once something is written to it
+  const list = async <T>(sheet: string, columns: Columns<T>): Promise<T[]> => {
+    let rows: unknown[][];
+    try {
+      rows = await sheets.getRows(tab(sheet));
+    } catch (err) {
+      if (isMissingTab(err)) return [];
+      throw err;
+    }
+    const [firstColumn] = fieldsOf(columns);
+    return rows.filter((row) => row.length > 0 && row[0] !== firstColumn).map((row) => fromRow(row, columns));
+  };
+
+  const listStays = () => list(staySheet, STAY_COLUMNS);
+  const listDayTrips = () => list(dayTripSheet, DAY_TRIP_COLUMNS);
+  const listAll = async (): Promise<StoredBookingRecord[]> => [...(await listStays()), ...(await listDayTrips())];
+
+  return {
+    saveStayBooking: async (booking) => {
+      const existing = savedBookingFor(await listAll(), booking);
+      if (existing) return { bookingId: existing.bookingId };
+      const stored = toStoredRecord(booking, storedFields());
+      await append(staySheet, STAY_COLUMNS, stored);
+      return { bookingId: stored.bookingId };
+    },
+    saveDayTripBooking: async (booking) => {
+      const existing = savedBookingFor(await listAll(), booking);
+      if (existing) return { bookingId: existing.bookingId };
+      const stored = toStoredRecord(booking, storedFields());
+      await append(dayTripSheet, DAY_TRIP_COLUMNS, stored);
+      return { bookingId: stored.bookingId };
+    },
+    listStayBookings: async (itemId) => (await listStays()).filter((booking) => booking.itemId === itemId),
+    listDayTripBookings: async (tripSlug) =>
+      (await listDayTrips()).filter((booking) => booking.tripSlug === tripSlug),
+    findBooking: async (idempotencyKey) => (idempotencyKey ? findByIdempotencyKey(await listAll(), idempotencyKey) : null),
+    findPaidBooking: async (paymentProvider, transactionId) =>
+      transactionId ? findByPayment(await listAll(), paymentProvider, transactionId) : null,
+    savePendingBooking: (pending) => append(pendingSheet, PENDING_COLUMNS, pending),
+    findPendingBooking: async (paymentProvider, transactionId) =>
+      findPending(await list(pendingSheet, PENDING_COLUMNS), paymentProvider, transactionId),
+  };
+}
+
+// Build a store from GOOGLE_SHEETS_ID, GOOGLE_SERVICE_ACCOUNT_EMAIL and
+// GOOGLE_PRIVATE_KEY
+export function createGoogleSheetsBookingStoreFromEnv(
+  options: Partial<GoogleSheetsBookingStoreOptions> = {}
+): BookingStore {
+  return createGoogleSheetsBookingStore({
+    spreadsheetId: process.env.GOOGLE_SHEETS_ID || "",
+    clientEmail: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || "",
+    privateKey: process.env.GOOGLE_PRIVATE_KEY || "",
+    ...options,
+  });
+}
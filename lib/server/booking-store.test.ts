@@ -0,0 +1,291 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { quoteDayTrip, quoteStay } from "@/lib/quote";
+import type { DayTripBookingRecord, StayBookingRecord } from "@/lib/server/booking-handlers";
+import {
+  bookedUnitsOf,
+  createMemoryBookingStore,
+  storedDeparturesLoader,
+  storedUnitsLoader,
+} from "@/lib/server/booking-store";
+import type { BookingStore, BookingStoreOptions } from "@/lib/server/booking-store";
+import { createJsonFileBookingStore } from "@/lib/server/booking-store-file";
+import { createGoogleSheetsBookingStore } from "@/lib/server/booking-store-sheets";
+import { PaymentAlreadyUsedError } from "@/lib/server/payments";
+import type { PendingBooking } from "@/lib/server/requests";
+import type { BookingItem, DayTrip } from "@/lib/types";
+
+const item: BookingItem = { id: "atlas", name: "Atlas Suite", priceEUR: "100" };
+const trip: DayTrip = { slug: "ourika", title: "Ourika Valley", basePriceEUR: 186, basePriceMAD: 1860, addons: [] };
+
+function stay(fields: Partial<StayBookingRecord> = {}): StayBookingRecord {
+  const checkIn = fields.checkIn ?? "2027-03-01";
+  const nights = fields.nights ?? 2;
+  return {
+    itemId: item.id,
+    itemName: item.name,
+    checkIn,
+    checkOut: "",
+    nights,
+    guests: 2,
+    adults: 2,
+    children: 0,
+    childAges: [],
+    infants: 0,
+    units: 1,
+    addons: "",
+    addonsEUR: "0.00",
+    totalEUR: "200.00",
+    currency: "EUR",
+    amountPaid: "200.00",
+    exchangeRate: 1,
+    firstName: "Amina",
+    lastName: "Idrissi",
+    email: "amina@example.com",
+    phone: "",
+    message: "",
+    idempotencyKey: "stay-1",
+    paymentProvider: "mock",
+    transactionId: "mock_1",
+    paymentReference: "mock_1",
+    quote: quoteStay(item, { selectCheckout: false }, { checkIn, nights, guests: 2 }),
+    ...fields,
+  };
+}
+
+function dayTrip(fields: Partial<DayTripBookingRecord> = {}): DayTripBookingRecord {
+  const tripDate = fields.tripDate ?? "2027-03-01";
+  return {
+    tripSlug: trip.slug,
+    tripTitle: trip.title,
+    tripDate,
+    departureTime: "",
+    guests: 2,
+    vehicle: "",
+    basePriceMAD: 1860,
+    addons: "",
+    addonIds: [],
+    addonsPriceMAD: 0,
+    totalMAD: 1860,
+    totalEUR: 186,
+    currency: "EUR",
+    amountPaid: 186,
+    exchangeRate: 1,
+    guestName: "Amina Idrissi",
+    guestEmail: "amina@example.com",
+    guestPhone: "",
+    pickupLocation: "Riad Yasmine",
+    pickupPointId: "",
+    pickupZone: "",
+    pickupNotes: "",
+    pickupSurchargeMAD: 0,
+    notes: "",
+    idempotencyKey: "trip-1",
+    paymentProvider: "mock",
+    transactionId: "mock_10",
+    paymentReference: "mock_10",
+    quote: quoteDayTrip(trip, { tripDate, guests: 2, addonIds: [] }),
+    ...fields,
+  };
+}
+
+// Numbered ids and a fixed clock, so saved records can be compared
+function storeOptions(): BookingStoreOptions {
+  let count = 0;
+  return { newBookingId: () => `SW-${++count}`, now: () => new Date("2027-01-15T10:00:00Z") };
+}
+
+// ============================================================================
+// STUBS
+// ============================================================================
+
+const { privateKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+// A spreadsheet with the given tabs behind the Google token and Sheets
+// values endpoints. Ranges on other tabs get the 400 Sheets answers them with.
+function sheetsStub(tabNames = ["Bookings", "Day Trips", "Pending"]) {
+  const tabs = new Map<string, unknown[][]>(tabNames.map((name) => [name, []]));
+  const fetchStub: typeof fetch = async (input, init) => {
+    const url = new URL(String(input));
+    if (url.hostname === "oauth2.googleapis.com") return Response.json({ access_token: "token", expires_in: 3600 });
+
+    const range = decodeURIComponent(url.pathname.split("/values/")[1]).replace(/:append$/, "");
+    const rows = tabs.get(range.split("!")[0].replace(/^'|'$/g, ""));
+    if (!rows) return Response.json({ error: { message: `Unable to parse range: ${range}` } }, { status: 400 });
+    if (init?.method === "GET") return Response.json({ values: range.endsWith("!1:1") ? rows.slice(0, 1) : rows });
+
+    rows.push(...JSON.parse(String(init?.body)).values);
+    return Response.json({});
+  };
+  return { tabs, fetch: fetchStub };
+}
+
+const directories: string[] = [];
+after(() => Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true }))));
+
+async function tempFile() {
+  const directory = await mkdtemp(join(tmpdir(), "bookings-"));
+  directories.push(directory);
+  return join(directory, "bookings.json");
+}
+
+const sheetsStore = (fetchStub = sheetsStub().fetch) =>
+  createGoogleSheetsBookingStore({
+    spreadsheetId: "sheet",
+    clientEmail: "bookings@example.iam.gserviceaccount.com",
+    privateKey,
+    fetch: fetchStub,
+    ...storeOptions(),
+  });
+
+// ============================================================================
+// EVERY ADAPTER
+// ============================================================================
+
+const adapters: [string, () => Promise<BookingStore>][] = [
+  ["memory", async () => createMemoryBookingStore(storeOptions())],
+  ["JSON file", async () => createJsonFileBookingStore({ path: await tempFile(), ...storeOptions() })],
+  ["Google Sheets", async () => sheetsStore()],
+];
+
+adapters.forEach(([name, createStore]) => {
+  describe(`${name} store`, () => {
+    it("saves a booking once per idempotency key", async () => {
+      const store = await createStore();
+      assert.deepEqual(await store.saveStayBooking(stay()), { bookingId: "SW-1" });
+      assert.deepEqual(await store.saveStayBooking(stay()), { bookingId: "SW-1" });
+      assert.deepEqual(await store.saveDayTripBooking(dayTrip()), { bookingId: "SW-2" });
+      assert.deepEqual(await store.saveDayTripBooking(dayTrip()), { bookingId: "SW-2" });
+
+      assert.equal((await store.listStayBookings(item.id)).length, 1);
+      assert.equal((await store.listDayTripBookings(trip.slug)).length, 1);
+      assert.equal((await store.findBooking("stay-1"))?.bookingId, "SW-1");
+      assert.equal(await store.findBooking("unknown"), null);
+    });
+
+    it("reads back what it saved, without the quote", async () => {
+      const store = await createStore();
+      const { quote, ...record } = stay({ childAges: [4, 9], addons: "Airport transfer" });
+      await store.saveStayBooking({ ...record, quote });
+      const { quote: tripQuote, ...tripRecord } = dayTrip({ addonIds: ["lunch", "quad"] });
+      await store.saveDayTripBooking({ ...tripRecord, quote: tripQuote });
+
+      const saved = { status: "confirmed", createdAt: "2027-01-15T10:00:00.000Z" };
+      assert.deepEqual(await store.listStayBookings(item.id), [{ ...record, ...saved, bookingId: "SW-1" }]);
+      assert.deepEqual(await store.listDayTripBookings(trip.slug), [{ ...tripRecord, ...saved, bookingId: "SW-2" }]);
+    });
+
+    it("refuses a payment another booking already holds", async () => {
+      const store = await createStore();
+      await store.saveStayBooking(stay());
+      await assert.rejects(store.saveStayBooking(stay({ idempotencyKey: "stay-2" })), PaymentAlreadyUsedError);
+      await assert.rejects(
+        store.saveDayTripBooking(dayTrip({ transactionId: "mock_1" })),
+        (err: unknown) => err instanceof PaymentAlreadyUsedError && err.transactionId === "mock_1"
+      );
+      // The same payment id from another provider is another payment
+      await store.saveStayBooking(stay({ idempotencyKey: "stay-3", paymentProvider: "stripe" }));
+
+      assert.equal((await store.findPaidBooking("mock", "mock_1"))?.bookingId, "SW-1");
+      assert.equal((await store.listStayBookings(item.id)).length, 2);
+    });
+
+    it("counts saved stays and day trips as booked", async () => {
+      const store = await createStore();
+      await store.saveStayBooking(stay({ units: 2 }));
+      await store.saveStayBooking(
+        stay({ idempotencyKey: "stay-2", transactionId: "mock_2", checkIn: "2027-03-02", nights: 1 })
+      );
+      await store.saveDayTripBooking(dayTrip());
+
+      // One unit of 2027-03-02 is also taken on another channel
+      const getBookedUnits = storedUnitsLoader(store, async () => ({ "2027-03-02": 1 }));
+      assert.deepEqual(await getBookedUnits(item, { timeZone: "Africa/Casablanca" }), {
+        "2027-03-01": 2,
+        "2027-03-02": 4,
+      });
+      assert.deepEqual(await storedDeparturesLoader(store)(trip), { "2027-03-01": 1 });
+    });
+
+    it("finds the latest draft kept for a payment", async () => {
+      const store = await createStore();
+      const pending = (createdAt: string): PendingBooking => ({
+        idempotencyKey: "stay-1",
+        kind: "stay",
+        paymentProvider: "paypal",
+        transactionId: "ORDER-1",
+        booking: {
+          itemId: item.id,
+          checkIn: "2027-03-01",
+          guests: 2,
+          totalEUR: "200.00",
+          firstName: "Amina",
+          lastName: "Idrissi",
+          email: "amina@example.com",
+        },
+        createdAt,
+      });
+      await store.savePendingBooking(pending("2027-01-15T10:00:00.000Z"));
+      await store.savePendingBooking(pending("2027-01-15T10:05:00.000Z"));
+
+      assert.deepEqual(await store.findPendingBooking("paypal", "ORDER-1"), pending("2027-01-15T10:05:00.000Z"));
+      assert.equal(await store.findPendingBooking("stripe", "ORDER-1"), null);
+    });
+  });
+});
+
+// ============================================================================
+// ADAPTER SPECIFICS
+// ============================================================================
+
+describe("bookedUnitsOf", () => {
+  it("leaves cancelled stays out", async () => {
+    const store = createMemoryBookingStore(storeOptions());
+    await store.saveStayBooking(stay());
+    const [saved] = await store.listStayBookings(item.id);
+    assert.deepEqual(bookedUnitsOf([saved, { ...saved, status: "cancelled" }]), { "2027-03-01": 1, "2027-03-02": 1 });
+  });
+});
+
+describe("JSON file store", () => {
+  it("starts empty without a file and picks up bookings cancelled by hand", async () => {
+    const path = await tempFile();
+    const store = createJsonFileBookingStore({ path, ...storeOptions() });
+    assert.deepEqual(await store.listStayBookings(item.id), []);
+
+    await store.saveStayBooking(stay());
+    const file: { stays: { status: string }[] } = JSON.parse(await readFile(path, "utf8"));
+    file.stays[0].status = "cancelled";
+    await writeFile(path, JSON.stringify(file));
+
+    assert.deepEqual(await storedUnitsLoader(store, async () => ({}))(item, { timeZone: "Africa/Casablanca" }), {});
+  });
+});
+
+describe("Google Sheets store", () => {
+  it("writes the field names on the first row of an empty tab", async () => {
+    const stub = sheetsStub();
+    await sheetsStore(stub.fetch).saveStayBooking(stay());
+    const [header, row] = stub.tabs.get("Bookings") ?? [];
+    assert.equal(header[0], "bookingId");
+    assert.equal(row[0], "SW-1");
+    assert.equal(header.length, row.length);
+  });
+
+  it("reads a missing tab as empty and saves to the tabs that exist", async () => {
+    const stub = sheetsStub(["Bookings", "Pending"]);
+    const store = sheetsStore(stub.fetch);
+    assert.deepEqual(await store.listDayTripBookings(trip.slug), []);
+    assert.deepEqual(await store.saveStayBooking(stay()), { bookingId: "SW-1" });
+    assert.equal(await store.findBooking("unknown"), null);
+    await assert.rejects(store.saveDayTripBooking(dayTrip()), /Unable to parse range/);
+  });
+});
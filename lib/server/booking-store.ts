@@ -0,0 +1,269 @@
+import { departureKey } from "@/lib/availability";
+import type { BookedDepartures, BookedUnits } from "@/lib/availability";
+import type { CurrencyCode } from "@/lib/currency";
+import { addDays } from "@/lib/dates";
+import { loadBookedUnits } from "@/lib/server/availability";
+import { createDayTripBookingHandler, createStayBookingHandler } from "@/lib/server/booking-handlers";
+import type { DayTripBookingRecord, StayBookingRecord } from "@/lib/server/booking-handlers";
+import { createDayTripAvailabilityHandler } from "@/lib/server/day-trip-availability";
+import type { ExchangeRateSource } from "@/lib/server/exchange-rates";
+import { createICalExportHandler } from "@/lib/server/ical-export";
+import { PaymentAlreadyUsedError } from "@/lib/server/payments";
+import type { PaymentVerifiers } from "@/lib/server/payments";
+import { createPaymentWebhookHandler } from "@/lib/server/payment-webhooks";
+import type { WebhookSignatureVerifiers } from "@/lib/server/payment-webhooks";
+import type { BookedDeparturesLoader, BookedUnitsLoader, PendingBooking } from "@/lib/server/requests";
+import type { DayTrip, StayListing } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BookingStatus = "confirmed" | "cancelled";
+
+// Added by the store when a booking is saved
+export interface StoredFields {
+  bookingId: string;
+  status: BookingStatus; // Set to "cancelled" by hand to free the dates
+  createdAt: string; // ISO timestamp
+}
+
+// Saved bookings are the handlers' records without the quote, which is only
+// needed while pricing
+export type StoredStayBookingRecord = Omit<StayBookingRecord, "quote"> & StoredFields;
+export type StoredDayTripBookingRecord = Omit<DayTripBookingRecord, "quote"> & StoredFields;
+
+export type StoredBookingRecord = StoredStayBookingRecord | StoredDayTripBookingRecord;
+
+// Where bookings are kept. Adapters: createMemoryBookingStore (tests),
+// createJsonFileBookingStore (local development) and
+// createGoogleSheetsBookingStore (production). Saving a booking whose
+// idempotencyKey is already stored returns the stored booking's id; saving
+// one whose payment another booking holds throws a PaymentAlreadyUsedError.
+export interface BookingStore {
+  saveStayBooking: (booking: StayBookingRecord) => Promise<{ bookingId: string }>;
+  saveDayTripBooking: (booking: DayTripBookingRecord) => Promise<{ bookingId: string }>;
+  listStayBookings: (itemId: string) => Promise<StoredStayBookingRecord[]>;
+  listDayTripBookings: (tripSlug: string) => Promise<StoredDayTripBookingRecord[]>;
+  findBooking: (idempotencyKey: string) => Promise<StoredBookingRecord | null>;
+  findPaidBooking: (paymentProvider: string, transactionId: string) => Promise<StoredBookingRecord | null>;
+  savePendingBooking: (pending: PendingBooking) => Promise<void>;
+  findPendingBooking: (paymentProvider: string, transactionId: string) => Promise<PendingBooking | null>;
+}
+
+export interface BookingStoreOptions {
+  newBookingId?: () => string; // Defaults to createBookingId
+  now?: () => Date;
+}
+
+export interface BookingRoutesOptions {
+  store: BookingStore;
+  getListing?: (itemId: string) => Promise<StayListing | null>;
+  getTrip?: (tripSlug: string) => Promise<DayTrip | null>;
+  verifiers: PaymentVerifiers;
+  // Defaults to the stays saved in the store plus the item's iCal feeds
+  getBookedUnits?: BookedUnitsLoader;
+  getExchangeRates?: ExchangeRateSource;
+  currencies?: CurrencyCode[];
+  uidDomain?: string; // For the iCal export
+  // Signature checks for the payment webhook, which refuses every event without them
+  webhookVerifiers?: WebhookSignatureVerifiers;
+}
+
+// ============================================================================
+// HELPERS (shared by the adapters)
+// ============================================================================
+
+// e.g. "SW-4F7A19C2D0"
+export function createBookingId() {
+  return `SW-${crypto.randomUUID().replace(/-/g, "").slice(0, 10).toUpperCase()}`;
+}
+
+export function storedFieldsFactory({ newBookingId = createBookingId, now = () => new Date() }: BookingStoreOptions) {
+  return (): StoredFields => ({ bookingId: newBookingId(), status: "confirmed", createdAt: now().toISOString() });
+}
+
+export function toStoredRecord<T extends { quote: unknown }>({ quote, ...record }: T, fields: StoredFields) {
+  return { ...record, ...fields };
+}
+
+export function findByIdempotencyKey<T extends StoredBookingRecord>(bookings: T[], idempotencyKey: string) {
+  return (idempotencyKey && bookings.find((booking) => booking.idempotencyKey === idempotencyKey)) || null;
+}
+
+// Cancelled bookings keep their payment too
+export function findByPayment<T extends StoredBookingRecord>(bookings: T[], paymentProvider: string, transactionId: string) {
+  return (
+    (transactionId &&
+      bookings.find((booking) => booking.paymentProvider === paymentProvider && booking.transactionId === transactionId)) ||
+    null
+  );
+}
+
+// The stored booking a save is a retry of, or null when it is new. Throws
+// when another booking was already saved with the same payment.
+export function savedBookingFor(
+  bookings: StoredBookingRecord[],
+  { idempotencyKey, paymentProvider, transactionId }: StayBookingRecord | DayTripBookingRecord
+) {
+  const retried = findByIdempotencyKey(bookings, idempotencyKey);
+  if (retried) return retried;
+  if (findByPayment(bookings, paymentProvider, transactionId)) {
+    throw new PaymentAlreadyUsedError(paymentProvider, transactionId);
+  }
+  return null;
+}
+
+// The latest draft kept for a payment
+export function findPending(pending: PendingBooking[], paymentProvider: string, transactionId: string) {
+  const matches = pending.filter((p) => p.paymentProvider === paymentProvider && p.transactionId === transactionId);
+  return matches[matches.length - 1] ?? null;
+}
+
+// One departure per confirmed booking, counted under its date or slot
+export function bookedDeparturesOf(bookings: StoredDayTripBookingRecord[]): BookedDepartures {
+  const booked: BookedDepartures = {};
+  bookings
+    .filter((booking) => booking.status === "confirmed")
+    .forEach((booking) => {
+      const key = departureKey(booking.tripDate, booking.departureTime || undefined);
+      booked[key] = (booked[key] ?? 0) + 1;
+    });
+  return booked;
+}
+
+// A getBookedDepartures that counts the trips saved in a store
+export function storedDeparturesLoader(store: BookingStore): BookedDeparturesLoader {
+  return async (trip) => bookedDeparturesOf(await store.listDayTripBookings(trip.slug));
+}
+
+// Units taken on each night by the confirmed stays
+export function bookedUnitsOf(bookings: StoredStayBookingRecord[]): BookedUnits {
+  const booked: BookedUnits = {};
+  bookings
+    .filter((booking) => booking.status === "confirmed")
+    .forEach((booking) => {
+      for (let i = 0; i < booking.nights; i++) {
+        const night = addDays(booking.checkIn, i);
+        booked[night] = (booked[night] ?? 0) + (booking.units || 1);
+      }
+    });
+  return booked;
+}
+
+// A getBookedUnits that adds the stays saved in a store to the units booked
+// on other channels (the item's iCal feeds by default)
+export function storedUnitsLoader(
+  store: BookingStore,
+  loadChannelUnits: BookedUnitsLoader = loadBookedUnits
+): BookedUnitsLoader {
+  return async (item, options) => {
+    const [stored, channels] = await Promise.all([store.listStayBookings(item.id), loadChannelUnits(item, options)]);
+    const booked: BookedUnits = { ...channels };
+    Object.entries(bookedUnitsOf(stored)).forEach(([night, units]) => {
+      booked[night] = (booked[night] ?? 0) + units;
+    });
+    return booked;
+  };
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+// Lost on restart; for tests and demos
+export function createMemoryBookingStore(options: BookingStoreOptions = {}): BookingStore {
+  const stays: StoredStayBookingRecord[] = [];
+  const dayTrips: StoredDayTripBookingRecord[] = [];
+  const pending: PendingBooking[] = [];
+  const storedFields = storedFieldsFactory(options);
+  const all = (): StoredBookingRecord[] => [...stays, ...dayTrips];
+
+  return {
+    saveStayBooking: async (booking) => {
+      const existing = savedBookingFor(all(), booking);
+      if (existing) return { bookingId: existing.bookingId };
+      const stored = toStoredRecord(booking, storedFields());
+      stays.push(stored);
+      return { bookingId: stored.bookingId };
+    },
+    saveDayTripBooking: async (booking) => {
+      const existing = savedBookingFor(all(), booking);
+      if (existing) return { bookingId: existing.bookingId };
+      const stored = toStoredRecord(booking, storedFields());
+      dayTrips.push(stored);
+      return { bookingId: stored.bookingId };
+    },
+    listStayBookings: async (itemId) =>
+      stays.filter((booking) => booking.itemId === itemId).map((booking) => ({ ...booking })),
+    listDayTripBookings: async (tripSlug) =>
+      dayTrips.filter((booking) => booking.tripSlug === tripSlug).map((booking) => ({ ...booking })),
+    findBooking: async (idempotencyKey) => findByIdempotencyKey(all(), idempotencyKey),
+    findPaidBooking: async (paymentProvider, transactionId) => findByPayment(all(), paymentProvider, transactionId),
+    savePendingBooking: async (draft) => {
+      pending.push(draft);
+    },
+    findPendingBooking: async (paymentProvider, transactionId) => findPending(pending, paymentProvider, transactionId),
+  };
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+// The booking routes wired to one store. Stays and day trips are checked
+// against the bookings already saved in it (stays against their iCal feeds
+// too), the iCal export publishes its stays, and the payment webhook saves
+// the pending bookings the browser never posted.
+// Pass `store.savePendingBooking` to the PayPal and Stripe order routes.
+export function createBookingRoutes({
+  store,
+  getListing,
+  getTrip = async () => null,
+  verifiers,
+  getBookedUnits = storedUnitsLoader(store),
+  getExchangeRates,
+  currencies,
+  uidDomain,
+  webhookVerifiers = {},
+}: BookingRoutesOptions) {
+  const getBookedDepartures = storedDeparturesLoader(store);
+  const stayBookings = createStayBookingHandler({
+    getListing: getListing ?? (async () => null),
+    saveBooking: store.saveStayBooking,
+    findBooking: store.findBooking,
+    findPaidBooking: store.findPaidBooking,
+    verifiers,
+    getBookedUnits,
+    getExchangeRates,
+    currencies,
+  });
+  const dayTripBookings = createDayTripBookingHandler({
+    getTrip,
+    saveBooking: store.saveDayTripBooking,
+    findBooking: store.findBooking,
+    findPaidBooking: store.findPaidBooking,
+    verifiers,
+    getBookedDepartures,
+    getExchangeRates,
+    currencies,
+  });
+
+  return {
+    // POST /api/bookings
+    stayBookings,
+    // POST /api/day-trip-bookings
+    dayTripBookings,
+    // GET /api/day-trip-availability
+    dayTripAvailability: createDayTripAvailabilityHandler({ getTrip, getBookedDepartures }),
+    // GET /api/ical/export
+    icalExport: createICalExportHandler({ listBookings: store.listStayBookings, getListing, uidDomain }),
+    // POST /api/payment-webhooks
+    paymentWebhook: createPaymentWebhookHandler({
+      findPendingBooking: store.findPendingBooking,
+      webhookVerifiers,
+      stayBookings,
+      dayTripBookings,
+    }),
+  };
+}
@@ -0,0 +1,60 @@
+import { soldOutDates } from "@/lib/availability";
+import type { BookedDepartures } from "@/lib/availability";
+import { DEFAULT_DEPARTURES_PER_DAY, slotsOf } from "@/lib/quote";
+import { failure } from "@/lib/server/requests";
+import type { BookedDeparturesLoader } from "@/lib/server/requests";
+import type { DayTrip } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DayTripAvailabilityHandlerOptions {
+  getTrip: (tripSlug: string) => Promise<DayTrip | null>;
+  getBookedDepartures?: BookedDeparturesLoader;
+  cacheSeconds?: number;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+// GET /api/day-trip-availability?trip=<slug>
+// Responds with { weekdays, blackouts, departuresPerDay, slots,
+// bookedDepartures: { date: count }, soldOutDates: [...] }. `weekdays` is
+// null when the trip runs every day. Slot bookings are counted under
+// "<date>T<time>". DayTripBookingModal disables the dates it cannot go on.
+export function createDayTripAvailabilityHandler({
+  getTrip,
+  getBookedDepartures,
+  cacheSeconds = 60,
+}: DayTripAvailabilityHandlerOptions) {
+  return async function GET(request: Request) {
+    const slug = new URL(request.url).searchParams.get("trip")?.trim() ?? "";
+    const trip = slug ? await getTrip(slug) : null;
+    if (!trip) return failure(404, "Unknown trip");
+
+    let bookedDepartures: BookedDepartures = {};
+    if (getBookedDepartures) {
+      try {
+        bookedDepartures = await getBookedDepartures(trip);
+      } catch (err) {
+        console.error("Day-trip availability lookup failed:", err);
+        return failure(502, "Unable to load availability");
+      }
+    }
+
+    return Response.json(
+      {
+        success: true,
+        weekdays: trip.weekdays ?? null,
+        blackouts: trip.blackouts ?? [],
+        departuresPerDay: trip.departuresPerDay ?? DEFAULT_DEPARTURES_PER_DAY,
+        slots: slotsOf(trip),
+        bookedDepartures,
+        soldOutDates: soldOutDates(trip, bookedDepartures),
+      },
+      { headers: { "Cache-Control": `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 4}` } }
+    );
+  };
+}
@@ -0,0 +1,125 @@
+import { CURRENCIES, isCurrency } from "@/lib/currency";
+import type { CurrencyCode, ExchangeRates } from "@/lib/currency";
+import { isRecord, stringAt, valueAt } from "@/lib/server/json";
+import { failure } from "@/lib/server/requests";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExchangeRateSource = () => Promise<ExchangeRates>;
+
+export interface HttpRateSourceOptions {
+  // JSON endpoint answering { base, rates: { USD: 1.08, ... }, date }, the
+  // shape most rate APIs use. Rates against another base are converted.
+  url: string;
+  cacheSeconds?: number;
+  fetch?: typeof fetch;
+}
+
+export interface ExchangeRatesHandlerOptions {
+  source: ExchangeRateSource;
+  cacheSeconds?: number;
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+// Rates you maintain yourself, e.g. the ones the property quotes at the desk
+export function createFixedRateSource(
+  rates: Partial<Record<CurrencyCode, number>>,
+  asOf = new Date().toISOString().slice(0, 10)
+): ExchangeRateSource {
+  return async () => ({ base: "EUR", rates: { ...rates, EUR: 1 }, asOf });
+}
+
+function ratesFromResponse(data: unknown): ExchangeRates {
+  const base = (stringAt(data, "base") || stringAt(data, "source") || "EUR").toUpperCase();
+  const quoted = (code: string) => (code === base ? 1 : Number(valueAt(data, "rates", code)));
+
+  // Rebase onto EUR if the API quotes against something else
+  const perEUR = quoted("EUR");
+  if (!(perEUR > 0)) throw new Error(`Rates against ${base} do not include EUR`);
+
+  const rates: Partial<Record<CurrencyCode, number>> = {};
+  CURRENCIES.forEach((code) => {
+    const value = quoted(code) / perEUR;
+    if (Number.isFinite(value) && value > 0) rates[code] = Math.round(value * 1e6) / 1e6;
+  });
+  const asOf = valueAt(data, "date") ?? valueAt(data, "timestamp");
+  return {
+    base: "EUR",
+    rates,
+    asOf: typeof asOf === "string" || typeof asOf === "number" ? String(asOf) : new Date().toISOString(),
+  };
+}
+
+// Fetch rates from an HTTP API, serving them from memory for `cacheSeconds`
+// and falling back to the last good copy if the API is down
+export function createHttpRateSource({ url, cacheSeconds = 3600, fetch: fetchImpl = fetch }: HttpRateSourceOptions) {
+  let cached: { rates: ExchangeRates; expiresAt: number } | null = null;
+
+  const source: ExchangeRateSource = async () => {
+    if (cached && cached.expiresAt > Date.now()) return cached.rates;
+
+    try {
+      const response = await fetchImpl(url, { headers: { Accept: "application/json" }, cache: "no-store" });
+      if (!response.ok) throw new Error(`Rate API responded ${response.status}`);
+      const rates = ratesFromResponse(await response.json());
+      cached = { rates, expiresAt: Date.now() + cacheSeconds * 1000 };
+      return rates;
+    } catch (err) {
+      if (cached) {
+        console.error("Exchange rate fetch failed, serving cached rates:", err);
+        return cached.rates;
+      }
+      throw err;
+    }
+  };
+  return source;
+}
+
+// EXCHANGE_RATES_URL picks an HTTP source; otherwise EXCHANGE_RATES holds
+// fixed rates as JSON, e.g. {"MAD":10.8,"USD":1.08,"GBP":0.85}. With neither
+// only EUR is offered.
+export function createExchangeRateSourceFromEnv(options: Pick<HttpRateSourceOptions, "fetch" | "cacheSeconds"> = {}) {
+  if (process.env.EXCHANGE_RATES_URL) {
+    return createHttpRateSource({ url: process.env.EXCHANGE_RATES_URL, ...options });
+  }
+
+  let fixed: Partial<Record<CurrencyCode, number>> = {};
+  try {
+    const parsed: unknown = JSON.parse(process.env.EXCHANGE_RATES || "{}");
+    Object.entries(isRecord(parsed) ? parsed : {}).forEach(([code, rate]) => {
+      if (isCurrency(code) && Number(rate) > 0) fixed[code] = Number(rate);
+    });
+  } catch {
+    console.error("EXCHANGE_RATES is not valid JSON; only EUR will be offered");
+    fixed = {};
+  }
+  return createFixedRateSource(fixed);
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+// GET /api/exchange-rates
+// Responds with { base: "EUR", rates: { EUR: 1, MAD: 10.8, ... }, asOf }.
+// The modals convert prices with these and send the rate back with the
+// payment, so the booking routes can check it is still current.
+export function createExchangeRatesHandler({ source, cacheSeconds = 900 }: ExchangeRatesHandlerOptions) {
+  return async function GET() {
+    try {
+      const rates = await source();
+      return Response.json(
+        { success: true, ...rates },
+        { headers: { "Cache-Control": `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 4}` } }
+      );
+    } catch (err) {
+      console.error("Exchange rate lookup failed:", err);
+      return failure(502, "Unable to load exchange rates");
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { isPlainDate } from "@/lib/dates";
+import { formatICal } from "@/lib/ical";
+import type { ICalExportEvent } from "@/lib/ical";
+import type { StayBookingRecord } from "@/lib/server/booking-handlers";
+import { failure } from "@/lib/server/requests";
+import type { StayListing } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// A saved stay as read back from storage. Only the dates and id are
+// published; guest details never leave the server.
+export interface StoredStayBooking extends Pick<StayBookingRecord, "itemId" | "checkIn" | "checkOut"> {
+  bookingId: string;
+  status?: string; // "confirmed" unless stated; anything else is left out
+  createdAt?: string; // ISO timestamp, used for DTSTAMP
+}
+
+export interface ICalExportHandlerOptions {
+  listBookings: (itemId: string) => Promise<StoredStayBooking[]>;
+  // When set, unknown items get a 404 and the feed is named after the item
+  getListing?: (itemId: string) => Promise<StayListing | null>;
+  // Domain part of every UID, so ids stay unique across calendars
+  uidDomain?: string;
+  // Shared secret expected as ?token=; defaults to ICAL_EXPORT_TOKEN
+  token?: string;
+  summary?: string;
+  cacheSeconds?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Stable across requests so channels update or remove the same event
+// instead of importing a duplicate
+export function bookingUid(bookingId: string, uidDomain: string) {
+  return `${bookingId.replace(/[^A-Za-z0-9._-]/g, "-")}@${uidDomain}`;
+}
+
+function exportEventOf(booking: StoredStayBooking, uidDomain: string, summary: string): ICalExportEvent | null {
+  if (booking.status && booking.status !== "confirmed") return null;
+  if (!isPlainDate(booking.checkIn) || !isPlainDate(booking.checkOut)) return null;
+  if (booking.checkOut <= booking.checkIn) return null;
+
+  const stamp = booking.createdAt ? new Date(booking.createdAt) : undefined;
+  return {
+    uid: bookingUid(booking.bookingId, uidDomain),
+    start: booking.checkIn,
+    end: booking.checkOut,
+    summary,
+    stamp: stamp && !isNaN(stamp.getTime()) ? stamp : undefined,
+  };
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+// GET /api/ical/export?item=<itemId>&token=<secret>
+// Publishes confirmed direct bookings as an all-day feed for Airbnb,
+// Booking.com and other channels to import. DTEND is the check-out date.
+export function createICalExportHandler(options: ICalExportHandlerOptions) {
+  const {
+    listBookings,
+    getListing,
+    uidDomain = "direct-booking",
+    token = process.env.ICAL_EXPORT_TOKEN,
+    summary = "Reserved",
+    cacheSeconds = 300,
+  } = options;
+
+  return async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+    if (token && params.get("token") !== token) return failure(401, "Invalid token");
+
+    const itemId = params.get("item") ?? "";
+    if (!itemId) return failure(400, "Missing item");
+
+    const listing = getListing ? await getListing(itemId) : null;
+    if (getListing && !listing) return failure(404, "Unknown item");
+
+    const bookings = await listBookings(itemId);
+    const events = bookings
+      .filter((booking) => booking.itemId === itemId)
+      .map((booking) => exportEventOf(booking, uidDomain, summary))
+      .filter((event): event is ICalExportEvent => event !== null)
+      .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+    const body = formatICal(events, {
+      prodId: `-//${uidDomain}//Direct Bookings//EN`,
+      name: listing ? listing.item.name : itemId,
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${itemId.replace(/[^A-Za-z0-9._-]/g, "-")}.ics"`,
+        "Cache-Control": `private, max-age=${cacheSeconds}`,
+      },
+    });
+  };
+}
@@ -0,0 +1,109 @@
+import type { AvailabilityConflict } from "@/lib/availability";
+import { isValidTimeZone } from "@/lib/dates";
+import { loadAvailability } from "@/lib/server/availability";
+import type { AvailabilityOptions } from "@/lib/server/availability";
+import { failure } from "@/lib/server/requests";
+import type { ICalFeed } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ICalHandlerOptions extends AvailabilityOptions {
+  // Hostnames (or parent domains) feeds may be fetched from, e.g.
+  // ["airbnb.com", "booking.com"]. Defaults to ICAL_ALLOWED_HOSTS; with
+  // neither every feed is refused, so the route never fetches arbitrary URLs.
+  allowedHosts?: string[];
+  // Called when two channels are found to have sold the same nights, e.g. to
+  // email the owner. Each conflict is reported once per server instance.
+  // Defaults to a console warning.
+  onConflicts?: (conflicts: AvailabilityConflict[], feeds: ICalFeed[]) => void | Promise<void>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isAllowedUrl(raw: string, allowedHosts: string[]) {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  const host = url.hostname.toLowerCase();
+  return allowedHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+function allowedHostsFromEnv() {
+  return (process.env.ICAL_ALLOWED_HOSTS ?? "").split(",").map((host) => host.trim().toLowerCase()).filter(Boolean);
+}
+
+function warnConflicts(conflicts: AvailabilityConflict[]) {
+  conflicts.forEach(({ start, end, bookings }) => {
+    console.warn(
+      `Double-booking ${start} → ${end}: ${bookings.map((b) => `${b.channel} "${b.summary}" (${b.uid})`).join(" vs ")}`
+    );
+  });
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+// GET /api/ical?url=<feed>&channel=<name>[&url=...&channel=...][&units=<n>][&tz=<zone>]
+// Responds with { bookedDates: [{ start, end, channel }], blockedNights: [...],
+// bookedUnits: { night: count }, conflicts: [...] } where `end` is exclusive.
+// Each booking takes one of `units` units; blockedNights are the nights with
+// none left. Timed events are placed on dates in `tz` (the property's time
+// zone). Channels default to the feed's hostname.
+export function createICalHandler(options: ICalHandlerOptions = {}) {
+  const {
+    allowedHosts = allowedHostsFromEnv(),
+    onConflicts = warnConflicts,
+    cacheSeconds = 900,
+  } = options;
+  const reported = new Set<string>();
+
+  return async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+    const urls = params.getAll("url");
+    const channels = params.getAll("channel");
+    if (allowedHosts.length === 0) {
+      console.error("iCal feeds refused: set ICAL_ALLOWED_HOSTS or allowedHosts to the channels' hostnames");
+      return failure(400, "Invalid feed URL");
+    }
+    if (urls.length === 0 || urls.some((url) => !isAllowedUrl(url, allowedHosts))) {
+      return failure(400, "Invalid feed URL");
+    }
+
+    const feeds: ICalFeed[] = urls.map((url, i) => ({ url, channel: channels[i] || new URL(url).hostname }));
+    const units = Math.min(Math.max(parseInt(params.get("units") ?? "1", 10) || 1, 1), 1000);
+    const tz = params.get("tz");
+    const timeZone = tz && isValidTimeZone(tz) ? tz : options.timeZone;
+    const availability = await loadAvailability(feeds, { ...options, units, timeZone });
+    if (availability.errors.length === feeds.length) {
+      return failure(502, "Unable to load availability");
+    }
+
+    const newConflicts = availability.conflicts.filter((conflict) => {
+      const key = `${conflict.start}|${conflict.bookings.map((b) => `${b.channel}:${b.uid}`).join("|")}`;
+      if (reported.has(key)) return false;
+      reported.add(key);
+      return true;
+    });
+    if (newConflicts.length > 0) {
+      try {
+        await onConflicts(newConflicts, feeds);
+      } catch (err) {
+        console.error("Conflict report failed:", err);
+      }
+    }
+
+    return Response.json(
+      { success: true, ...availability },
+      { headers: { "Cache-Control": `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 4}` } }
+    );
+  };
+}
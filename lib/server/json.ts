@@ -0,0 +1,33 @@
+// ============================================================================
+// UNTRUSTED JSON
+// ============================================================================
+
+// Provider responses, webhook events and request bodies are `unknown` until
+// read through these: a field that is missing or of the wrong type reads as
+// absent, so a changed response fails a check instead of throwing.
+
+export type JsonPath = (string | number)[];
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// e.g. valueAt(order, "purchase_units", 0, "reference_id")
+export function valueAt(value: unknown, ...path: JsonPath): unknown {
+  let node = value;
+  for (const key of path) {
+    if (typeof key === "number") node = Array.isArray(node) ? node[key] : undefined;
+    else node = isRecord(node) ? node[key] : undefined;
+  }
+  return node;
+}
+
+export function stringAt(value: unknown, ...path: JsonPath): string {
+  const found = valueAt(value, ...path);
+  return typeof found === "string" ? found : "";
+}
+
+export function numberAt(value: unknown, ...path: JsonPath): number | undefined {
+  const found = valueAt(value, ...path);
+  return typeof found === "number" && Number.isFinite(found) ? found : undefined;
+}
@@ -0,0 +1,220 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+import { PAYMENT_PENDING } from "@/lib/booking-api";
+import type { BookingResponse } from "@/lib/booking-api";
+import { createPaymentWebhookHandler } from "@/lib/server/payment-webhooks";
+import type { PaymentWebhookHandlerOptions, WebhookSignatureVerifiers } from "@/lib/server/payment-webhooks";
+import { createPayPalWebhookVerifier } from "@/lib/server/paypal";
+import type { PayPalClient, PayPalWebhookSignature } from "@/lib/server/paypal";
+import type { PendingBooking } from "@/lib/server/requests";
+import { createStripeWebhookVerifier } from "@/lib/server/stripe";
+
+const SIGNING_SECRET = "whsec_test";
+const NOW = Date.parse("2027-03-01T10:00:00Z");
+
+const pending: PendingBooking = {
+  idempotencyKey: "stay-1",
+  kind: "stay",
+  paymentProvider: "stripe",
+  transactionId: "pi_1",
+  booking: {
+    itemId: "atlas",
+    checkIn: "2027-03-01",
+    guests: 2,
+    totalEUR: "200.00",
+    firstName: "Amina",
+    lastName: "Idrissi",
+    email: "amina@example.com",
+  },
+  createdAt: "2027-03-01T09:55:00.000Z",
+};
+
+const stripeEvent = { type: "payment_intent.succeeded", data: { object: { id: "pi_1" } } };
+const paypalEvent = {
+  event_type: "PAYMENT.CAPTURE.COMPLETED",
+  resource: { id: "CAPTURE-1", supplementary_data: { related_ids: { order_id: "ORDER-1" } } },
+};
+
+// A PayPal client whose signature check answers `verified` for the webhook id
+function paypalClient(verified: boolean, checked: PayPalWebhookSignature[] = []): PayPalClient {
+  const unused = async (): Promise<never> => {
+    throw new Error("Not used by the webhook");
+  };
+  return {
+    createOrder: unused,
+    captureOrder: unused,
+    getOrder: unused,
+    verifyWebhookSignature: async (signature) => {
+      checked.push(signature);
+      return verified && signature.webhookId === "WH-1";
+    },
+  };
+}
+
+const verifiers = (paypalVerified = true): WebhookSignatureVerifiers => ({
+  paypal: createPayPalWebhookVerifier(paypalClient(paypalVerified), "WH-1"),
+  stripe: createStripeWebhookVerifier({ signingSecret: SIGNING_SECRET, now: () => NOW }),
+});
+
+// A booking route that answers every replay with `status` and `body`
+function bookingRoute(status: number, body: BookingResponse | string, posted: unknown[] = []) {
+  return async (request: Request) => {
+    posted.push(await request.json());
+    return typeof body === "string" ? new Response(body, { status }) : Response.json(body, { status });
+  };
+}
+
+function webhookHandler(options: Partial<PaymentWebhookHandlerOptions> = {}) {
+  return createPaymentWebhookHandler({
+    findPendingBooking: async (provider, transactionId) =>
+      provider === pending.paymentProvider && transactionId === pending.transactionId ? pending : null,
+    webhookVerifiers: verifiers(),
+    stayBookings: bookingRoute(200, { success: true, bookingId: "SW-1" }),
+    dayTripBookings: bookingRoute(500, { success: false, error: "Not a day trip" }),
+    ...options,
+  });
+}
+
+function stripeSignature(rawBody: string, { secret = SIGNING_SECRET, timestamp = NOW / 1000 } = {}) {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function postEvent(
+  handler: (request: Request) => Promise<Response>,
+  event: unknown,
+  headers: (rawBody: string) => Record<string, string> = (rawBody) => ({ "Stripe-Signature": stripeSignature(rawBody) })
+) {
+  const rawBody = JSON.stringify(event);
+  const response = await handler(
+    new Request("http://localhost/api/payment-webhooks", { method: "POST", headers: headers(rawBody), body: rawBody })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+const paypalHeaders = () => ({
+  "PayPal-Auth-Algo": "SHA256withRSA",
+  "PayPal-Cert-Url": "https://api.paypal.com/v1/notifications/certs/CERT-1",
+  "PayPal-Transmission-Id": "TRANSMISSION-1",
+  "PayPal-Transmission-Sig": "signature",
+  "PayPal-Transmission-Time": "2027-03-01T10:00:00Z",
+});
+
+describe("payment webhook signatures", () => {
+  it("refuses every event while no verifiers are configured", async () => {
+    const { status } = await postEvent(webhookHandler({ webhookVerifiers: {} }), stripeEvent);
+    assert.equal(status, 503);
+  });
+
+  it("saves the pending booking of a signed Stripe event", async () => {
+    const posted: unknown[] = [];
+    const handler = webhookHandler({ stayBookings: bookingRoute(200, { success: true, bookingId: "SW-1" }, posted) });
+    const { status, body } = await postEvent(handler, stripeEvent);
+    assert.equal(status, 200);
+    assert.deepEqual(body, { success: true, reconciled: true, bookingId: "SW-1" });
+    assert.deepEqual(posted, [
+      { ...pending.booking, idempotencyKey: "stay-1", paymentProvider: "stripe", transactionId: "pi_1" },
+    ]);
+  });
+
+  it("refuses Stripe events that are unsigned, signed with another secret, tampered with or old", async () => {
+    const posted: unknown[] = [];
+    const handler = webhookHandler({ stayBookings: bookingRoute(200, { success: true }, posted) });
+    const signedWith = (options: { secret?: string; timestamp?: number }) => (rawBody: string) => ({
+      "Stripe-Signature": stripeSignature(rawBody, options),
+    });
+
+    const answers = await Promise.all([
+      postEvent(handler, stripeEvent, () => ({})),
+      postEvent(handler, stripeEvent, signedWith({ secret: "whsec_other" })),
+      postEvent(handler, stripeEvent, signedWith({ timestamp: NOW / 1000 - 600 })),
+      postEvent(handler, stripeEvent, (rawBody) => ({
+        "Stripe-Signature": stripeSignature(rawBody.replace("pi_1", "pi_2")),
+      })),
+    ]);
+    answers.forEach(({ status, body }) => {
+      assert.equal(status, 401);
+      assert.equal(body.error, "Invalid webhook signature");
+    });
+    assert.deepEqual(posted, []);
+  });
+
+  it("asks PayPal to check the transmission headers of a PayPal event", async () => {
+    const checked: PayPalWebhookSignature[] = [];
+    const handler = webhookHandler({
+      webhookVerifiers: { paypal: createPayPalWebhookVerifier(paypalClient(true, checked), "WH-1") },
+    });
+    const { status, body } = await postEvent(handler, paypalEvent, paypalHeaders);
+    assert.equal(status, 200);
+    // No booking was kept for ORDER-1
+    assert.deepEqual(body, { success: true, reconciled: false });
+    assert.equal(checked[0].transmissionId, "TRANSMISSION-1");
+    assert.deepEqual(checked[0].event, paypalEvent);
+  });
+
+  it("refuses PayPal events PayPal does not vouch for or that carry no signature", async () => {
+    const refused = await postEvent(webhookHandler({ webhookVerifiers: verifiers(false) }), paypalEvent, paypalHeaders);
+    assert.equal(refused.status, 401);
+    const unsigned = await postEvent(webhookHandler(), paypalEvent, () => ({}));
+    assert.equal(unsigned.status, 401);
+  });
+
+  it("refuses an event from a provider without a verifier", async () => {
+    const handler = webhookHandler({ webhookVerifiers: { paypal: verifiers().paypal } });
+    const { status } = await postEvent(handler, stripeEvent);
+    assert.equal(status, 401);
+  });
+});
+
+describe("payment webhook replays", () => {
+  const replay = async (status: number, body: BookingResponse | string) => {
+    const refused: string[] = [];
+    const handler = webhookHandler({
+      stayBookings: bookingRoute(status, body),
+      onRefused: (_pending, error) => {
+        refused.push(error);
+      },
+    });
+    return { ...(await postEvent(handler, stripeEvent)), refused };
+  };
+
+  it("asks for the event again while the provider has not completed the payment", async () => {
+    const { status, refused } = await replay(402, {
+      success: false,
+      error: "Payment has not been completed",
+      code: PAYMENT_PENDING,
+    });
+    assert.equal(status, 502);
+    assert.deepEqual(refused, []);
+  });
+
+  it("passes a payment the provider refused to onRefused", async () => {
+    const { status, body, refused } = await replay(402, { success: false, error: "Payment was declined" });
+    assert.equal(status, 200);
+    assert.deepEqual(body, { success: true, reconciled: false, error: "Payment was declined" });
+    assert.deepEqual(refused, ["Payment was declined"]);
+  });
+
+  it("passes a booking the route refused to onRefused", async () => {
+    const { status, refused } = await replay(409, { success: false, error: "This date is sold out" });
+    assert.equal(status, 200);
+    assert.deepEqual(refused, ["This date is sold out"]);
+  });
+
+  it("asks for the event again when the booking could not be saved", async () => {
+    for (const body of [{ success: false as const, error: "Sheets unavailable" }, "Bad Gateway"]) {
+      const { status, refused } = await replay(503, body);
+      assert.equal(status, 502);
+      assert.deepEqual(refused, []);
+    }
+  });
+
+  it("ignores events that report no payment and payments no booking was kept for", async () => {
+    const created = { type: "payment_intent.created", data: { object: { id: "pi_1" } } };
+    const ignored = await postEvent(webhookHandler(), created);
+    assert.deepEqual(ignored.body, { success: true, reconciled: false });
+    const unknown = await postEvent(webhookHandler(), { ...stripeEvent, data: { object: { id: "pi_9" } } });
+    assert.deepEqual(unknown.body, { success: true, reconciled: false });
+  });
+});
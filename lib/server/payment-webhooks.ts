@@ -0,0 +1,167 @@
+import { bookingSubmissionOf } from "@/lib/booking-api";
+import type { BookingResponse } from "@/lib/booking-api";
+import { isRecord, stringAt } from "@/lib/server/json";
+import { failure } from "@/lib/server/requests";
+import type { PendingBooking } from "@/lib/server/requests";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BookingRouteHandler = (request: Request) => Promise<Response>;
+
+export interface PaidTransaction {
+  paymentProvider: string;
+  transactionId: string;
+}
+
+// A webhook request as received: the signatures are made over the raw body
+export interface WebhookRequest {
+  headers: Headers;
+  rawBody: string;
+  event: Record<string, unknown>;
+}
+
+// True when the request was signed by the provider
+export type WebhookSignatureVerifier = (webhook: WebhookRequest) => Promise<boolean>;
+
+// Keyed by provider: "paypal" (createPayPalWebhookVerifier) and "stripe"
+// (createStripeWebhookVerifier)
+export type WebhookSignatureVerifiers = Record<string, WebhookSignatureVerifier>;
+
+export interface PaymentWebhookHandlerOptions {
+  findPendingBooking: (paymentProvider: string, transactionId: string) => Promise<PendingBooking | null>;
+  // Events from a provider without one are refused, and every event is
+  // refused while there are none
+  webhookVerifiers: WebhookSignatureVerifiers;
+  // The booking routes, with the payment verifiers registered
+  stayBookings: BookingRouteHandler;
+  dayTripBookings: BookingRouteHandler;
+  // A paid booking the route refused (e.g. the date sold out meanwhile), for
+  // someone to sort out with the guest
+  onRefused?: (pending: PendingBooking, error: string) => void | Promise<void>;
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+function parseEvent(rawBody: string): Record<string, unknown> | null {
+  try {
+    const event: unknown = JSON.parse(rawBody);
+    return isRecord(event) ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+// PayPal events carry an `event_type`, Stripe events a `type`
+export function providerOfEvent(event: Record<string, unknown>) {
+  if (typeof event.event_type === "string") return "paypal";
+  if (typeof event.type === "string") return "stripe";
+  return null;
+}
+
+// The payment a PayPal or Stripe event reports as paid, by the id the
+// booking was kept under. Other events are ignored.
+export function paidTransactionOf(event: Record<string, unknown>): PaidTransaction | null {
+  if (event.event_type === "PAYMENT.CAPTURE.COMPLETED") {
+    const orderId = stringAt(event, "resource", "supplementary_data", "related_ids", "order_id");
+    return orderId ? { paymentProvider: "paypal", transactionId: orderId } : null;
+  }
+  if (event.event_type === "CHECKOUT.ORDER.COMPLETED") {
+    const orderId = stringAt(event, "resource", "id");
+    return orderId ? { paymentProvider: "paypal", transactionId: orderId } : null;
+  }
+  if (event.type === "payment_intent.succeeded") {
+    const intentId = stringAt(event, "data", "object", "id");
+    return intentId ? { paymentProvider: "stripe", transactionId: intentId } : null;
+  }
+  return null;
+}
+
+// Post a pending booking to its booking route as the browser would have. The
+// route verifies the payment with the provider and, with the same
+// idempotency key, answers with the saved booking if the browser got there first.
+export function replayPendingBooking(
+  pending: PendingBooking,
+  { stayBookings, dayTripBookings }: Pick<PaymentWebhookHandlerOptions, "stayBookings" | "dayTripBookings">
+) {
+  const route = pending.kind === "dayTrip" ? dayTripBookings : stayBookings;
+  return route(
+    new Request("http://localhost/booking-replay", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...pending.booking,
+        idempotencyKey: pending.idempotencyKey,
+        paymentProvider: pending.paymentProvider,
+        transactionId: pending.transactionId,
+      }),
+    })
+  );
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+// POST /api/payment-webhooks
+// Point PayPal (PAYMENT.CAPTURE.COMPLETED) and Stripe (payment_intent.succeeded)
+// webhooks here. Nothing is replayed before the provider's signature is
+// checked. The event is then only used to find the pending booking: the
+// payment itself is checked with the provider by the booking route, so the
+// booking routes must have their verifiers registered. Saving errors and
+// payments not complete yet answer 502 so the provider sends the event again.
+export function createPaymentWebhookHandler({
+  findPendingBooking,
+  webhookVerifiers,
+  stayBookings,
+  dayTripBookings,
+  onRefused,
+}: PaymentWebhookHandlerOptions) {
+  return async function POST(request: Request) {
+    if (Object.keys(webhookVerifiers).length === 0) {
+      console.error("Payment webhooks refused: pass webhookVerifiers to check the PayPal and Stripe signatures");
+      return failure(503, "Payment webhooks are not configured");
+    }
+
+    const rawBody = await request.text();
+    const event = parseEvent(rawBody);
+    if (!event) return failure(400, "Invalid request body");
+
+    const provider = providerOfEvent(event);
+    const verifySignature = provider ? webhookVerifiers[provider] : undefined;
+    if (!verifySignature || !(await verifySignature({ headers: request.headers, rawBody, event }))) {
+      return failure(401, "Invalid webhook signature");
+    }
+
+    const paid = paidTransactionOf(event);
+    if (!paid) return Response.json({ success: true, reconciled: false });
+
+    const pending = await findPendingBooking(paid.paymentProvider, paid.transactionId);
+    if (!pending) return Response.json({ success: true, reconciled: false });
+
+    let response: Response;
+    try {
+      response = await replayPendingBooking(pending, { stayBookings, dayTripBookings });
+    } catch (err) {
+      console.error("Booking reconciliation failed:", err);
+      return failure(502, "Booking could not be saved");
+    }
+    const result: BookingResponse | null = await response.json().catch(() => null);
+
+    // Answers the outbox would post again (a server error, a payment the
+    // provider has not completed yet) get the event sent again
+    const submission = bookingSubmissionOf(response.status, result);
+    if (submission.status === "saved") {
+      return Response.json({ success: true, reconciled: true, bookingId: submission.result.bookingId });
+    }
+    if (submission.status === "queued") return failure(502, "Booking could not be saved");
+
+    const { error } = submission.result;
+    console.error("Paid booking refused:", pending.idempotencyKey, error);
+    await onRefused?.(pending, error);
+    return Response.json({ success: true, reconciled: false, error });
+  };
+}
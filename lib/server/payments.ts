@@ -0,0 +1,76 @@
+import type { Money } from "@/lib/money";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExpectedPayment {
+  referenceId: string;
+  amount: Money;
+}
+
+// Everything a verifier needs to decide whether a booking has been paid for
+export interface PaymentCheck extends ExpectedPayment {
+  transactionId: string;
+  email: string;
+}
+
+// A refused payment. `pending` marks one that may still go through (not
+// captured yet, or the provider could not be asked); any other is final.
+export interface PaymentRefusal {
+  error: string;
+  pending?: boolean;
+}
+
+// Resolves to the provider's own reference (capture id, payment intent id)
+// or to a refusal the booking route returns as a 402.
+export type PaymentVerifier = (check: PaymentCheck) => Promise<{ reference: string } | PaymentRefusal>;
+
+export type PaymentVerifiers = Record<string, PaymentVerifier>;
+
+// Thrown by a BookingStore asked to save a payment another booking already holds
+export class PaymentAlreadyUsedError extends Error {
+  paymentProvider: string;
+  transactionId: string;
+
+  constructor(paymentProvider: string, transactionId: string) {
+    super("Payment has already been used for another booking");
+    this.name = "PaymentAlreadyUsedError";
+    this.paymentProvider = paymentProvider;
+    this.transactionId = transactionId;
+  }
+}
+
+// ============================================================================
+// VERIFIERS
+// ============================================================================
+
+export async function verifyPayment(verifiers: PaymentVerifiers, provider: string, check: PaymentCheck) {
+  const verifier = Object.prototype.hasOwnProperty.call(verifiers, provider) ? verifiers[provider] : undefined;
+  if (!verifier) return { error: "Unsupported payment method" };
+  if (!check.transactionId) return { error: "Missing payment reference" };
+  return verifier(check);
+}
+
+// "Pay on arrival" is only honoured for guests the property already trusts
+export function createPayAtPropertyVerifier({
+  isTrustedGuest,
+}: {
+  isTrustedGuest: (email: string) => Promise<boolean>;
+}): PaymentVerifier {
+  return async ({ email, transactionId }) => {
+    if (!email || !(await isTrustedGuest(email.toLowerCase()))) {
+      return { error: "Pay on arrival is not available for this booking" };
+    }
+    return { reference: transactionId };
+  };
+}
+
+// Accepts the ids produced by the mock provider. For local demos and tests
+// only: never register it on a production site.
+export function createMockVerifier(): PaymentVerifier {
+  return async ({ transactionId }) => {
+    if (!transactionId.startsWith("mock_")) return { error: "Not a mock payment" };
+    return { reference: transactionId };
+  };
+}
@@ -0,0 +1,102 @@
+// ============================================================================
+// FAKE PAYPAL API
+// ============================================================================
+// An in-memory stand-in for the PayPal REST endpoints we call: Orders v2 and
+// the webhook signature check. Pass its `fetch` to createPayPalClient, or
+// mount `handle` on a local route and point PAYPAL_API_BASE at it. Orders are
+// approved as soon as they exist, and every webhook signature checks out.
+
+export interface FakePayPalOrder {
+  id: string;
+  status: "CREATED" | "COMPLETED";
+  referenceId: string;
+  description: string;
+  amount: { value: string; currency_code: string };
+  captureId?: string;
+}
+
+export interface FakePayPalApiOptions {
+  // Simulate PayPal capturing something other than what the order asked for
+  captureAmount?: (order: FakePayPalOrder) => { value: string; currency_code: string };
+}
+
+function toOrderResponse(order: FakePayPalOrder) {
+  return {
+    id: order.id,
+    status: order.status,
+    purchase_units: [
+      {
+        reference_id: order.referenceId,
+        description: order.description,
+        amount: order.amount,
+        payments: order.captureId
+          ? { captures: [{ id: order.captureId, status: "COMPLETED", amount: order.amount }] }
+          : undefined,
+      },
+    ],
+  };
+}
+
+export function createFakePayPalApi({ captureAmount }: FakePayPalApiOptions = {}) {
+  const orders = new Map<string, FakePayPalOrder>();
+  let sequence = 0;
+
+  const notFound = () =>
+    Response.json({ name: "RESOURCE_NOT_FOUND", message: "The specified resource does not exist." }, { status: 404 });
+
+  const handle = async (request: Request): Promise<Response> => {
+    const path = new URL(request.url).pathname.replace(/\/+$/, "");
+
+    if (request.method === "POST" && path.endsWith("/v1/oauth2/token")) {
+      return Response.json({ access_token: "fake-access-token", token_type: "Bearer", expires_in: 32400 });
+    }
+
+    if (request.method === "POST" && path.endsWith("/v2/checkout/orders")) {
+      const body = await request.json();
+      const unit = body?.purchase_units?.[0] ?? {};
+      sequence += 1;
+      const order: FakePayPalOrder = {
+        id: `FAKE-ORDER-${sequence}`,
+        status: "CREATED",
+        referenceId: unit.reference_id ?? "",
+        description: unit.description ?? "",
+        amount: unit.amount,
+      };
+      orders.set(order.id, order);
+      return Response.json(toOrderResponse(order), { status: 201 });
+    }
+
+    if (request.method === "POST" && path.endsWith("/v1/notifications/verify-webhook-signature")) {
+      return Response.json({ verification_status: "SUCCESS" });
+    }
+
+    const match = path.match(/\/v2\/checkout\/orders\/([^/]+)(\/capture)?$/);
+    if (!match) return notFound();
+
+    const order = orders.get(decodeURIComponent(match[1]));
+    if (!order) return notFound();
+
+    if (request.method === "POST" && match[2]) {
+      if (order.status === "COMPLETED") {
+        return Response.json(
+          { name: "UNPROCESSABLE_ENTITY", message: "Order already captured." },
+          { status: 422 }
+        );
+      }
+      order.status = "COMPLETED";
+      order.captureId = `FAKE-CAPTURE-${order.id.split("-").pop()}`;
+      if (captureAmount) order.amount = captureAmount(order);
+      return Response.json(toOrderResponse(order), { status: 201 });
+    }
+
+    if (request.method === "GET" && !match[2]) {
+      return Response.json(toOrderResponse(order));
+    }
+
+    return notFound();
+  };
+
+  const fakeFetch = (input: RequestInfo | URL, init?: RequestInit) => handle(new Request(input, init));
+
+  return { orders, handle, fetch: fakeFetch as typeof fetch };
+}
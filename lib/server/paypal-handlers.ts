@@ -0,0 +1,85 @@
+import { PAYPAL_CURRENCIES } from "@/lib/currency";
+import type { CurrencyCode } from "@/lib/currency";
+import { toDecimalString } from "@/lib/money";
+import { PayPalError } from "@/lib/server/paypal";
+import type { PayPalClient } from "@/lib/server/paypal";
+import { failure, keepPendingBooking, priceBookingRequest, readBody, text } from "@/lib/server/requests";
+import type { BookingCatalog, PendingBookingSaver } from "@/lib/server/requests";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PayPalOrderHandlerOptions extends BookingCatalog {
+  paypal: PayPalClient;
+  currencies?: CurrencyCode[]; // Currencies orders may be placed in; defaults to EUR, USD and GBP
+  // Keeps the order's `booking` draft for the payment webhook
+  savePendingBooking?: PendingBookingSaver;
+}
+
+export interface PayPalCaptureHandlerOptions {
+  paypal: PayPalClient;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+// POST /api/paypal/orders
+// Body is the booking request ({ kind: "stay", itemId, checkIn, ... } or
+// { kind: "dayTrip", tripSlug, tripDate, ... }), plus `currency` and the
+// `exchangeRate` the guest was shown, and optionally the `idempotencyKey` and
+// `booking` draft to keep. The amount is always taken from the server-side
+// quote, never from the browser.
+export function createPayPalOrderHandler({
+  paypal,
+  currencies = PAYPAL_CURRENCIES,
+  savePendingBooking,
+  ...catalog
+}: PayPalOrderHandlerOptions) {
+  return async function POST(request: Request) {
+    const body = await readBody(request);
+    if (!body) return failure(400, "Invalid request body");
+
+    const order = await priceBookingRequest(body, catalog, currencies);
+    if (order instanceof Response) return order;
+
+    try {
+      const created = await paypal.createOrder(order);
+      await keepPendingBooking(body, "paypal", created.id, savePendingBooking);
+      return Response.json({
+        success: true,
+        orderId: created.id,
+        totalEUR: toDecimalString(order.amountEUR),
+        currency: order.amount.currency,
+        amount: toDecimalString(order.amount),
+        exchangeRate: order.exchangeRate,
+      });
+    } catch (err) {
+      console.error("PayPal create order error:", err);
+      return failure(502, "Unable to start payment. Please try again.");
+    }
+  };
+}
+
+// POST /api/paypal/capture
+// Body: { orderId }. Captures an order the guest approved in the PayPal popup.
+export function createPayPalCaptureHandler({ paypal }: PayPalCaptureHandlerOptions) {
+  return async function POST(request: Request) {
+    const body = await readBody(request);
+    const orderId = text(body?.orderId);
+    if (!orderId) return failure(400, "Missing orderId");
+
+    try {
+      const order = await paypal.captureOrder(orderId);
+      if (order.captureStatus !== "COMPLETED") {
+        return failure(402, "Payment was not completed", { status: order.captureStatus });
+      }
+      return Response.json({ success: true, orderId: order.id, captureId: order.captureId });
+    } catch (err) {
+      console.error("PayPal capture error:", err);
+      const status = err instanceof PayPalError && err.status === 422 ? 422 : 502;
+      return failure(status, "Payment could not be captured");
+    }
+  };
+}
@@ -0,0 +1,256 @@
+import { toDecimalString } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import { amountsMatch } from "@/lib/quote";
+import { numberAt, stringAt, valueAt } from "@/lib/server/json";
+import type { ExpectedPayment, PaymentRefusal, PaymentVerifier } from "@/lib/server/payments";
+import type { WebhookSignatureVerifier } from "@/lib/server/payment-webhooks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PayPalOrderInput {
+  referenceId: string;
+  description: string;
+  amount: Money;
+}
+
+// The parts of a PayPal order we act on, flattened from the REST response
+export interface PayPalOrderSummary {
+  id: string;
+  status: string;
+  referenceId: string;
+  captureId: string;
+  captureStatus: string;
+  capturedAmount: string;
+  capturedCurrency: string;
+}
+
+// The transmission headers of a webhook request, the webhook they were sent
+// for and the event, as PayPal's signature check takes them
+export interface PayPalWebhookSignature {
+  authAlgo: string;
+  certUrl: string;
+  transmissionId: string;
+  transmissionSig: string;
+  transmissionTime: string;
+  webhookId: string;
+  event: unknown;
+}
+
+export interface PayPalClient {
+  createOrder: (input: PayPalOrderInput) => Promise<{ id: string }>;
+  captureOrder: (orderId: string) => Promise<PayPalOrderSummary>;
+  getOrder: (orderId: string) => Promise<PayPalOrderSummary>;
+  verifyWebhookSignature: (signature: PayPalWebhookSignature) => Promise<boolean>;
+}
+
+export interface PayPalClientOptions {
+  clientId: string;
+  clientSecret: string;
+  apiBase?: string;
+  fetch?: typeof fetch;
+}
+
+export class PayPalError extends Error {
+  status: number;
+  details: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = "PayPalError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const PAYPAL_LIVE_API = "https://api-m.paypal.com";
+export const PAYPAL_SANDBOX_API = "https://api-m.sandbox.paypal.com";
+
+// ============================================================================
+// REST CLIENT
+// ============================================================================
+
+function summarizeOrder(order: unknown): PayPalOrderSummary {
+  const unit = valueAt(order, "purchase_units", 0);
+  const capture = valueAt(unit, "payments", "captures", 0);
+  return {
+    id: stringAt(order, "id"),
+    status: stringAt(order, "status"),
+    referenceId: stringAt(unit, "reference_id"),
+    captureId: stringAt(capture, "id"),
+    captureStatus: stringAt(capture, "status"),
+    capturedAmount: stringAt(capture, "amount", "value"),
+    capturedCurrency: stringAt(capture, "amount", "currency_code"),
+  };
+}
+
+export function createPayPalClient({
+  clientId,
+  clientSecret,
+  apiBase = PAYPAL_LIVE_API,
+  fetch: fetchImpl = fetch,
+}: PayPalClientOptions): PayPalClient {
+  let token: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    if (token && token.expiresAt > Date.now()) return token.value;
+
+    const response = await fetchImpl(`${apiBase}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+    });
+    const data: unknown = await response.json().catch(() => null);
+    const accessToken = stringAt(data, "access_token");
+    if (!response.ok || !accessToken) {
+      throw new PayPalError("PayPal authentication failed", response.status, data);
+    }
+
+    // Refresh a minute early so a token never expires mid-request
+    token = { value: accessToken, expiresAt: Date.now() + ((numberAt(data, "expires_in") ?? 0) - 60) * 1000 };
+    return token.value;
+  };
+
+  const request = async (method: string, path: string, body?: unknown): Promise<unknown> => {
+    const response = await fetchImpl(`${apiBase}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await getAccessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new PayPalError(stringAt(data, "message") || `PayPal request failed: ${method} ${path}`, response.status, data);
+    }
+    return data;
+  };
+
+  return {
+    createOrder: async ({ referenceId, description, amount }) => {
+      const order = await request("POST", "/v2/checkout/orders", {
+        intent: "CAPTURE",
+        purchase_units: [
+          {
+            reference_id: referenceId,
+            description: description.slice(0, 127),
+            amount: { value: toDecimalString(amount), currency_code: amount.currency },
+          },
+        ],
+      });
+      return { id: stringAt(order, "id") };
+    },
+    captureOrder: async (orderId) =>
+      summarizeOrder(await request("POST", `/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`, {})),
+    getOrder: async (orderId) =>
+      summarizeOrder(await request("GET", `/v2/checkout/orders/${encodeURIComponent(orderId)}`)),
+    verifyWebhookSignature: async (signature) => {
+      const result = await request("POST", "/v1/notifications/verify-webhook-signature", {
+        auth_algo: signature.authAlgo,
+        cert_url: signature.certUrl,
+        transmission_id: signature.transmissionId,
+        transmission_sig: signature.transmissionSig,
+        transmission_time: signature.transmissionTime,
+        webhook_id: signature.webhookId,
+        webhook_event: signature.event,
+      });
+      return stringAt(result, "verification_status") === "SUCCESS";
+    },
+  };
+}
+
+// Build a client from PAYPAL_CLIENT_ID / PAYPAL_CLIENT_SECRET. PAYPAL_API_BASE
+// overrides the endpoint (e.g. the fake API); PAYPAL_ENV=sandbox picks sandbox.
+export function createPayPalClientFromEnv(options: Pick<PayPalClientOptions, "fetch"> = {}) {
+  const clientId = process.env.PAYPAL_CLIENT_ID || process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID || "";
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET || "";
+  const apiBase =
+    process.env.PAYPAL_API_BASE || (process.env.PAYPAL_ENV === "sandbox" ? PAYPAL_SANDBOX_API : PAYPAL_LIVE_API);
+
+  return createPayPalClient({ clientId, clientSecret, apiBase, ...options });
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+// Orders the payer has not finished with, and captures PayPal is still
+// reviewing; a voided order or a declined capture is final
+const PENDING_ORDER_STATUSES = ["CREATED", "SAVED", "APPROVED", "PAYER_ACTION_REQUIRED"];
+
+function checkCapturedOrder(order: PayPalOrderSummary, expected: ExpectedPayment): PaymentRefusal | null {
+  if (order.status !== "COMPLETED" || order.captureStatus !== "COMPLETED") {
+    const pending =
+      PENDING_ORDER_STATUSES.includes(order.status) || (order.status === "COMPLETED" && order.captureStatus === "PENDING");
+    return { error: "Payment has not been captured", pending };
+  }
+  if (order.referenceId !== expected.referenceId) {
+    return { error: "Payment belongs to a different booking" };
+  }
+  if (order.capturedCurrency !== expected.amount.currency || !amountsMatch(order.capturedAmount, expected.amount)) {
+    return { error: "Captured amount does not match the booking total" };
+  }
+  return null;
+}
+
+// Look the order up on PayPal (never trusting the browser's word for it) and
+// confirm it was captured in full for the expected booking.
+export async function verifyPayPalPayment(
+  paypal: PayPalClient,
+  orderId: string,
+  expected: ExpectedPayment
+): Promise<{ captureId: string } | PaymentRefusal> {
+  if (!orderId) return { error: "Missing PayPal order" };
+
+  let order: PayPalOrderSummary;
+  try {
+    order = await paypal.getOrder(orderId);
+  } catch (err) {
+    console.error("PayPal order lookup failed:", err);
+    // An order PayPal does not know is final; an outage is not
+    const pending = !(err instanceof PayPalError) || err.status >= 500 || err.status === 429;
+    return { error: "Payment could not be verified", pending };
+  }
+
+  return checkCapturedOrder(order, expected) ?? { captureId: order.captureId };
+}
+
+export function createPayPalVerifier(paypal: PayPalClient): PaymentVerifier {
+  return async ({ transactionId, referenceId, amount }) => {
+    const result = await verifyPayPalPayment(paypal, transactionId, { referenceId, amount });
+    return "error" in result ? result : { reference: result.captureId };
+  };
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+// Ask PayPal whether a webhook request was signed by it for `webhookId` (the
+// id PayPal lists for the webhook in the app's settings, e.g. PAYPAL_WEBHOOK_ID)
+export function createPayPalWebhookVerifier(paypal: PayPalClient, webhookId: string): WebhookSignatureVerifier {
+  return async ({ headers, event }) => {
+    const header = (name: string) => headers.get(name) ?? "";
+    if (!webhookId || !header("paypal-transmission-sig")) return false;
+
+    try {
+      return await paypal.verifyWebhookSignature({
+        authAlgo: header("paypal-auth-algo"),
+        certUrl: header("paypal-cert-url"),
+        transmissionId: header("paypal-transmission-id"),
+        transmissionSig: header("paypal-transmission-sig"),
+        transmissionTime: header("paypal-transmission-time"),
+        webhookId,
+        event,
+      });
+    } catch (err) {
+      console.error("PayPal webhook verification failed:", err);
+      return false;
+    }
+  };
+}
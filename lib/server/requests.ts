@@ -0,0 +1,343 @@
+import { departureKey, departuresLeft, unavailableNightsOf } from "@/lib/availability";
+import { PAYMENT_PENDING } from "@/lib/booking-api";
+import type { BookingDraft, DayTripBookingRequest, FieldError, StayBookingRequest } from "@/lib/booking-api";
+import { BASE_CURRENCY, chargeFor, isCurrency, rateOf } from "@/lib/currency";
+import type { Charge, CurrencyCode } from "@/lib/currency";
+import type { Money } from "@/lib/money";
+import { quoteDayTrip, quoteStay, resolveBookingConfig } from "@/lib/quote";
+import type { QuoteIssue, StayQuote } from "@/lib/quote";
+import type { BookedDepartures, BookedUnits } from "@/lib/availability";
+import { loadBookedUnits } from "@/lib/server/availability";
+import type { ExchangeRateSource } from "@/lib/server/exchange-rates";
+import { isRecord } from "@/lib/server/json";
+import type { PaymentRefusal } from "@/lib/server/payments";
+import type { BookingItem, DayTrip, GuestParty, StayAddonSelection, StayListing } from "@/lib/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Units booked per night for an item, given the property's time zone.
+// Defaults to counting the bookings in its iCal feeds (loadBookedUnits).
+export type BookedUnitsLoader = (item: BookingItem, options: { timeZone: string }) => Promise<BookedUnits>;
+
+// Bookings per date for a day trip, e.g. counted from the bookings sheet.
+// Without one only the trip's weekdays and blackouts are checked.
+export type BookedDeparturesLoader = (trip: DayTrip) => Promise<BookedDepartures>;
+
+export interface BookingCatalog {
+  getListing?: (itemId: string) => Promise<StayListing | null>;
+  getTrip?: (tripSlug: string) => Promise<DayTrip | null>;
+  getBookedUnits?: BookedUnitsLoader;
+  getBookedDepartures?: BookedDeparturesLoader;
+  getExchangeRates?: ExchangeRateSource;
+}
+
+export interface ChargeOptions {
+  getExchangeRates?: ExchangeRateSource;
+  currencies?: CurrencyCode[]; // Currencies payments may be taken in; EUR only by default
+  // How far the rate a guest was shown may drift from the current one
+  // before the booking is refused (0.02 = 2%). The charge always uses the
+  // current rate.
+  rateTolerance?: number;
+}
+
+// What a payment for a booking request should be for. `amountEUR` is the
+// quoted total `amount` was converted from.
+export interface PricedBooking extends Charge {
+  referenceId: string;
+  description: string;
+  amountEUR: Money;
+}
+
+// A booking kept with its payment until the booking route saves it. The
+// payment webhook replays it if the browser never does.
+export interface PendingBooking {
+  idempotencyKey: string;
+  kind: "stay" | "dayTrip";
+  paymentProvider: string;
+  transactionId: string; // PayPal order id or Stripe payment intent id
+  booking: BookingDraft;
+  createdAt: string; // ISO timestamp
+}
+
+export type PendingBookingSaver = (pending: PendingBooking) => Promise<void>;
+
+// The fields the helpers below quote and charge from: a validated booking
+// request, or a payment order read with stayOrderOf / dayTripOrderOf
+export type StayQuoteFields = Pick<
+  StayBookingRequest,
+  "checkIn" | "checkOut" | "nights" | "guests" | "adults" | "childAges" | "infants" | "units" | "addons"
+>;
+export type DayTripQuoteFields = Pick<
+  DayTripBookingRequest,
+  "tripDate" | "departureTime" | "guests" | "addonIds" | "pickupPointId" | "pickupZone"
+>;
+export interface ChargeFields {
+  currency?: string; // Checked by chargeOf
+  exchangeRate?: number;
+}
+
+// ============================================================================
+// REQUEST HELPERS (shared by the route handlers)
+// ============================================================================
+
+export const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// A number that was sent as something else becomes NaN, so the quote reports
+// the field instead of pricing it with a default
+const count = (value: unknown) => (value === undefined ? undefined : typeof value === "number" ? value : NaN);
+
+export function failure(status: number, error: string, extra: Record<string, unknown> = {}) {
+  return Response.json({ success: false, error, ...extra }, { status });
+}
+
+export function rejectQuote(issues: QuoteIssue[]) {
+  return failure(422, issues[0].message, { issues });
+}
+
+// A payment that may still go through is marked so it is posted again later
+export function rejectPayment({ error, pending }: PaymentRefusal) {
+  return failure(402, error, pending ? { code: PAYMENT_PENDING } : {});
+}
+
+export function rejectFields(fieldErrors: FieldError[]) {
+  return failure(400, fieldErrors[0].message, { fieldErrors });
+}
+
+export async function readBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+    return isRecord(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// The stay a payment order body is for. Its fields are only checked by the quote.
+export function stayOrderOf(body: Record<string, unknown>): StayQuoteFields & ChargeFields {
+  return {
+    checkIn: text(body.checkIn),
+    checkOut: text(body.checkOut),
+    nights: count(body.nights),
+    guests: count(body.guests) ?? NaN,
+    adults: count(body.adults),
+    childAges: Array.isArray(body.childAges) ? body.childAges.map((age) => count(age) ?? NaN) : undefined,
+    infants: count(body.infants),
+    units: count(body.units),
+    addons: Array.isArray(body.addons)
+      ? body.addons.map((addon) => ({
+          id: text(isRecord(addon) ? addon.id : undefined),
+          ...(isRecord(addon) && addon.quantity !== undefined && { quantity: count(addon.quantity) }),
+        }))
+      : undefined,
+    currency: typeof body.currency === "string" ? body.currency : undefined,
+    exchangeRate: count(body.exchangeRate),
+  };
+}
+
+// The day trip a payment order body is for
+export function dayTripOrderOf(body: Record<string, unknown>): DayTripQuoteFields & ChargeFields {
+  return {
+    tripDate: text(body.tripDate),
+    departureTime: text(body.departureTime),
+    guests: count(body.guests) ?? NaN,
+    addonIds: Array.isArray(body.addonIds) ? body.addonIds.map(text) : [],
+    pickupPointId: text(body.pickupPointId),
+    pickupZone: text(body.pickupZone),
+    currency: typeof body.currency === "string" ? body.currency : undefined,
+    exchangeRate: count(body.exchangeRate),
+  };
+}
+
+// Re-price a stay from the fields a client sent, ignoring any amounts in it
+export function quoteStayBody({ item, config }: StayListing, body: StayQuoteFields) {
+  return quoteStay(item, config, {
+    checkIn: body.checkIn,
+    checkOut: body.checkOut ?? "",
+    nights: body.nights,
+    guests: body.guests,
+    party: partyOf(body),
+    units: body.units,
+    addons: stayAddonsOf(body),
+  });
+}
+
+// `adults`, `childAges` and `infants`, when the client sent a breakdown
+export function partyOf(body: Pick<StayQuoteFields, "adults" | "childAges" | "infants">): GuestParty | undefined {
+  if (body.adults === undefined) return undefined;
+  return {
+    adults: body.adults,
+    childAges: body.childAges ?? [],
+    infants: body.infants ?? 0,
+  };
+}
+
+// `addons` as sent by BookingModal: [{ id, quantity? }]
+export function stayAddonsOf(body: Pick<StayQuoteFields, "addons">): StayAddonSelection[] {
+  return body.addons ?? [];
+}
+
+// Refuse a stay that needs more units than are left on any of its nights.
+// Check-out may fall on a full night since the stay does not use it.
+export async function checkStayAvailability(
+  { item, config }: StayListing,
+  checkIn: string,
+  quote: StayQuote,
+  getBookedUnits?: BookedUnitsLoader
+): Promise<Response | null> {
+  const { maxUnits, timeZone } = resolveBookingConfig(config);
+  const bookedUnits = await (getBookedUnits ?? loadBookedUnits)(item, { timeZone });
+  const unavailableNights = unavailableNightsOf(checkIn, quote.nights, quote.units, bookedUnits, maxUnits);
+  if (unavailableNights.length === 0) return null;
+  return failure(409, "Some of these nights are no longer available. Please choose other dates.", {
+    unavailableNights,
+  });
+}
+
+// Refuse a day trip on a date, or in a slot, whose departures are all booked
+export async function checkTripAvailability(
+  trip: DayTrip,
+  tripDate: string,
+  getBookedDepartures?: BookedDeparturesLoader,
+  departureTime?: string
+): Promise<Response | null> {
+  if (!getBookedDepartures) return null;
+  const bookedDepartures = await getBookedDepartures(trip);
+  if (departureTime) {
+    if (departuresLeft(trip, tripDate, bookedDepartures, departureTime) > 0) return null;
+    return failure(409, "This departure is sold out. Please choose another time.", {
+      soldOutDepartures: [departureKey(tripDate, departureTime)],
+    });
+  }
+  if (departuresLeft(trip, tripDate, bookedDepartures) > 0) return null;
+  return failure(409, "This date is sold out. Please choose another date.", { soldOutDates: [tripDate] });
+}
+
+// The currency and amount a booking request is paid in, always at the
+// current rate. The body's `currency` must be one of `currencies`; its
+// `exchangeRate` (the rate the guest was shown) is only compared with the
+// current one, and a 409 sends the guest back to review the amount once it
+// is more than `rateTolerance` off.
+export async function chargeOf(
+  body: ChargeFields,
+  totalEUR: Money,
+  { getExchangeRates, currencies = [BASE_CURRENCY], rateTolerance = 0.02 }: ChargeOptions,
+  listPrices: Partial<Record<CurrencyCode, Money>> = {}
+): Promise<Charge | Response> {
+  const currency = body.currency === undefined || body.currency === "" ? BASE_CURRENCY : body.currency;
+  if (!isCurrency(currency) || !currencies.includes(currency)) return failure(400, "Unsupported currency");
+  if (currency === BASE_CURRENCY) return chargeFor(totalEUR, currency, 1);
+  if (listPrices[currency] !== undefined) return chargeFor(totalEUR, currency, 1, listPrices[currency]);
+  if (!getExchangeRates) return failure(400, "Unsupported currency");
+
+  let current: number | null;
+  try {
+    current = rateOf(await getExchangeRates(), currency);
+  } catch (err) {
+    console.error("Exchange rate lookup failed:", err);
+    return failure(502, "Unable to load exchange rates");
+  }
+  if (!current) return failure(400, "Unsupported currency");
+
+  const shown = body.exchangeRate;
+  if (shown !== undefined && (!(shown > 0) || Math.abs(shown - current) / current > rateTolerance)) {
+    return failure(409, "Exchange rate has changed. Please review your booking.", { exchangeRate: current });
+  }
+  return chargeFor(totalEUR, currency, current);
+}
+
+// Each picked add-on once, as the quote prices them
+export function addonIdsOf(body: Pick<DayTripQuoteFields, "addonIds">): string[] {
+  return [...new Set(body.addonIds ?? [])];
+}
+
+export function quoteDayTripBody(trip: DayTrip, body: DayTripQuoteFields) {
+  return quoteDayTrip(trip, {
+    tripDate: body.tripDate,
+    departureTime: body.departureTime ?? "",
+    guests: body.guests,
+    addonIds: addonIdsOf(body),
+    pickup: { pointId: body.pickupPointId ?? "", zone: body.pickupZone ?? "" },
+  });
+}
+
+// Keep the `booking` draft a payment order was sent with, under the
+// provider's id for the payment. A failure is logged but does not stop the
+// payment: the browser still posts the booking itself.
+export async function keepPendingBooking(
+  body: Record<string, unknown>,
+  paymentProvider: string,
+  transactionId: string,
+  savePendingBooking?: PendingBookingSaver
+) {
+  const idempotencyKey = text(body.idempotencyKey);
+  if (!savePendingBooking || !idempotencyKey || !isRecord(body.booking)) return;
+  try {
+    await savePendingBooking({
+      idempotencyKey,
+      kind: body.kind === "dayTrip" ? "dayTrip" : "stay",
+      paymentProvider,
+      transactionId,
+      // Checked like any booking request when the webhook replays it
+      booking: body.booking as BookingDraft,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error("Pending booking save failed:", err);
+  }
+}
+
+// Price a { kind: "stay" | "dayTrip", ..., currency?, exchangeRate? }
+// booking request for a payment provider that settles in `currencies`.
+// Returns an error Response when it cannot be priced.
+export async function priceBookingRequest(
+  body: Record<string, unknown>,
+  { getListing, getTrip, getBookedUnits, getBookedDepartures, getExchangeRates }: BookingCatalog,
+  currencies: CurrencyCode[] = [BASE_CURRENCY]
+): Promise<PricedBooking | Response> {
+  if (body.kind === "dayTrip" && getTrip) {
+    const trip = await getTrip(text(body.tripSlug));
+    if (!trip) return failure(404, "Unknown trip");
+
+    const order = dayTripOrderOf(body);
+    const quote = quoteDayTripBody(trip, order);
+    if (quote.issues.length > 0) return rejectQuote(quote.issues);
+
+    const soldOut = await checkTripAvailability(trip, order.tripDate, getBookedDepartures, quote.slot?.time);
+    if (soldOut) return soldOut;
+
+    // Day trips have their own MAD prices
+    const charge = await chargeOf(order, quote.total, { getExchangeRates, currencies }, { MAD: quote.totalMAD });
+    if (charge instanceof Response) return charge;
+    return {
+      referenceId: trip.slug,
+      description: `${trip.title} - ${order.tripDate}${quote.slot ? ` ${quote.slot.time}` : ""}`,
+      amountEUR: quote.total,
+      ...charge,
+    };
+  }
+
+  if (body.kind === "stay" && getListing) {
+    const listing = await getListing(text(body.itemId));
+    if (!listing) return failure(404, "Unknown item");
+
+    const order = stayOrderOf(body);
+    const quote = quoteStayBody(listing, order);
+    if (quote.issues.length > 0) return rejectQuote(quote.issues);
+
+    const unavailable = await checkStayAvailability(listing, order.checkIn, quote, getBookedUnits);
+    if (unavailable) return unavailable;
+
+    const charge = await chargeOf(order, quote.total, { getExchangeRates, currencies });
+    if (charge instanceof Response) return charge;
+    return {
+      referenceId: listing.item.id,
+      description: `${listing.item.name} - ${order.checkIn}`,
+      amountEUR: quote.total,
+      ...charge,
+    };
+  }
+
+  return failure(400, "Unsupported booking kind");
+}
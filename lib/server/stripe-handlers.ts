@@ -0,0 +1,55 @@
+import { STRIPE_CURRENCIES } from "@/lib/currency";
+import type { CurrencyCode } from "@/lib/currency";
+import { toDecimalString } from "@/lib/money";
+import type { StripeClient } from "@/lib/server/stripe";
+import { failure, keepPendingBooking, priceBookingRequest, readBody } from "@/lib/server/requests";
+import type { BookingCatalog, PendingBookingSaver } from "@/lib/server/requests";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StripePaymentIntentHandlerOptions extends BookingCatalog {
+  stripe: StripeClient;
+  currencies?: CurrencyCode[]; // Defaults to EUR, MAD, USD and GBP
+  savePendingBooking?: PendingBookingSaver;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+// POST /api/stripe/payment-intents
+// Same booking request body as /api/paypal/orders. Returns the client secret
+// the card form confirms against.
+export function createStripePaymentIntentHandler({
+  stripe,
+  currencies = STRIPE_CURRENCIES,
+  savePendingBooking,
+  ...catalog
+}: StripePaymentIntentHandlerOptions) {
+  return async function POST(request: Request) {
+    const body = await readBody(request);
+    if (!body) return failure(400, "Invalid request body");
+
+    const payment = await priceBookingRequest(body, catalog, currencies);
+    if (payment instanceof Response) return payment;
+
+    try {
+      const intent = await stripe.createPaymentIntent(payment);
+      await keepPendingBooking(body, "stripe", intent.id, savePendingBooking);
+      return Response.json({
+        success: true,
+        paymentIntentId: intent.id,
+        clientSecret: intent.clientSecret,
+        totalEUR: toDecimalString(payment.amountEUR),
+        currency: payment.amount.currency,
+        amount: toDecimalString(payment.amount),
+        exchangeRate: payment.exchangeRate,
+      });
+    } catch (err) {
+      console.error("Stripe payment intent error:", err);
+      return failure(502, "Unable to start payment. Please try again.");
+    }
+  };
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { numberAt, stringAt } from "@/lib/server/json";
+import type { ExpectedPayment, PaymentVerifier } from "@/lib/server/payments";
+import type { WebhookSignatureVerifier } from "@/lib/server/payment-webhooks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StripePaymentIntent {
+  id: string;
+  status: string;
+  amount: number; // minor units, as Stripe reports them
+  currency: string;
+  clientSecret: string;
+  referenceId: string;
+}
+
+export interface StripeClient {
+  createPaymentIntent: (input: ExpectedPayment & { description: string }) => Promise<StripePaymentIntent>;
+  getPaymentIntent: (id: string) => Promise<StripePaymentIntent>;
+}
+
+export interface StripeClientOptions {
+  secretKey: string;
+  apiBase?: string;
+  fetch?: typeof fetch;
+}
+
+export interface StripeWebhookVerifierOptions {
+  signingSecret: string; // The endpoint's "whsec_…" secret, e.g. STRIPE_WEBHOOK_SECRET
+  toleranceSeconds?: number; // Older signatures are refused; 300 by default
+  now?: () => number;
+}
+
+export class StripeError extends Error {
+  status: number;
+  details: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = "StripeError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// ============================================================================
+// REST CLIENT
+// ============================================================================
+
+function summarizeIntent(intent: unknown): StripePaymentIntent {
+  return {
+    id: stringAt(intent, "id"),
+    status: stringAt(intent, "status"),
+    amount: numberAt(intent, "amount") ?? 0,
+    currency: stringAt(intent, "currency"),
+    clientSecret: stringAt(intent, "client_secret"),
+    referenceId: stringAt(intent, "metadata", "reference_id"),
+  };
+}
+
+export function createStripeClient({
+  secretKey,
+  apiBase = "https://api.stripe.com",
+  fetch: fetchImpl = fetch,
+}: StripeClientOptions): StripeClient {
+  const request = async (method: string, path: string, form?: Record<string, string>): Promise<unknown> => {
+    const response = await fetchImpl(`${apiBase}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: form ? new URLSearchParams(form).toString() : undefined,
+    });
+    const data: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new StripeError(stringAt(data, "error", "message") || `Stripe request failed: ${method} ${path}`, response.status, data);
+    }
+    return data;
+  };
+
+  return {
+    createPaymentIntent: async ({ referenceId, description, amount }) =>
+      summarizeIntent(
+        await request("POST", "/v1/payment_intents", {
+          amount: String(amount.minor),
+          currency: amount.currency.toLowerCase(),
+          description,
+          "payment_method_types[]": "card",
+          "metadata[reference_id]": referenceId,
+        })
+      ),
+    getPaymentIntent: async (id) =>
+      summarizeIntent(await request("GET", `/v1/payment_intents/${encodeURIComponent(id)}`)),
+  };
+}
+
+export function createStripeClientFromEnv(options: Pick<StripeClientOptions, "fetch" | "apiBase"> = {}) {
+  return createStripeClient({ secretKey: process.env.STRIPE_SECRET_KEY || "", ...options });
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+// Payment intents that may still succeed; "canceled" and
+// "requires_payment_method" (the card was declined) are final
+const PENDING_INTENT_STATUSES = ["processing", "requires_action", "requires_confirmation", "requires_capture"];
+
+export function createStripeVerifier(stripe: StripeClient): PaymentVerifier {
+  return async ({ transactionId, referenceId, amount }) => {
+    let intent: StripePaymentIntent;
+    try {
+      intent = await stripe.getPaymentIntent(transactionId);
+    } catch (err) {
+      console.error("Stripe payment lookup failed:", err);
+      // A payment intent Stripe does not know is final; an outage is not
+      const pending = !(err instanceof StripeError) || err.status >= 500 || err.status === 429;
+      return { error: "Payment could not be verified", pending };
+    }
+
+    if (intent.status !== "succeeded") {
+      return { error: "Payment has not been completed", pending: PENDING_INTENT_STATUSES.includes(intent.status) };
+    }
+    if (intent.referenceId !== referenceId) return { error: "Payment belongs to a different booking" };
+    if (intent.currency !== amount.currency.toLowerCase() || intent.amount !== amount.minor) {
+      return { error: "Captured amount does not match the booking total" };
+    }
+    return { reference: intent.id };
+  };
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+// Check the Stripe-Signature header ("t=…,v1=…"): an HMAC-SHA256 of
+// "{t}.{raw body}" with the endpoint's signing secret, made within
+// `toleranceSeconds` of now so an old request cannot be replayed.
+export function createStripeWebhookVerifier({
+  signingSecret,
+  toleranceSeconds = 300,
+  now = Date.now,
+}: StripeWebhookVerifierOptions): WebhookSignatureVerifier {
+  return async ({ headers, rawBody }) => {
+    const fields = (headers.get("stripe-signature") ?? "").split(",").map((field) => field.trim().split("="));
+    const timestamp = fields.find(([key]) => key === "t")?.[1] ?? "";
+    const signatures = fields.filter(([key]) => key === "v1").map(([, value]) => Buffer.from(value ?? "", "hex"));
+    if (!signingSecret || !/^\d+$/.test(timestamp)) return false;
+    if (Math.abs(now() / 1000 - Number(timestamp)) > toleranceSeconds) return false;
+
+    const expected = createHmac("sha256", signingSecret).update(`${timestamp}.${rawBody}`).digest();
+    return signatures.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected));
+  };
+}
@@ -0,0 +1,180 @@
+// ============================================================================
+// SHARED BOOKING TYPES
+// ============================================================================
+// Used by the modals, the quote engine and the API route handlers, so keep
+// this file free of React and server-only imports.
+
+export interface ICalFeed {
+  url: string;
+  channel: string; // e.g. "airbnb", "booking.com", "sheet"
+}
+
+// A nightly price for some dates, matched like a StayRule. When several
+// plans cover a night the highest priority wins, then the later one.
+export interface RatePlan {
+  id: string;
+  name: string; // Shown in the price breakdown, e.g. "Spring", "Eid"
+  priceEUR: number;
+  priceMAD?: number; // Day trips; scaled from the base prices when omitted
+  from?: string;
+  to?: string;
+  weekdays?: number[]; // 0 = Sunday
+  priority?: number; // Defaults to 0
+}
+
+export interface BookingItem {
+  id: string;
+  name: string;
+  priceEUR: string; // Standard nightly price, used when no rate plan applies
+  rates?: RatePlan[];
+  iCalURL?: string; // Shorthand for a single feed
+  iCalFeeds?: ICalFeed[];
+}
+
+// A stay restriction for some dates. A rule applies to a date inside
+// [from, to] (both inclusive, either may be left open) that falls on one of
+// `weekdays`, if given. Min/max nights are read from the arrival date.
+export interface StayRule {
+  from?: string;
+  to?: string;
+  weekdays?: number[]; // 0 = Sunday
+  minNights?: number;
+  maxNights?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+}
+
+// How a stay add-on's price is multiplied:
+// - perStay: once per booking (airport transfer)
+// - perNight: by the nights of the stay
+// - perGuest: by the guests (hammam session)
+// - perGuestPerNight: by guests × nights (half board)
+// - perItem: by a quantity the guest picks (dinners)
+export type StayAddonPricing = "perStay" | "perNight" | "perGuest" | "perGuestPerNight" | "perItem";
+
+export interface StayAddon {
+  id: string;
+  name: string;
+  description?: string;
+  priceEUR: number;
+  pricing?: StayAddonPricing; // Defaults to "perStay"
+  maxQuantity?: number; // perItem only; defaults to 10
+}
+
+// An add-on a guest picked; `quantity` only counts for perItem add-ons
+export interface StayAddonSelection {
+  id: string;
+  quantity?: number;
+}
+
+// Guests under 2 are infants, 2 up to `childMaxAge` children, older ones adults
+export type GuestType = "adults" | "children" | "infants";
+
+// Who is counted for what. Lists name the guest types a rule applies to.
+export interface GuestRules {
+  childMaxAge?: number; // Oldest age still priced as a child; defaults to 11
+  maxInfantsPerUnit?: number; // Cots per unit; defaults to 1
+  capacity?: GuestType[]; // Count toward maxGuestsPerUnit; defaults to adults and children
+  extraPersonFee?: GuestType[]; // Count past baseGuestsPerUnit; defaults to adults and children
+  cityTax?: GuestType[]; // Pay city tax; defaults to adults only
+  perPerson?: GuestType[]; // Priced in per-person mode; defaults to adults and children
+  childPrice?: number; // Share of the per-person price a child pays (0.5 = half); defaults to 1
+}
+
+// The guests of a booking. `childAges` has one age (2-17) per child.
+export interface GuestParty {
+  adults: number;
+  childAges: number[];
+  infants: number;
+}
+
+export interface BookingConfig {
+  maxGuestsPerUnit?: number;
+  baseGuestsPerUnit?: number;
+  minNights?: number;
+  maxNights?: number;
+  maxUnits?: number;
+  unitLabel?: string;
+  hasCityTax?: boolean;
+  cityTaxPerNight?: number;
+  extraPersonFee?: number;
+  selectCheckout?: boolean;
+  propertyName?: string;
+  paypalContainerId?: string;
+  isPerPersonPricing?: boolean; // For journeys: price × guests instead of price × nights
+  stayRules?: StayRule[]; // Later rules override earlier ones for a date
+  timeZone?: string; // Property IANA time zone, e.g. "Africa/Casablanca"
+  addons?: StayAddon[]; // Optional extras offered after the dates are picked
+  guestRules?: GuestRules; // Shows adults, children and infants instead of one guest count
+}
+
+// An item together with the config it is sold under. This is what the
+// server looks up by id to re-price a booking.
+export interface StayListing {
+  item: BookingItem;
+  config: BookingConfig;
+}
+
+export interface Addon {
+  id: string;
+  name: string;
+  description: string;
+  priceMAD: number;
+  priceEUR: number;
+}
+
+// A vehicle a day trip runs in, priced per vehicle. A party gets the
+// smallest vehicle that seats it.
+export interface VehicleTier {
+  id: string;
+  name: string; // e.g. "Car", "Minivan", "Bus"
+  maxGuests: number;
+  priceEUR: number;
+  priceMAD: number;
+}
+
+// Dates a day trip does not run (a guide's holiday, Ramadan), both inclusive
+export interface TripBlackout {
+  from: string;
+  to?: string; // Defaults to `from`
+}
+
+// An area guests are picked up in, e.g. Medina, Gueliz, Palmeraie. The
+// surcharge is added once per booking; leave it out for included zones.
+export interface PickupZone {
+  id: string;
+  name: string;
+  surchargeEUR?: number;
+  surchargeMAD?: number; // Scaled from the base prices when omitted
+}
+
+// A riad or hotel drivers know
+export interface PickupPoint {
+  id: string;
+  name: string;
+  zone: string; // PickupZone id
+  notes?: string; // Where to meet, e.g. "At the Bab Laksour car park; 5 min walk"
+}
+
+// A bookable departure time on every date a trip runs
+export interface DepartureSlot {
+  time: string; // "HH:MM" in the property time zone, e.g. "08:00"
+  capacity?: number; // Groups that can leave at this time; defaults to 1
+}
+
+export interface DayTrip {
+  slug: string;
+  title: string;
+  basePriceMAD: number;
+  basePriceEUR: number;
+  addons: Addon[];
+  maxGuests?: number; // Without vehicles; defaults to 2
+  vehicles?: VehicleTier[]; // Replace the base price and maxGuests
+  rates?: RatePlan[]; // Base prices for some dates; vehicles scale with them
+  weekdays?: number[]; // Days it runs, 0 = Sunday; every day by default
+  blackouts?: TripBlackout[];
+  departuresPerDay?: number; // Groups that can go on one date; defaults to 1
+  slots?: DepartureSlot[]; // Departure times to pick from; replace departuresPerDay
+  pickupZones?: PickupZone[];
+  pickupPoints?: PickupPoint[];
+}